@@ -0,0 +1,64 @@
+/* eslint-disable no-console */
+// A mock flag stream for trying out `feature_flag_streaming` locally.
+//
+//     node playground/flags/stream-server.js
+//
+// then open http://localhost:8010 after building the SDK with `pnpm build`.
+// Type a flag key and a value (`true`, `false` or a variant) into this terminal to push it to every open page,
+// or `drop` to disconnect them and see them reconnect.
+const http = require('http')
+const fs = require('fs')
+const path = require('path')
+const readline = require('readline')
+
+const PORT = 8010
+const clients = new Set()
+
+const send = (res, flags) => res.write(`data: ${JSON.stringify({ flags })}\n\n`)
+
+const flagDetail = (key, value) => {
+    const enabled = value !== 'false'
+    return {
+        key,
+        enabled,
+        variant: enabled && value !== 'true' ? value : undefined,
+        reason: { code: 'condition_match', condition_index: 0, description: 'Pushed by the mock stream' },
+        metadata: { id: 1, version: 1, description: undefined, payload: undefined },
+    }
+}
+
+http.createServer((req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`)
+
+    if (url.pathname === '/flags/stream/') {
+        console.log(`connected: ${url.searchParams.get('distinct_id')}`)
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Access-Control-Allow-Origin': '*',
+        })
+        res.write(': connected\n\n')
+        clients.add(res)
+        req.on('close', () => clients.delete(res))
+        return
+    }
+
+    const file =
+        url.pathname === '/' ? path.join(__dirname, 'stream.html') : path.join(__dirname, '../..', url.pathname)
+    fs.readFile(file, (err, content) => {
+        res.writeHead(err ? 404 : 200)
+        res.end(err ? 'not found' : content)
+    })
+}).listen(PORT, () => console.log(`mock flag stream on http://localhost:${PORT}`))
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+    const [key, value = 'true'] = line.trim().split(/\s+/)
+    if (key === 'drop') {
+        clients.forEach((res) => res.destroy())
+        return
+    }
+    if (key) {
+        clients.forEach((res) => send(res, { [key]: flagDetail(key, value) }))
+        console.log(`pushed ${key}=${value} to ${clients.size} page(s)`)
+    }
+})
@@ -0,0 +1,39 @@
+import React, { useEffect, useRef } from 'react'
+import { EarlyAccessFeaturesAppearance, EarlyAccessFeatureStage } from 'posthog-js'
+import { usePostHog } from '../hooks'
+
+export type PostHogEarlyAccessFeaturesProps = {
+    stages?: EarlyAccessFeatureStage[]
+    title?: string
+    appearance?: EarlyAccessFeaturesAppearance
+    /** Opens the features from a tab floating on the side of the page, instead of showing them here */
+    floating?: boolean
+    className?: string
+}
+
+export function PostHogEarlyAccessFeatures({
+    stages,
+    title,
+    appearance,
+    floating,
+    className,
+}: PostHogEarlyAccessFeaturesProps): JSX.Element | null {
+    const posthog = usePostHog()
+    const ref = useRef<HTMLDivElement>(null)
+
+    useEffect(() => {
+        if (!floating && !ref.current) {
+            return
+        }
+        return posthog.renderEarlyAccessFeatures({
+            element: floating ? undefined : (ref.current ?? undefined),
+            stages,
+            title,
+            appearance,
+        })
+        // the options are objects that are usually recreated on every render
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [posthog, floating, title, JSON.stringify(stages), JSON.stringify(appearance)])
+
+    return floating ? null : <div ref={ref} className={className} />
+}
@@ -2,18 +2,19 @@ import { useFeatureFlagPayload, useFeatureFlagVariantKey, usePostHog } from '../
 import React, { Children, ReactNode, useCallback, useEffect, useRef } from 'react'
 import { PostHog } from '../context'
 import { isFunction, isNull, isUndefined } from '../utils/type-utils'
+import { FeatureFlagKey, RegisteredFeatureFlagPayload, RegisteredFeatureFlagValue } from 'posthog-js'
 
-export type PostHogFeatureProps = React.HTMLProps<HTMLDivElement> & {
-    flag: string
-    children: React.ReactNode | ((payload: any) => React.ReactNode)
+export type PostHogFeatureProps<K extends FeatureFlagKey = FeatureFlagKey> = React.HTMLProps<HTMLDivElement> & {
+    flag: K
+    children: React.ReactNode | ((payload: RegisteredFeatureFlagPayload<K>) => React.ReactNode)
     fallback?: React.ReactNode
-    match?: string | boolean
+    match?: RegisteredFeatureFlagValue<K>
     visibilityObserverOptions?: IntersectionObserverInit
     trackInteraction?: boolean
     trackView?: boolean
 }
 
-export function PostHogFeature({
+export function PostHogFeature<K extends FeatureFlagKey>({
     flag,
     match,
     children,
@@ -22,7 +23,7 @@ export function PostHogFeature({
     trackInteraction,
     trackView,
     ...props
-}: PostHogFeatureProps): JSX.Element | null {
+}: PostHogFeatureProps<K>): JSX.Element | null {
     const payload = useFeatureFlagPayload(flag)
     const variant = useFeatureFlagVariantKey(flag)
 
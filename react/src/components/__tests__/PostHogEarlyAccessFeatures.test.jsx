@@ -0,0 +1,51 @@
+import * as React from 'react'
+import { render } from '@testing-library/react'
+import { PostHogProvider } from '../../context'
+import { PostHogEarlyAccessFeatures } from '../'
+
+describe('PostHogEarlyAccessFeatures component', () => {
+    given('remove', () => jest.fn())
+    given('posthog', () => ({
+        renderEarlyAccessFeatures: jest.fn().mockReturnValue(given.remove),
+    }))
+    given('props', () => ({ stages: ['beta'], title: 'Beta program' }))
+    given(
+        'render',
+        () => () =>
+            render(
+                <PostHogProvider client={given.posthog}>
+                    <PostHogEarlyAccessFeatures {...given.props} />
+                </PostHogProvider>
+            )
+    )
+
+    it('should render the features in its element', () => {
+        const { container } = given.render()
+
+        expect(given.posthog.renderEarlyAccessFeatures).toHaveBeenCalledWith({
+            element: container.firstChild,
+            stages: ['beta'],
+            title: 'Beta program',
+            appearance: undefined,
+        })
+    })
+
+    it('should render the features in a floating tab', () => {
+        given('props', () => ({ floating: true }))
+
+        const { container } = given.render()
+
+        expect(container.firstChild).toBeNull()
+        expect(given.posthog.renderEarlyAccessFeatures).toHaveBeenCalledWith(
+            expect.objectContaining({ element: undefined })
+        )
+    })
+
+    it('should remove the features when unmounted', () => {
+        const { unmount } = given.render()
+
+        unmount()
+
+        expect(given.remove).toHaveBeenCalledTimes(1)
+    })
+})
@@ -38,6 +38,7 @@ describe('PostHogFeature component', () => {
         isFeatureEnabled: (flag) => !!FEATURE_FLAG_STATUS[flag],
         getFeatureFlag: (flag) => FEATURE_FLAG_STATUS[flag],
         getFeatureFlagPayload: (flag) => FEATURE_FLAG_PAYLOADS[flag],
+        onFeatureFlag: () => () => {},
         onFeatureFlags: (callback) => {
             const activeFlags = []
             for (const flag in FEATURE_FLAG_STATUS) {
@@ -46,7 +47,7 @@ describe('PostHogFeature component', () => {
                 }
             }
             callback(activeFlags)
-            return () => { }
+            return () => {}
         },
         capture: jest.fn(),
     }))
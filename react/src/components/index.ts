@@ -1 +1,2 @@
 export * from './PostHogFeature'
+export * from './PostHogEarlyAccessFeatures'
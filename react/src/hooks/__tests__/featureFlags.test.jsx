@@ -1,5 +1,6 @@
 import * as React from 'react'
-import { renderHook } from '@testing-library/react-hooks'
+import posthogJs from 'posthog-js'
+import { renderHook, act } from '@testing-library/react-hooks'
 import { PostHogProvider } from '../../context'
 import { useFeatureFlagPayload, useFeatureFlagVariantKey, useFeatureFlagEnabled, useActiveFeatureFlags } from '../index'
 
@@ -31,6 +32,7 @@ describe('useFeatureFlagPayload hook', () => {
         isFeatureEnabled: (flag) => !!FEATURE_FLAG_STATUS[flag],
         getFeatureFlag: (flag) => FEATURE_FLAG_STATUS[flag],
         getFeatureFlagPayload: (flag) => FEATURE_FLAG_PAYLOADS[flag],
+        onFeatureFlag: () => () => {},
         onFeatureFlags: (callback) => {
             const activeFlags = []
             for (const flag in FEATURE_FLAG_STATUS) {
@@ -90,4 +92,89 @@ describe('useFeatureFlagPayload hook', () => {
         })
         expect(result.current).toEqual(expected)
     })
+
+    it('should only re-render when the flag itself changes', () => {
+        const status = { ...FEATURE_FLAG_STATUS }
+        const flagListeners = {}
+        const flagsListeners = []
+        given('posthog', () => ({
+            isFeatureEnabled: (flag) => !!status[flag],
+            onFeatureFlags: (callback) => {
+                flagsListeners.push(callback)
+                return () => {}
+            },
+            onFeatureFlag: (flag, callback) => {
+                flagListeners[flag] = callback
+                return () => delete flagListeners[flag]
+            },
+        }))
+
+        let renders = 0
+        const { result } = renderHook(
+            () => {
+                renders++
+                return useFeatureFlagEnabled('example_feature_false')
+            },
+            { wrapper: given.renderProvider }
+        )
+        expect(result.current).toEqual(false)
+        const rendersBeforeUpdate = renders
+
+        act(() => {
+            status.example_feature_true = false
+            flagsListeners.forEach((callback) => callback([], {}))
+        })
+        expect(renders).toEqual(rendersBeforeUpdate)
+
+        act(() => {
+            status.example_feature_false = true
+            flagListeners.example_feature_false(true, false, undefined)
+        })
+        expect(result.current).toEqual(true)
+    })
+
+    describe('with a real client', () => {
+        given('posthog', () =>
+            posthogJs.init(
+                'test-token',
+                {
+                    api_host: 'https://localhost',
+                    persistence: 'memory',
+                    advanced_disable_decide: true,
+                    autocapture: false,
+                    capture_pageview: false,
+                    disable_surveys: true,
+                },
+                'useFeatureFlagEnabled-' + Math.random()
+            )
+        )
+
+        it('should be disabled rather than unknown when the flag is missing from the loaded flags', () => {
+            const { result } = renderHook(() => useFeatureFlagEnabled('missing'), {
+                wrapper: given.renderProvider,
+            })
+            expect(result.current).toEqual(undefined)
+
+            act(() => {
+                given.posthog.featureFlags.receivedFeatureFlags({ featureFlags: { other_flag: true } })
+            })
+            expect(result.current).toEqual(false)
+        })
+
+        it('should follow the flag when it changes', () => {
+            const { result } = renderHook(() => useFeatureFlagEnabled('flag'), {
+                wrapper: given.renderProvider,
+            })
+
+            act(() => {
+                given.posthog.featureFlags.receivedFeatureFlags({ featureFlags: { flag: true } })
+            })
+            expect(result.current).toEqual(true)
+
+            act(() => {
+                given.posthog.featureFlags.receivedFeatureFlags({ featureFlags: { flag: false } })
+            })
+            expect(result.current).toEqual(false)
+        })
+    })
 })
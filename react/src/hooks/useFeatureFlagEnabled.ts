@@ -1,15 +1,24 @@
 import { useEffect, useState } from 'react'
+import { FeatureFlagKey } from 'posthog-js'
 import { usePostHog } from './usePostHog'
 
-export function useFeatureFlagEnabled(flag: string): boolean | undefined {
+export function useFeatureFlagEnabled<K extends FeatureFlagKey>(flag: K): boolean | undefined {
     const client = usePostHog()
 
     const [featureEnabled, setFeatureEnabled] = useState<boolean | undefined>(() => client.isFeatureEnabled(flag))
 
     useEffect(() => {
-        return client.onFeatureFlags(() => {
-            setFeatureEnabled(client.isFeatureEnabled(flag))
-        })
+        const update = () => setFeatureEnabled(client.isFeatureEnabled(flag))
+        // the flags may have loaded between rendering and subscribing
+        update()
+        const unsubscribeFlag = client.onFeatureFlag(flag, update)
+        // a flag missing from the response never changes, but is disabled rather than unknown once the flags loaded.
+        // this doesn't re-render when the flag keeps its value, as React bails out of the unchanged state
+        const unsubscribeFlags = client.onFeatureFlags(update)
+        return () => {
+            unsubscribeFlag()
+            unsubscribeFlags()
+        }
     }, [client, flag])
 
     return featureEnabled
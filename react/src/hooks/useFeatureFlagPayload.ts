@@ -1,14 +1,18 @@
 import { useEffect, useState } from 'react'
-import { JsonType } from 'posthog-js'
+import { FeatureFlagKey, RegisteredFeatureFlagPayload } from 'posthog-js'
 import { usePostHog } from './usePostHog'
 
-export function useFeatureFlagPayload(flag: string): JsonType {
+export function useFeatureFlagPayload<K extends FeatureFlagKey>(flag: K): RegisteredFeatureFlagPayload<K> {
     const client = usePostHog()
 
-    const [featureFlagPayload, setFeatureFlagPayload] = useState<JsonType>(() => client.getFeatureFlagPayload(flag))
+    const [featureFlagPayload, setFeatureFlagPayload] = useState<RegisteredFeatureFlagPayload<K>>(() =>
+        client.getFeatureFlagPayload(flag)
+    )
 
     useEffect(() => {
-        return client.onFeatureFlags(() => {
+        // the flags may have loaded between rendering and subscribing
+        setFeatureFlagPayload(client.getFeatureFlagPayload(flag))
+        return client.onFeatureFlag(flag, () => {
             setFeatureFlagPayload(client.getFeatureFlagPayload(flag))
         })
     }, [client, flag])
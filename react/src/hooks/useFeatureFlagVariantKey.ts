@@ -1,10 +1,11 @@
 import { useEffect, useState } from 'react'
+import { FeatureFlagKey, RegisteredFeatureFlagValue } from 'posthog-js'
 import { usePostHog } from './usePostHog'
 
-export function useFeatureFlagVariantKey(flag: string): string | boolean | undefined {
+export function useFeatureFlagVariantKey<K extends FeatureFlagKey>(flag: K): RegisteredFeatureFlagValue<K> | undefined {
     const client = usePostHog()
 
-    const [featureFlagVariantKey, setFeatureFlagVariantKey] = useState<string | boolean | undefined>(() =>
+    const [featureFlagVariantKey, setFeatureFlagVariantKey] = useState<RegisteredFeatureFlagValue<K> | undefined>(() =>
         client.getFeatureFlag(flag)
     )
 
@@ -0,0 +1,111 @@
+import { createPosthogInstance } from './helpers/posthog-instance'
+import { uuidv7 } from '../uuidv7'
+import { PostHog } from '../posthog-core'
+import { CaptureDestination, QueuedRequestWithOptions } from '../types'
+
+describe('capture destinations', () => {
+    let mainToken: string
+    let posthog: PostHog
+    let sendRequestSpy: jest.SpyInstance
+
+    const eventRequests = (): QueuedRequestWithOptions[] =>
+        sendRequestSpy.mock.calls.map(([options]) => options).filter((options) => options.url.indexOf('/e/') !== -1)
+
+    beforeEach(() => {
+        mainToken = uuidv7()
+    })
+
+    const setup = async (destinations: CaptureDestination[]) => {
+        posthog = await createPosthogInstance(mainToken, { destinations })
+        sendRequestSpy = jest.spyOn(posthog, '_send_request').mockImplementation(() => {})
+    }
+
+    it('sends captured events to each destination with its token', async () => {
+        await setup([{ token: 'agency-token', api_host: 'https://eu.posthog.com' }])
+
+        posthog.capture('signed up', { plan: 'free' })
+
+        const [main, agency] = eventRequests()
+        expect(main.url).toEqual('http://localhost/e/')
+        expect(main.data).toMatchObject({ event: 'signed up', properties: { token: mainToken, plan: 'free' } })
+        expect(main.destinationToken).toBeUndefined()
+
+        expect(agency.url).toEqual('https://eu.i.posthog.com/e/')
+        expect(agency.data).toMatchObject({ event: 'signed up', properties: { token: 'agency-token', plan: 'free' } })
+        expect(agency.data!['uuid']).toEqual(main.data!['uuid'])
+        expect(agency.destinationToken).toEqual('agency-token')
+    })
+
+    it('uses the api host of the main project by default', async () => {
+        await setup([{ token: 'agency-token' }])
+
+        posthog.capture('signed up')
+
+        expect(eventRequests().map((r) => r.url)).toEqual(['http://localhost/e/', 'http://localhost/e/'])
+    })
+
+    it('only sends the allowed events to a destination', async () => {
+        await setup([{ token: 'agency-token', events: ['purchased'] }])
+
+        posthog.capture('signed up')
+        posthog.capture('purchased')
+
+        expect(eventRequests().map((r) => [r.data!['event'], r.data!['properties'].token])).toEqual([
+            ['signed up', mainToken],
+            ['purchased', mainToken],
+            ['purchased', 'agency-token'],
+        ])
+    })
+
+    it('applies the before_send of the destination only to its copy', async () => {
+        await setup([
+            {
+                token: 'agency-token',
+                before_send: (event) => {
+                    if (event?.properties.secret) {
+                        return null
+                    }
+                    return { ...event!, properties: { ...event!.properties, client: 'acme' } }
+                },
+            },
+        ])
+
+        posthog.capture('public event')
+        posthog.capture('secret event', { secret: true })
+
+        const requests = eventRequests()
+        expect(requests.map((r) => [r.data!['event'], r.data!['properties'].token])).toEqual([
+            ['public event', mainToken],
+            ['public event', 'agency-token'],
+            ['secret event', mainToken],
+        ])
+        expect(requests[0].data!['properties'].client).toBeUndefined()
+        expect(requests[1].data!['properties'].client).toEqual('acme')
+    })
+
+    it('does not copy requests that are not captured events', async () => {
+        await setup([{ token: 'agency-token' }])
+
+        posthog._send_retriable_request({ url: 'http://localhost/flags/', method: 'POST', data: { token: mainToken } })
+
+        expect(sendRequestSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not apply quota limits of a destination to the main project', async () => {
+        const transport = jest.fn().mockImplementation((request, respond) => {
+            const quotaLimited = request.url.indexOf('https://eu.i.posthog.com') === 0 ? ['events'] : []
+            respond({ statusCode: 200, text: JSON.stringify({ quota_limited: quotaLimited }) })
+        })
+        posthog = await createPosthogInstance(mainToken, {
+            transport,
+            destinations: [{ token: 'agency-token', api_host: 'https://eu.posthog.com' }],
+        })
+
+        posthog.capture('signed up')
+
+        expect(transport.mock.calls.map(([request]) => request.url.split('?')[0])).toEqual(
+            expect.arrayContaining(['http://localhost/e/', 'https://eu.i.posthog.com/e/'])
+        )
+        expect(posthog.rateLimiter.isServerRateLimited(undefined)).toBe(false)
+    })
+})
@@ -0,0 +1,122 @@
+import { mockLogger } from './helpers/mock-logger'
+
+import { PostHog } from '../posthog-core'
+import { defaultPostHog } from './helpers/posthog-instance'
+import { uuidv7 } from '../uuidv7'
+import { assignableWindow } from '../utils/globals'
+import { ConsentAdaptersConfig } from '../types'
+
+describe('consent adapters', () => {
+    const createPostHog = (consent_adapters: ConsentAdaptersConfig): PostHog =>
+        defaultPostHog().init('testtoken', { consent_adapters }, uuidv7())!
+
+    afterEach(() => {
+        delete assignableWindow.dataLayer
+        delete assignableWindow.__tcfapi
+        assignableWindow.localStorage.clear()
+    })
+
+    describe('google consent mode', () => {
+        const gtag = (...args: any[]) => assignableWindow.dataLayer.push(args)
+
+        beforeEach(() => {
+            assignableWindow.dataLayer = []
+        })
+
+        it('reads the consent given before init', () => {
+            gtag('consent', 'default', { analytics_storage: 'denied', functionality_storage: 'granted' })
+
+            const posthog = createPostHog({ google_consent_mode: true })
+
+            expect(posthog.has_consent_for('analytics')).toBe(false)
+            expect(posthog.has_consent_for('session_recording')).toBe(false)
+            expect(posthog.has_consent_for('surveys')).toBe(true)
+        })
+
+        it('follows consent updates after init', () => {
+            gtag('consent', 'default', { analytics_storage: 'denied' })
+            const posthog = createPostHog({ google_consent_mode: true })
+
+            gtag('consent', 'update', { analytics_storage: 'granted' })
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+
+            gtag('event', 'page_view')
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+        })
+
+        it('uses the configured mapping', () => {
+            gtag('consent', 'default', { analytics_storage: 'granted', ad_storage: 'denied' })
+
+            const posthog = createPostHog({
+                google_consent_mode: { category_mapping: { session_recording: 'ad_storage' } },
+            })
+
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+            expect(posthog.has_consent_for('session_recording')).toBe(false)
+        })
+    })
+
+    describe('tcf', () => {
+        let listener: (tcData: any, success: boolean) => void
+
+        beforeEach(() => {
+            assignableWindow.__tcfapi = jest.fn().mockImplementation((_command, _version, callback) => {
+                listener = callback
+            })
+        })
+
+        const tcData = (consents: number[], extra: Record<string, any> = {}) => ({
+            eventStatus: 'useractioncomplete',
+            gdprApplies: true,
+            purpose: { consents: consents.reduce((acc, p) => ({ ...acc, [p]: true }), {}) },
+            vendor: { consents: {} },
+            ...extra,
+        })
+
+        it('grants the categories whose purposes have consent', () => {
+            const posthog = createPostHog({ tcf: true })
+
+            listener(tcData([1, 9]), true)
+
+            expect(assignableWindow.__tcfapi).toHaveBeenCalledWith('addEventListener', 2, expect.any(Function))
+            expect(posthog.has_consent_for('analytics')).toBe(false)
+            expect(posthog.has_consent_for('surveys')).toBe(true)
+        })
+
+        it('waits for the user to make a choice', () => {
+            const posthog = createPostHog({ tcf: true })
+
+            listener(tcData([], { eventStatus: 'cmpuishown' }), true)
+
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+        })
+
+        it('grants everything when gdpr does not apply', () => {
+            const posthog = createPostHog({ tcf: true })
+
+            listener(tcData([], { gdprApplies: false }), true)
+
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+        })
+
+        it('requires vendor consent when a vendor id is configured', () => {
+            const posthog = createPostHog({ tcf: { vendor_id: 42 } })
+
+            listener(tcData([1, 8, 9]), true)
+            expect(posthog.has_consent_for('analytics')).toBe(false)
+
+            listener(tcData([1, 8, 9], { vendor: { consents: { 42: true } } }), true)
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+        })
+
+        it('warns when there is no CMP on the page', () => {
+            delete assignableWindow.__tcfapi
+
+            createPostHog({ tcf: true })
+
+            expect(mockLogger.warn).toHaveBeenCalledWith(
+                'window.__tcfapi was not found, the CMP script has to be loaded before PostHog is initialized'
+            )
+        })
+    })
+})
@@ -182,6 +182,74 @@ describe('consentManager', () => {
         })
     })
 
+    describe('consent categories', () => {
+        let beforeSendMock: jest.Mock
+
+        beforeEach(() => {
+            beforeSendMock = jest.fn().mockImplementation((e) => e)
+        })
+
+        it('should grant every category by default', () => {
+            expect(posthog.get_consent_categories()).toEqual({
+                analytics: true,
+                session_recording: true,
+                heatmaps: true,
+                surveys: true,
+                exceptions: true,
+                web_vitals: true,
+            })
+        })
+
+        it('should use the configured defaults until consent is given', () => {
+            posthog = createPostHog({ default_consent_categories: { session_recording: false, heatmaps: false } })
+            expect(posthog.has_consent_for('session_recording')).toBe(false)
+            expect(posthog.has_consent_for('heatmaps')).toBe(false)
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+
+            posthog.set_consent_categories({ session_recording: true })
+            expect(posthog.has_consent_for('session_recording')).toBe(true)
+            expect(posthog.has_consent_for('heatmaps')).toBe(false)
+        })
+
+        it('should persist the consent for the next page load', () => {
+            posthog.set_consent_categories({ surveys: false })
+
+            posthog = createPostHog()
+            expect(posthog.has_consent_for('surveys')).toBe(false)
+        })
+
+        it('should withhold every category when opted out', () => {
+            posthog.set_consent_categories({ analytics: true })
+            posthog.opt_out_capturing()
+            expect(posthog.has_consent_for('analytics')).toBe(false)
+        })
+
+        it('should only drop the events of the categories without consent', () => {
+            posthog = createPostHog({ before_send: beforeSendMock })
+            posthog.set_consent_categories({ exceptions: false })
+
+            posthog.capture('$exception', { $exception_list: [] })
+            posthog.capture('survey shown')
+            posthog.capture('custom event')
+
+            expect(beforeSendMock.mock.calls.map(([e]) => e.event)).toEqual(['survey shown', 'custom event'])
+        })
+
+        it('should not start heatmaps without consent, and start them once it is given', () => {
+            posthog = createPostHog({ capture_heatmaps: true, default_consent_categories: { heatmaps: false } })
+            expect(posthog.heatmaps?.isEnabled).toBe(false)
+
+            posthog.set_consent_categories({ heatmaps: true })
+            expect(posthog.heatmaps?.isEnabled).toBe(true)
+        })
+
+        it('should clear the categories on reset', () => {
+            posthog.set_consent_categories({ analytics: false })
+            posthog.clear_opt_in_out_capturing()
+            expect(posthog.has_consent_for('analytics')).toBe(true)
+        })
+    })
+
     describe('with do not track setting', () => {
         beforeEach(() => {
             ;(navigator as any).doNotTrack = '1'
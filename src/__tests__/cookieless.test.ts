@@ -1,6 +1,6 @@
 import type { PostHogConfig } from '../types'
 import { uuidv7 } from '../uuidv7'
-import { defaultPostHog } from './helpers/posthog-instance'
+import { createPosthogInstance, defaultPostHog } from './helpers/posthog-instance'
 
 describe('cookieless', () => {
     const eventName = 'custom_event'
@@ -28,8 +28,10 @@ describe('cookieless', () => {
         expect(event.properties.distinct_id).toBe('$posthog_cookieless')
         expect(event.properties.$anon_distinct_id).toBe(undefined)
         expect(event.properties.$device_id).toBe(null)
-        expect(event.properties.$session_id).toBe(undefined)
-        expect(event.properties.$window_id).toBe(undefined)
+        const sessionId = event.properties.$session_id
+        const windowId = event.properties.$window_id
+        expect(sessionId).toEqual(expect.any(String))
+        expect(windowId).toEqual(expect.any(String))
         expect(event.properties.$cookieless_mode).toEqual(true)
         expect(document.cookie).toBe('')
 
@@ -43,10 +45,14 @@ describe('cookieless', () => {
         expect(event.properties.distinct_id).toBe('$posthog_cookieless')
         expect(event.properties.$anon_distinct_id).toBe(undefined)
         expect(event.properties.$device_id).toBe(null)
-        expect(event.properties.$session_id).toBe(undefined)
-        expect(event.properties.$window_id).toBe(undefined)
+        expect(event.properties.$session_id).toBe(sessionId)
+        expect(event.properties.$window_id).toBe(windowId)
         expect(event.properties.$cookieless_mode).toEqual(true)
         expect(document.cookie).not.toBe('')
+        // the session is only ever kept in memory
+        expect(document.cookie).not.toContain(sessionId)
+        expect(JSON.stringify(localStorage)).not.toContain(sessionId)
+        expect(JSON.stringify(sessionStorage)).not.toContain(windowId)
 
         // a user identifying
         posthog.identify(identifiedDistinctId)
@@ -55,8 +61,8 @@ describe('cookieless', () => {
         expect(event.properties.distinct_id).toBe(identifiedDistinctId)
         expect(event.properties.$anon_distinct_id).toBe('$posthog_cookieless')
         expect(event.properties.$device_id).toBe(null)
-        expect(event.properties.$session_id).toBe(undefined)
-        expect(event.properties.$window_id).toBe(undefined)
+        expect(event.properties.$session_id).toBe(sessionId)
+        expect(event.properties.$window_id).toBe(windowId)
         expect(event.properties.$cookieless_mode).toEqual(true)
 
         // an event after identifying
@@ -66,8 +72,8 @@ describe('cookieless', () => {
         expect(event.properties.distinct_id).toBe(identifiedDistinctId)
         expect(event.properties.$anon_distinct_id).toBe(undefined)
         expect(event.properties.$device_id).toBe(null)
-        expect(event.properties.$session_id).toBe(undefined)
-        expect(event.properties.$window_id).toBe(undefined)
+        expect(event.properties.$session_id).toBe(sessionId)
+        expect(event.properties.$window_id).toBe(windowId)
         expect(event.properties.$cookieless_mode).toEqual(true)
 
         // reset
@@ -81,9 +87,27 @@ describe('cookieless', () => {
         expect(event.properties.distinct_id).toBe('$posthog_cookieless')
         expect(event.properties.$anon_distinct_id).toBe(undefined)
         expect(event.properties.$device_id).toBe(null)
-        expect(event.properties.$session_id).toBe(undefined)
-        expect(event.properties.$window_id).toBe(undefined)
+        expect(event.properties.$session_id).toEqual(expect.any(String))
+        expect(event.properties.$session_id).not.toBe(sessionId)
         expect(event.properties.$cookieless_mode).toEqual(true)
         expect(document.cookie).toBe('')
     })
+
+    it('records sessions without storing the session id', async () => {
+        const posthog = await createPosthogInstance(uuidv7(), {
+            persistence: 'localStorage+cookie',
+            __preview_experimental_cookieless_mode: true,
+        })
+
+        expect(posthog.sessionRecording).toBeDefined()
+        const { sessionId } = posthog.sessionManager!.checkAndGetSessionAndWindowId()
+
+        posthog.sessionRecording!.overrideSampling()
+
+        expect(posthog.sessionManager!.persistence.props.$sesid[1]).toBe(sessionId)
+        expect(posthog.persistence!.props.$sesid).toBeUndefined()
+        expect(posthog.persistence!.props.$session_is_sampled).toBeUndefined()
+        expect(document.cookie).not.toContain(sessionId)
+        expect(JSON.stringify(localStorage)).not.toContain(sessionId)
+    })
 })
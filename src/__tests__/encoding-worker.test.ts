@@ -0,0 +1,129 @@
+import { EncodingWorker } from '../encoding-worker'
+import { assignableWindow } from '../utils/globals'
+
+describe('EncodingWorker', () => {
+    const win = assignableWindow as any
+    let workers: FakeWorker[]
+
+    class FakeWorker {
+        onmessage: ((e: any) => void) | null = null
+        onerror: ((e: any) => void) | null = null
+        postMessage = jest.fn()
+
+        constructor(public url: string) {
+            workers.push(this)
+        }
+
+        respond(data: any) {
+            this.onmessage?.({ data })
+        }
+    }
+
+    const originals = {
+        Worker: win.Worker,
+        CompressionStream: win.CompressionStream,
+        createObjectURL: URL.createObjectURL,
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers()
+        workers = []
+        win.Worker = FakeWorker
+        win.CompressionStream = jest.fn()
+        URL.createObjectURL = jest.fn().mockReturnValue('blob:worker')
+    })
+
+    afterEach(() => {
+        win.Worker = originals.Worker
+        win.CompressionStream = originals.CompressionStream
+        URL.createObjectURL = originals.createObjectURL
+        jest.useRealTimers()
+    })
+
+    it('is not created when the browser does not support CompressionStream', () => {
+        win.CompressionStream = undefined
+
+        expect(EncodingWorker.create()).toBeUndefined()
+        expect(workers).toHaveLength(0)
+    })
+
+    it('is not created when the worker cannot be constructed', () => {
+        win.Worker = jest.fn().mockImplementation(() => {
+            throw new Error('blocked by CSP')
+        })
+
+        expect(EncodingWorker.create()).toBeUndefined()
+    })
+
+    it('matches responses to their requests', () => {
+        const encoder = EncodingWorker.create()!
+        const first = jest.fn()
+        const second = jest.fn()
+
+        encoder.gzip({ event: 'first' }, first)
+        encoder.gzip({ event: 'second' }, second)
+
+        expect(workers[0].url).toEqual('blob:worker')
+        expect(workers[0].postMessage.mock.calls).toEqual([
+            [{ id: 0, data: { event: 'first' } }],
+            [{ id: 1, data: { event: 'second' } }],
+        ])
+
+        workers[0].respond({ id: 1, buffer: new Uint8Array([2]).buffer })
+        workers[0].respond({ id: 0, buffer: new Uint8Array([1]).buffer })
+
+        expect(first).toHaveBeenCalledWith(new Uint8Array([1]))
+        expect(second).toHaveBeenCalledWith(new Uint8Array([2]))
+    })
+
+    it('falls back when the worker reports an error', () => {
+        const encoder = EncodingWorker.create()!
+        const callback = jest.fn()
+
+        encoder.gzip({ event: 'foo' }, callback)
+        workers[0].respond({ id: 0, error: 'TypeError' })
+
+        expect(callback).toHaveBeenCalledWith(undefined)
+        expect(encoder.isAvailable).toBe(true)
+    })
+
+    it('falls back when the data cannot be sent to the worker', () => {
+        const encoder = EncodingWorker.create()!
+        workers[0].postMessage.mockImplementation(() => {
+            throw new Error('DataCloneError')
+        })
+        const callback = jest.fn()
+
+        encoder.gzip({ fn: () => {} }, callback)
+
+        expect(callback).toHaveBeenCalledWith(undefined)
+    })
+
+    it('falls back when the worker takes too long, and ignores its late response', () => {
+        const encoder = EncodingWorker.create()!
+        const callback = jest.fn()
+
+        encoder.gzip({ event: 'foo' }, callback)
+        jest.advanceTimersByTime(5000)
+        workers[0].respond({ id: 0, buffer: new Uint8Array([1]).buffer })
+
+        expect(callback).toHaveBeenCalledTimes(1)
+        expect(callback).toHaveBeenCalledWith(undefined)
+    })
+
+    it('stops using a worker that has failed', () => {
+        const encoder = EncodingWorker.create()!
+        const pending = jest.fn()
+        encoder.gzip({ event: 'foo' }, pending)
+
+        workers[0].onerror?.({ message: 'failed to load' })
+
+        expect(pending).toHaveBeenCalledWith(undefined)
+        expect(encoder.isAvailable).toBe(false)
+
+        const later = jest.fn()
+        encoder.gzip({ event: 'bar' }, later)
+        expect(later).toHaveBeenCalledWith(undefined)
+        expect(workers[0].postMessage).toHaveBeenCalledTimes(1)
+    })
+})
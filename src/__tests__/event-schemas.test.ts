@@ -0,0 +1,168 @@
+import { mockLogger } from './helpers/mock-logger'
+
+import { validateAgainstSchema } from '../event-schemas'
+import { createPosthogInstance } from './helpers/posthog-instance'
+import { uuidv7 } from '../uuidv7'
+import { PostHog } from '../posthog-core'
+import { EventSchema, InferEventProperties } from '../types'
+
+const typedEventSchema = {
+    type: 'object',
+    properties: {
+        plan: { enum: ['free', 'paid'] },
+        seats: { type: 'integer' },
+    },
+    required: ['plan'],
+} as const
+
+declare module '../types' {
+    interface RegisteredEventSchemas {
+        'typed schema test event': InferEventProperties<typeof typedEventSchema>
+    }
+}
+
+describe('event schemas', () => {
+    describe('validateAgainstSchema', () => {
+        const schema: EventSchema = {
+            type: 'object',
+            properties: {
+                plan: { type: 'string', enum: ['free', 'paid'] },
+                seats: { type: 'integer', minimum: 1, maximum: 100 },
+                coupon: { type: ['string', 'null'], pattern: '^[A-Z]+$', maxLength: 5 },
+                items: {
+                    type: 'array',
+                    minItems: 1,
+                    items: {
+                        type: 'object',
+                        properties: { price: { type: 'number', minimum: 0 } },
+                        required: ['price'],
+                    },
+                },
+            },
+            required: ['plan'],
+            additionalProperties: false,
+        }
+
+        it('accepts matching properties', () => {
+            expect(
+                validateAgainstSchema(
+                    { plan: 'paid', seats: 3, coupon: null, items: [{ price: 9.99 }], $current_url: 'https://x' },
+                    schema
+                )
+            ).toEqual([])
+        })
+
+        it.each([
+            [{}, ['plan is required']],
+            [{ plan: 'enterprise' }, ['plan should be one of "free", "paid"']],
+            [{ plan: 'free', seats: '3' }, ['seats should be of type integer but was string']],
+            [{ plan: 'free', seats: 1.5 }, ['seats should be of type integer but was number']],
+            [{ plan: 'free', seats: 0 }, ['seats should be >= 1']],
+            [{ plan: 'free', coupon: 'lower' }, ['coupon should match ^[A-Z]+$']],
+            [{ plan: 'free', coupon: 'TOOLONG' }, ['coupon should have at most 5 characters']],
+            [{ plan: 'free', items: [] }, ['items should have at least 1 items']],
+            [
+                { plan: 'free', items: [{ price: -1 }, {}] },
+                ['items[0].price should be >= 0', 'items[1].price is required'],
+            ],
+            [{ plan: 'free', plna: 'free' }, ['plna is not an allowed property']],
+        ])('reports violations for %j', (properties, expected) => {
+            expect(validateAgainstSchema(properties, schema)).toEqual(expected)
+        })
+
+        it('accepts integers for number types', () => {
+            expect(validateAgainstSchema(1, { type: 'number' })).toEqual([])
+        })
+    })
+
+    describe('capture', () => {
+        let posthog: PostHog
+        let beforeSendMock: jest.Mock
+
+        const schema: EventSchema = {
+            type: 'object',
+            properties: { plan: { enum: ['free', 'paid'] } },
+            required: ['plan'],
+        }
+
+        beforeEach(async () => {
+            beforeSendMock = jest.fn().mockImplementation((e) => e)
+            posthog = await createPosthogInstance(uuidv7(), { before_send: beforeSendMock })
+        })
+
+        it('sends events that match their schema untouched', () => {
+            posthog.registerEventSchema('signed up', schema)
+
+            posthog.capture('signed up', { plan: 'free' })
+
+            expect(beforeSendMock).toHaveBeenCalledTimes(1)
+            expect(beforeSendMock.mock.calls[0][0].properties.$schema_violations).toBeUndefined()
+            expect(mockLogger.warn).not.toHaveBeenCalled()
+        })
+
+        it('warns about violations by default', () => {
+            posthog.registerEventSchema('signed up', schema)
+
+            posthog.capture('signed up', { plan: 'enterprise' })
+
+            expect(beforeSendMock).toHaveBeenCalledTimes(1)
+            expect(mockLogger.warn).toHaveBeenCalledWith('Event "signed up" does not match its schema:', [
+                'plan should be one of "free", "paid"',
+            ])
+        })
+
+        it('drops violating events in drop mode', () => {
+            posthog.set_config({ schema_violation_mode: 'drop' })
+            posthog.registerEventSchema('signed up', schema)
+
+            expect(posthog.capture('signed up', {})).toBeUndefined()
+            expect(beforeSendMock).not.toHaveBeenCalled()
+        })
+
+        it('only validates the properties passed to capture', () => {
+            posthog.register({ plan_source: 'pricing page' })
+            posthog.registerEventSchema('signed up', { ...schema, additionalProperties: false }, { mode: 'drop' })
+
+            posthog.capture('signed up', { plan: 'free' })
+            posthog.capture('signed up', { plan: 'free', coupon: 'SAVE10' })
+
+            expect(beforeSendMock).toHaveBeenCalledTimes(1)
+            expect(beforeSendMock.mock.calls[0][0].properties).toMatchObject({
+                plan: 'free',
+                plan_source: 'pricing page',
+                distinct_id: expect.any(String),
+                token: expect.any(String),
+            })
+        })
+
+        it('tags violating events in tag mode', () => {
+            posthog.registerEventSchema('signed up', schema, { mode: 'tag' })
+
+            posthog.capture('signed up', {})
+
+            expect(beforeSendMock.mock.calls[0][0].properties.$schema_violations).toEqual(['plan is required'])
+        })
+
+        it('does not validate events without a schema, or after it is unregistered', () => {
+            posthog.registerEventSchema('signed up', schema, { mode: 'drop' })
+            posthog.unregisterEventSchema('signed up')
+
+            posthog.capture('signed up', {})
+            posthog.capture('something else', {})
+
+            expect(beforeSendMock).toHaveBeenCalledTimes(2)
+        })
+
+        it('type checks the properties of registered events', () => {
+            posthog.registerEventSchema('typed schema test event', typedEventSchema, { mode: 'drop' })
+
+            posthog.capture('typed schema test event', { plan: 'paid', seats: 2, anything: 'else' })
+            // @ts-expect-error - plan is required
+            posthog.capture('typed schema test event', { seats: 2 })
+            // @ts-expect-error - plan has to be one of the enum values
+            posthog.capture('typed schema test event', { plan: 'enterprise' })
+
+            expect(beforeSendMock).toHaveBeenCalledTimes(1)
+        })
+    })
+})
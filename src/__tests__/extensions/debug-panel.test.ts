@@ -0,0 +1,118 @@
+import '../helpers/mock-logger'
+
+import { createPosthogInstance } from '../helpers/posthog-instance'
+import { uuidv7 } from '../../uuidv7'
+import { PostHog } from '../../posthog-core'
+import { DEBUG_PANEL_STORAGE_KEY } from '../../extensions/debug-panel'
+import { CaptureResult } from '../../types'
+
+describe('DebugPanel', () => {
+    let posthog: PostHog
+
+    const panelRoot = () => document.querySelector('.ph-debug-panel-host')?.shadowRoot
+    const panelText = () => panelRoot()?.querySelector('.ph-debug-panel')?.textContent ?? ''
+
+    beforeEach(() => {
+        jest.spyOn(window.console, 'log').mockImplementation()
+        localStorage.clear()
+    })
+
+    afterEach(() => {
+        posthog?.debug(false)
+        document.body.innerHTML = ''
+    })
+
+    it('does not show without being enabled', async () => {
+        posthog = await createPosthogInstance(uuidv7())
+
+        expect(posthog.debugPanel?.isStarted).toBe(false)
+        expect(panelRoot()).toBeUndefined()
+    })
+
+    it('starts with posthog.debug({ panel: true }) and remembers it', async () => {
+        posthog = await createPosthogInstance(uuidv7())
+
+        posthog.debug({ panel: true })
+
+        expect(posthog.debugPanel?.isStarted).toBe(true)
+        expect(panelText()).toContain('PostHog debug')
+        expect(localStorage.getItem(DEBUG_PANEL_STORAGE_KEY)).toEqual('true')
+
+        const next = await createPosthogInstance(uuidv7())
+        expect(next.debugPanel?.isStarted).toBe(true)
+        next.debugPanel?.stop()
+    })
+
+    it('stops with posthog.debug(false)', async () => {
+        posthog = await createPosthogInstance(uuidv7())
+        posthog.debug({ panel: true })
+
+        posthog.debug(false)
+
+        expect(posthog.debugPanel?.isStarted).toBe(false)
+        expect(panelRoot()).toBeUndefined()
+        expect(localStorage.getItem(DEBUG_PANEL_STORAGE_KEY)).toBeNull()
+    })
+
+    it('lists captured events with their properties', async () => {
+        posthog = await createPosthogInstance(uuidv7())
+        posthog.debug({ panel: true })
+
+        posthog.capture('clicked buy', { plan: 'free' })
+
+        expect(posthog.debugPanel?.events.map(({ event, outcome }) => [event.event, outcome])).toEqual([
+            ['clicked buy', 'none'],
+        ])
+        const details = panelRoot()!.querySelectorAll('details')
+        expect(details).toHaveLength(1)
+        expect(details[0].querySelector('summary')?.textContent).toEqual('clicked buy')
+        expect(details[0].querySelector('pre')?.textContent).toContain('"plan": "free"')
+    })
+
+    it('shows what before_send did with each event', async () => {
+        posthog = await createPosthogInstance(uuidv7(), {
+            before_send: (event: CaptureResult | null) => {
+                if (event?.event === 'secret') {
+                    return null
+                }
+                if (event?.event === 'renamed') {
+                    event.properties.extra = true
+                }
+                return event
+            },
+        })
+        posthog.debug({ panel: true })
+
+        posthog.capture('untouched')
+        posthog.capture('renamed')
+        posthog.capture('secret')
+
+        expect(posthog.debugPanel?.events.map(({ event, outcome }) => [event.event, outcome])).toEqual([
+            ['secret', 'dropped'],
+            ['renamed', 'modified'],
+            ['untouched', 'kept'],
+        ])
+        expect(panelRoot()!.querySelector('.ph-debug-outcome.dropped')?.textContent).toEqual('dropped')
+    })
+
+    it('shows the state of the SDK and the flags', async () => {
+        posthog = await createPosthogInstance(uuidv7())
+        posthog.featureFlags.receivedFeatureFlags({
+            flags: {
+                'my-flag': {
+                    key: 'my-flag',
+                    enabled: true,
+                    variant: 'test',
+                    reason: { code: 'condition_match', condition_index: 0, description: 'Matched condition set 1' },
+                    metadata: undefined,
+                },
+            },
+        })
+        posthog.debug({ panel: true })
+
+        const text = panelText()
+        expect(text).toContain(posthog.get_session_id())
+        expect(text).toContain('consentanalytics, session_recording, heatmaps, surveys, exceptions, web_vitals')
+        expect(text).toContain('my-flagtest (Matched condition set 1)')
+    })
+})
@@ -0,0 +1,115 @@
+import '@testing-library/jest-dom'
+import { cleanup, fireEvent, render, screen } from '@testing-library/preact'
+
+import { EarlyAccessFeatureList, renderEarlyAccessFeatures } from '../../extensions/early-access-features'
+import { PostHog } from '../../posthog-core'
+import { EarlyAccessFeature } from '../../types'
+
+describe('early access features', () => {
+    const features: EarlyAccessFeature[] = [
+        {
+            name: 'New dashboard',
+            description: 'A faster dashboard',
+            stage: 'beta',
+            documentationUrl: 'https://example.com/docs/dashboard',
+            flagKey: 'new-dashboard',
+        },
+        { name: 'Dark mode', description: '', stage: 'alpha', documentationUrl: null, flagKey: 'dark-mode' },
+        { name: 'AI search', description: 'Ask anything', stage: 'concept', documentationUrl: null, flagKey: null },
+    ]
+
+    let flags: Record<string, boolean>
+    let flagsCallback: (() => void) | undefined
+    let posthog: PostHog
+
+    beforeEach(() => {
+        cleanup()
+        document.body.innerHTML = ''
+        flags = { 'new-dashboard': true }
+        posthog = {
+            config: {},
+            getEarlyAccessFeatures: jest.fn((callback) => callback(features)),
+            isFeatureEnabled: (key: string) => !!flags[key],
+            onFeatureFlags: (callback: () => void) => {
+                flagsCallback = callback
+                return () => {}
+            },
+            updateEarlyAccessFeatureEnrollment: jest.fn((key: string, isEnrolled: boolean) => {
+                flags[key] = isEnrolled
+                flagsCallback?.()
+            }),
+            reloadFeatureFlags: jest.fn(),
+        } as unknown as PostHog
+    })
+
+    it('lists the features of each stage', () => {
+        render(<EarlyAccessFeatureList posthog={posthog} options={{ stages: ['alpha', 'beta'] }} />)
+
+        expect(posthog.getEarlyAccessFeatures).toHaveBeenCalledWith(expect.any(Function), true, ['alpha', 'beta'])
+        expect(screen.getAllByRole('heading').map((heading) => heading.textContent)).toEqual([
+            'Early access features',
+            'Alpha',
+            'Beta',
+        ])
+        expect(screen.getByText('A faster dashboard')).toBeInTheDocument()
+        expect(screen.getByText('Learn more')).toHaveAttribute('href', 'https://example.com/docs/dashboard')
+        expect(screen.queryByText('AI search')).not.toBeInTheDocument()
+    })
+
+    it('shows the enrollment of each feature', () => {
+        render(<EarlyAccessFeatureList posthog={posthog} options={{}} />)
+
+        expect(screen.getByRole('switch', { name: 'New dashboard' })).toHaveAttribute('aria-checked', 'true')
+        expect(screen.getByRole('switch', { name: 'Dark mode' })).toHaveAttribute('aria-checked', 'false')
+        // there's nothing to enroll in without a flag
+        expect(screen.getByText('AI search')).toBeInTheDocument()
+        expect(screen.queryByRole('switch', { name: 'AI search' })).not.toBeInTheDocument()
+    })
+
+    it('toggles the enrollment and refreshes the flags', () => {
+        render(<EarlyAccessFeatureList posthog={posthog} options={{}} />)
+
+        fireEvent.click(screen.getByRole('switch', { name: 'Dark mode' }))
+
+        expect(posthog.updateEarlyAccessFeatureEnrollment).toHaveBeenCalledWith('dark-mode', true)
+        expect(posthog.reloadFeatureFlags).toHaveBeenCalled()
+        expect(screen.getByRole('switch', { name: 'Dark mode' })).toHaveAttribute('aria-checked', 'true')
+    })
+
+    describe('renderEarlyAccessFeatures', () => {
+        const shadow = () => document.querySelector('.PostHogEarlyAccessFeatures')?.shadowRoot
+
+        it('renders in the element matching the selector', () => {
+            document.body.innerHTML = '<div id="beta-program"></div>'
+
+            renderEarlyAccessFeatures(posthog, { selector: '#beta-program', title: 'Beta program' })
+
+            expect(document.querySelector('#beta-program .PostHogEarlyAccessFeatures')).not.toBeNull()
+            expect(shadow()?.querySelector('.early-access-features-title')?.textContent).toEqual('Beta program')
+        })
+
+        it('renders nothing when no element matches the selector', () => {
+            renderEarlyAccessFeatures(posthog, { selector: '#missing' })
+
+            expect(shadow()).toBeUndefined()
+        })
+
+        it('opens the features from a floating tab', () => {
+            renderEarlyAccessFeatures(posthog, { appearance: { widgetLabel: 'Try betas' } })
+
+            const tab = shadow()!.querySelector('.early-access-features-tab') as HTMLButtonElement
+            expect(tab.textContent).toEqual('Try betas')
+            fireEvent.click(tab)
+
+            expect(shadow()!.querySelector('.early-access-features')).not.toBeNull()
+        })
+
+        it('removes the features again', () => {
+            const remove = renderEarlyAccessFeatures(posthog, {})
+
+            remove()
+
+            expect(shadow()).toBeUndefined()
+        })
+    })
+})
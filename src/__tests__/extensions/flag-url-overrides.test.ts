@@ -0,0 +1,198 @@
+import { mockLogger } from '../helpers/mock-logger'
+
+import { createPosthogInstance, defaultPostHog } from '../helpers/posthog-instance'
+import { uuidv7 } from '../../uuidv7'
+import { parseFlagOverrides } from '../../extensions/flag-url-overrides'
+import { PostHogConfig } from '../../types'
+import { PostHog } from '../../posthog-core'
+import { hmacSha1 } from '../../utils/sha1'
+
+describe('FlagUrlOverrides', () => {
+    const indicatorText = () =>
+        document.querySelector('.ph-flag-overrides-host')?.shadowRoot?.querySelector('.ph-flag-overrides')?.textContent
+
+    const openUrl = (search: string) => window.history.replaceState({}, '', `/${search}`)
+
+    let instances: PostHog[] = []
+
+    const init = async (config: Partial<PostHogConfig>, token = uuidv7()) => {
+        const posthog = await createPosthogInstance(token, {
+            persistence: 'localStorage',
+            advanced_disable_decide: true,
+            capture_pageview: false,
+            ...config,
+        })
+        instances.push(posthog)
+        return posthog
+    }
+
+    beforeEach(() => {
+        jest.spyOn(window.console, 'log').mockImplementation()
+        localStorage.clear()
+    })
+
+    afterEach(() => {
+        // the overrides would otherwise keep a timer for their expiry running
+        instances.forEach((posthog) => posthog.flagUrlOverrides?.clear())
+        instances = []
+        openUrl('')
+        document.body.innerHTML = ''
+        jest.useRealTimers()
+    })
+
+    it('ignores the url unless enabled', async () => {
+        openUrl('?__posthog_flags=checkout-v2:test')
+
+        const posthog = await init({})
+
+        expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toBeUndefined()
+        expect(indicatorText()).toBeUndefined()
+    })
+
+    it('overrides flags from the url and shows that it does', async () => {
+        openUrl('?__posthog_flags=checkout-v2:test,beta:true,old-nav:false')
+
+        const posthog = await init({ feature_flag_url_overrides: true })
+
+        expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toEqual('test')
+        expect(posthog.getFeatureFlag('beta', { send_event: false })).toEqual(true)
+        expect(posthog.getFeatureFlag('old-nav', { send_event: false })).toEqual(false)
+        expect(indicatorText()).toEqual(
+            'Flags overridden by this link: checkout-v2 = test, beta = true, old-nav = falseClear'
+        )
+    })
+
+    it('removes the overrides from the url once applied', async () => {
+        openUrl('?utm_source=email&__posthog_flags=checkout-v2:test#pricing')
+
+        const posthog = await init({ feature_flag_url_overrides: true })
+
+        expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toEqual('test')
+        expect(window.location.search).toEqual('?utm_source=email')
+        expect(window.location.hash).toEqual('#pricing')
+    })
+
+    it('keeps the overrides on later pages until they expire', () => {
+        jest.useFakeTimers()
+        const token = uuidv7()
+        const config = {
+            persistence: 'localStorage' as const,
+            advanced_disable_decide: true,
+            capture_pageview: false,
+            feature_flag_url_overrides: { ttl_ms: 60000 },
+        }
+        openUrl('?__posthog_flags=checkout-v2:test')
+        defaultPostHog().init(token, config, uuidv7())
+
+        openUrl('')
+        document.body.innerHTML = ''
+        const nextPage = defaultPostHog().init(token, config, uuidv7())!
+        expect(nextPage.getFeatureFlag('checkout-v2', { send_event: false })).toEqual('test')
+        expect(indicatorText()).toContain('checkout-v2 = test')
+
+        jest.advanceTimersByTime(60000)
+        expect(nextPage.getFeatureFlag('checkout-v2', { send_event: false })).toBeUndefined()
+        expect(indicatorText()).toBeUndefined()
+    })
+
+    it('clears the overrides from the badge', async () => {
+        openUrl('?__posthog_flags=checkout-v2:test')
+        const posthog = await init({ feature_flag_url_overrides: true })
+
+        const badge = document.querySelector('.ph-flag-overrides-host')!.shadowRoot!
+        ;(badge.querySelector('button') as HTMLButtonElement).click()
+
+        expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toBeUndefined()
+        expect(indicatorText()).toBeUndefined()
+    })
+
+    it('keeps the overrides that were not set by the link', async () => {
+        openUrl('?__posthog_flags=checkout-v2:test')
+        const posthog = await init({ feature_flag_url_overrides: true })
+        posthog.featureFlags.overrideFeatureFlags({ flags: { ...posthog.featureFlags.getFlagVariants(), manual: 'a' } })
+
+        posthog.flagUrlOverrides!.clear()
+
+        expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toBeUndefined()
+        expect(posthog.getFeatureFlag('manual', { send_event: false })).toEqual('a')
+    })
+
+    it('keeps the overrides that were set before the link', async () => {
+        const posthog = await init({ feature_flag_url_overrides: true })
+        posthog.featureFlags.overrideFeatureFlags({ flags: { manual: 'a' } })
+        openUrl('?__posthog_flags=checkout-v2:test')
+        posthog.flagUrlOverrides!.startIfEnabled()
+
+        expect(posthog.getFeatureFlag('manual', { send_event: false })).toEqual('a')
+        posthog.flagUrlOverrides!.clear()
+
+        expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toBeUndefined()
+        expect(posthog.getFeatureFlag('manual', { send_event: false })).toEqual('a')
+    })
+
+    describe('with a secret', () => {
+        const flags = 'checkout-v2:test,beta:true'
+        const expiry = '4102444800'
+
+        it('applies links signed with the secret', async () => {
+            openUrl(
+                `?__posthog_flags=${flags}&__posthog_flags_exp=${expiry}&__posthog_flags_sig=${hmacSha1('secret', `${flags}|${expiry}`)}`
+            )
+
+            const posthog = await init({ feature_flag_url_overrides: { secret: 'secret' } })
+
+            expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toEqual('test')
+        })
+
+        it.each([
+            ['without a signature', `&__posthog_flags_exp=${expiry}`],
+            ['with a wrong signature', `&__posthog_flags_exp=${expiry}&__posthog_flags_sig=0000`],
+            ['without an expiry', `&__posthog_flags_sig=${hmacSha1('secret', flags)}`],
+            [
+                'with a changed expiry',
+                `&__posthog_flags_exp=4102444801&__posthog_flags_sig=${hmacSha1('secret', `${flags}|${expiry}`)}`,
+            ],
+        ])('ignores links %s', async (_, signature) => {
+            openUrl(`?__posthog_flags=${flags}${signature}`)
+
+            const posthog = await init({ feature_flag_url_overrides: { secret: 'secret' } })
+
+            expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toBeUndefined()
+            expect(mockLogger.error).toHaveBeenCalledWith(
+                "Ignoring __posthog_flags as __posthog_flags_sig doesn't match it and __posthog_flags_exp"
+            )
+        })
+
+        it('ignores expired links', async () => {
+            const expired = '1000000000'
+            openUrl(
+                `?__posthog_flags=${flags}&__posthog_flags_exp=${expired}&__posthog_flags_sig=${hmacSha1('secret', `${flags}|${expired}`)}`
+            )
+
+            const posthog = await init({ feature_flag_url_overrides: { secret: 'secret' } })
+
+            expect(posthog.getFeatureFlag('checkout-v2', { send_event: false })).toBeUndefined()
+            expect(mockLogger.error).toHaveBeenCalledWith('Ignoring __posthog_flags as the link expired')
+        })
+    })
+
+    describe('parseFlagOverrides', () => {
+        it.each([
+            ['checkout-v2:test', { 'checkout-v2': 'test' }],
+            ['beta, old-nav:false', { beta: true, 'old-nav': false }],
+            ['url:https://x', { url: 'https://x' }],
+            [',,', {}],
+        ])('parses %p', (value, expected) => {
+            expect(parseFlagOverrides(value)).toEqual(expected)
+        })
+    })
+
+    describe('hmacSha1', () => {
+        it.each([
+            ['secret', 'checkout-v2:test,beta:true', 'd585d44e449dfe8e51d8dfbc795c56d13113643b'],
+            ['k'.repeat(100), 'msg', 'a3f6e90d792b6ca5ed3bfc556a4aa73d62d7cae4'],
+        ])('signs with a %p key', (key, message, expected) => {
+            expect(hmacSha1(key, message)).toEqual(expected)
+        })
+    })
+})
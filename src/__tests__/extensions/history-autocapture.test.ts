@@ -0,0 +1,132 @@
+import '../helpers/mock-logger'
+
+import { createPosthogInstance } from '../helpers/posthog-instance'
+import { uuidv7 } from '../../uuidv7'
+import { PostHog } from '../../posthog-core'
+
+jest.useFakeTimers()
+
+describe('HistoryAutocapture', () => {
+    let posthog: PostHog
+    let beforeSendMock: jest.Mock
+
+    const capturedEvents = (eventName: string) =>
+        beforeSendMock.mock.calls.map(([event]) => event).filter((event) => event.event === eventName)
+    const capturedPageviews = () => capturedEvents('$pageview')
+
+    beforeEach(async () => {
+        window.history.replaceState({}, '', '/')
+        beforeSendMock = jest.fn().mockImplementation((e) => e)
+
+        posthog = await createPosthogInstance(uuidv7(), {
+            capture_pageview: 'history_change',
+            before_send: beforeSendMock,
+        })
+        // capture the initial pageview
+        jest.runOnlyPendingTimers()
+    })
+
+    afterEach(() => {
+        posthog.historyAutocapture?.stop()
+    })
+
+    it('captures the initial pageview', () => {
+        expect(capturedPageviews()).toHaveLength(1)
+    })
+
+    it('captures a pageview on pushState', () => {
+        window.history.pushState({}, '', '/pricing')
+
+        const pageviews = capturedPageviews()
+        expect(pageviews).toHaveLength(2)
+        expect(pageviews[1].properties).toMatchObject({
+            navigation_type: 'pushState',
+            $pathname: '/pricing',
+            $prev_pageview_pathname: '/',
+            $prev_pageview_id: pageviews[0].uuid,
+        })
+    })
+
+    it('captures a pageview on replaceState to a new path', () => {
+        window.history.replaceState({}, '', '/about')
+
+        expect(capturedPageviews()[1].properties.navigation_type).toEqual('replaceState')
+    })
+
+    it('captures a pageview when only the query string changes', () => {
+        window.history.replaceState({}, '', '/?filter=1')
+        window.history.pushState({}, '', '/?filter=2')
+
+        expect(capturedPageviews().map((p) => p.properties.$current_url)).toEqual([
+            'http://localhost/',
+            'http://localhost/?filter=1',
+            'http://localhost/?filter=2',
+        ])
+    })
+
+    it('captures a pageleave for the page that was left before the pageview', () => {
+        window.history.pushState({}, '', '/pricing')
+
+        const events = beforeSendMock.mock.calls.map(([event]) => event)
+        expect(events.map((e) => e.event)).toEqual(['$pageview', '$pageleave', '$pageview'])
+        expect(events[1].properties).toMatchObject({
+            navigation_type: 'pushState',
+            $current_url: 'http://localhost/',
+            $pathname: '/',
+            $prev_pageview_id: events[0].uuid,
+        })
+        expect(events[2].properties.$current_url).toEqual('http://localhost/pricing')
+    })
+
+    it('does not capture a pageleave unless capture_pageleave applies', () => {
+        posthog.set_config({ capture_pageleave: false })
+
+        window.history.pushState({}, '', '/pricing')
+
+        expect(capturedEvents('$pageleave')).toHaveLength(0)
+        expect(capturedPageviews()).toHaveLength(2)
+    })
+
+    it('does not capture a pageview when navigating to the same url', () => {
+        window.history.pushState({}, '', '/pricing')
+        window.history.pushState({}, '', '/pricing')
+
+        expect(capturedPageviews()).toHaveLength(2)
+    })
+
+    it('captures a pageview on popstate', () => {
+        window.history.pushState({}, '', '/pricing')
+        // simulate the browser going back, which changes the url without calling the (patched) History API
+        History.prototype.replaceState.call(window.history, {}, '', '/')
+        window.dispatchEvent(new PopStateEvent('popstate'))
+
+        const pageviews = capturedPageviews()
+        expect(pageviews.map((p) => p.properties.navigation_type)).toEqual([undefined, 'pushState', 'popstate'])
+    })
+
+    it('captures a pageview on hashchange', () => {
+        window.location.hash = '#/settings'
+        window.dispatchEvent(new HashChangeEvent('hashchange'))
+
+        const pageviews = capturedPageviews()
+        expect(pageviews).toHaveLength(2)
+        expect(pageviews[1].properties.navigation_type).toEqual('hashchange')
+    })
+
+    it('stops and restores the History API when capture_pageview is changed', () => {
+        posthog.set_config({ capture_pageview: true })
+
+        expect(posthog.historyAutocapture?.isStarted).toBe(false)
+        expect((window.history.pushState as any).__posthog_wrapped__).toBeUndefined()
+
+        window.history.pushState({}, '', '/pricing')
+        expect(capturedPageviews()).toHaveLength(1)
+    })
+
+    it('is not started when capture_pageview is true', async () => {
+        posthog.historyAutocapture?.stop()
+        const other = await createPosthogInstance(uuidv7(), { capture_pageview: true })
+
+        expect(other.historyAutocapture?.isStarted).toBe(false)
+    })
+})
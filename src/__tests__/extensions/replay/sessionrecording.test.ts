@@ -262,6 +262,9 @@ describe('SessionRecording', () => {
                 isOptedOut(): boolean {
                     return false
                 },
+                isGranted(): boolean {
+                    return true
+                },
             } as unknown as ConsentManager,
             register_for_session() {},
             _internalEventEmitter: simpleEventEmitter,
@@ -1,10 +1,15 @@
 import {
     canActivateRepeatedly,
+    getCanonicalResponse,
     getFontFamily,
+    getSurveyLocale,
+    getSurveyTranslation,
     hasEvents,
     hasWaitPeriodPassed,
+    localizeQuestion,
 } from '../../extensions/surveys/surveys-utils'
-import { Survey, SurveySchedule, SurveyType } from '../../posthog-surveys-types'
+import { PostHog } from '../../posthog-core'
+import { Survey, SurveyQuestion, SurveyQuestionType, SurveySchedule, SurveyType } from '../../posthog-surveys-types'
 
 describe('hasWaitPeriodPassed', () => {
     let originalDate: DateConstructor
@@ -202,3 +207,112 @@ describe('getFontFamily', () => {
         expect(getFontFamily('inherit')).toBe('inherit')
     })
 })
+
+describe('localization', () => {
+    const survey = {
+        default_locale: 'en',
+        translations: {
+            de: { questions: { q1: { question: 'Welche Farbe?', choices: ['Rot', 'Blau', 'Andere'] } } },
+            'pt-BR': {},
+        },
+    } as Pick<Survey, 'default_locale' | 'translations'>
+
+    const question = {
+        id: 'q1',
+        type: SurveyQuestionType.MultipleChoice,
+        question: 'Which color?',
+        choices: ['Red', 'Blue', 'Other'],
+        hasOpenChoice: true,
+    } as SurveyQuestion
+
+    const posthogWith = (survey_locale?: string, personLocale?: string) =>
+        ({
+            config: { survey_locale },
+            get_property: () => (personLocale ? { locale: personLocale } : undefined),
+        }) as unknown as PostHog
+
+    const setBrowserLanguages = (languages: string[]) =>
+        Object.defineProperty(navigator, 'languages', { value: languages, configurable: true })
+
+    beforeEach(() => {
+        setBrowserLanguages(['en-US'])
+    })
+
+    describe('getSurveyLocale', () => {
+        it('prefers the configured locale', () => {
+            expect(getSurveyLocale(survey, posthogWith('de', 'pt-BR'))).toEqual('de')
+        })
+
+        it('uses the locale person property', () => {
+            expect(getSurveyLocale(survey, posthogWith(undefined, 'pt_br'))).toEqual('pt-BR')
+        })
+
+        it('uses the first browser language with a translation', () => {
+            setBrowserLanguages(['fr-FR', 'de-AT', 'pt-BR'])
+
+            expect(getSurveyLocale(survey, posthogWith())).toEqual('de')
+        })
+
+        it('shows the survey as written when the default locale is preferred over a translation', () => {
+            setBrowserLanguages(['en', 'de'])
+
+            const locale = getSurveyLocale(survey, posthogWith())
+
+            expect(locale).toEqual('en')
+            expect(getSurveyTranslation(survey, locale)).toBeUndefined()
+        })
+
+        it('falls back to the default locale', () => {
+            expect(getSurveyLocale(survey, posthogWith('fr'))).toEqual('en')
+            expect(getSurveyLocale({ default_locale: null, translations: null })).toBeUndefined()
+        })
+    })
+
+    describe('localizeQuestion', () => {
+        it('translates the question', () => {
+            expect(localizeQuestion(question, survey.translations!.de)).toEqual({
+                ...question,
+                question: 'Welche Farbe?',
+                choices: ['Rot', 'Blau', 'Andere'],
+            })
+        })
+
+        it('keeps the original choices when the translation misses some', () => {
+            const localized = localizeQuestion(question, {
+                questions: { q1: { question: 'Welche Farbe?', choices: ['Rot'] } },
+            })
+
+            expect(localized).toEqual({ ...question, question: 'Welche Farbe?' })
+        })
+
+        it('leaves questions without a translation alone', () => {
+            expect(localizeQuestion(question, undefined)).toBe(question)
+        })
+    })
+
+    describe('getCanonicalResponse', () => {
+        it('records choices in the original language', () => {
+            const localized = localizeQuestion(question, survey.translations!.de)
+
+            expect(getCanonicalResponse(question, localized, ['Blau', 'Lila'])).toEqual(['Blue', 'Lila'])
+        })
+
+        it('records matrix answers in the original language', () => {
+            const matrix = {
+                id: 'q2',
+                type: SurveyQuestionType.Matrix,
+                question: 'How do you feel about',
+                rows: ['Speed', 'Price'],
+                columns: ['Bad', 'Good'],
+            } as SurveyQuestion
+            const localized = localizeQuestion(matrix, {
+                questions: { q2: { rows: ['Tempo', 'Preis'], columns: ['Schlecht', 'Gut'] } },
+            })
+
+            expect(getCanonicalResponse(matrix, localized, { Tempo: 'Gut', Preis: 'Schlecht' })).toEqual({
+                Speed: 'Good',
+                Price: 'Bad',
+            })
+        })
+    })
+})
@@ -425,6 +425,25 @@ describe('SurveyManager', () => {
         expect(handleWidgetSelectorMock).toHaveBeenNthCalledWith(1, mockSurvey)
     })
 
+    test('callSurveysAndEvaluateDisplayLogic should wait for the engagement conditions of a popover survey', () => {
+        jest.useFakeTimers()
+        surveyManager = new SurveyManager(mockPostHog)
+        const survey = { ...mockSurveys[0], conditions: { minTimeOnPageSeconds: 5, events: null, actions: null } }
+        mockPostHog.getActiveMatchingSurveys = jest.fn((callback) => callback([survey]))
+        const handlePopoverSurveyMock = jest
+            .spyOn(surveyManager as any, 'handlePopoverSurvey')
+            .mockImplementation(() => {})
+        jest.spyOn(surveyManager as any, 'canShowNextEventBasedSurvey').mockReturnValue(true)
+
+        surveyManager.callSurveysAndEvaluateDisplayLogic()
+        expect(handlePopoverSurveyMock).not.toHaveBeenCalled()
+
+        jest.advanceTimersByTime(5000)
+        surveyManager.callSurveysAndEvaluateDisplayLogic()
+        expect(handlePopoverSurveyMock).toHaveBeenCalledWith(survey)
+        jest.useRealTimers()
+    })
+
     test('callSurveysAndEvaluateDisplayLogic should not call surveys in focus', () => {
         mockPostHog.getActiveMatchingSurveys = jest.fn((callback) => callback(mockSurveys))
 
@@ -0,0 +1,144 @@
+import { EngagementTracker } from '../../../extensions/surveys/engagement-tracker'
+import { PostHog } from '../../../posthog-core'
+import { Survey } from '../../../posthog-surveys-types'
+import { CaptureResult } from '../../../types'
+
+describe('EngagementTracker', () => {
+    let captureHook: (eventName: string, eventPayload?: CaptureResult) => void
+    let scroll: { y: number; height: number }
+    let tracker: EngagementTracker
+
+    const surveyWith = (conditions: Partial<NonNullable<Survey['conditions']>>) =>
+        ({ id: 'survey-1', conditions: { events: null, actions: null, ...conditions } }) as Pick<
+            Survey,
+            'id' | 'conditions'
+        >
+
+    const showSurvey = (surveyId: string) =>
+        captureHook('survey shown', { properties: { $survey_id: surveyId } } as unknown as CaptureResult)
+
+    const setUserAgent = (userAgent: string) =>
+        Object.defineProperty(window.navigator, 'userAgent', { value: userAgent, configurable: true })
+
+    const mockPostHog = () =>
+        ({
+            scrollManager: {
+                getContext: () => undefined,
+                scrollElement: () => ({ scrollHeight: scroll.height, clientHeight: 0 }),
+                scrollY: () => scroll.y,
+            },
+            _addCaptureHook: (hook: typeof captureHook) => {
+                captureHook = hook
+            },
+        }) as unknown as PostHog
+
+    beforeEach(() => {
+        jest.useFakeTimers()
+        scroll = { y: 0, height: 1000 }
+        tracker = new EngagementTracker(mockPostHog())
+    })
+
+    afterEach(() => {
+        jest.useRealTimers()
+    })
+
+    it('has nothing to wait for without conditions', () => {
+        expect(tracker.meetsConditions({ id: 'survey-1', conditions: null })).toBe(true)
+        expect(tracker.meetsConditions(surveyWith({ url: '/pricing' }))).toBe(true)
+    })
+
+    it('waits for the time on page', () => {
+        const survey = surveyWith({ minTimeOnPageSeconds: 10 })
+
+        jest.advanceTimersByTime(9999)
+        expect(tracker.meetsConditions(survey)).toBe(false)
+        jest.advanceTimersByTime(1)
+        expect(tracker.meetsConditions(survey)).toBe(true)
+    })
+
+    it('restarts the time on page after navigating', () => {
+        const survey = surveyWith({ minTimeOnPageSeconds: 10 })
+        jest.advanceTimersByTime(10000)
+
+        window.history.pushState({}, '', '/next-page')
+
+        expect(tracker.meetsConditions(survey)).toBe(false)
+        jest.advanceTimersByTime(10000)
+        expect(tracker.meetsConditions(survey)).toBe(true)
+        window.history.pushState({}, '', '/')
+    })
+
+    it('waits for the scroll depth', () => {
+        const survey = surveyWith({ minScrollPercentage: 50 })
+
+        scroll.y = 400
+        expect(tracker.meetsConditions(survey)).toBe(false)
+        scroll.y = 500
+        expect(tracker.meetsConditions(survey)).toBe(true)
+    })
+
+    it('treats pages that cannot be scrolled as fully scrolled', () => {
+        scroll.height = 0
+
+        expect(tracker.meetsConditions(surveyWith({ minScrollPercentage: 100 }))).toBe(true)
+    })
+
+    it('waits for the cursor to leave the page', () => {
+        const survey = surveyWith({ exitIntent: true })
+
+        document.dispatchEvent(new MouseEvent('mouseout', { clientY: 200 }))
+        expect(tracker.meetsConditions(survey)).toBe(false)
+
+        document.dispatchEvent(new MouseEvent('mouseout', { clientY: 0 }))
+        expect(tracker.meetsConditions(survey)).toBe(true)
+    })
+
+    it('takes a fast scroll up on mobile as exit intent', () => {
+        const originalUserAgent = window.navigator.userAgent
+        setUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148')
+        const mobileTracker = new EngagementTracker(mockPostHog())
+        const survey = surveyWith({ exitIntent: true })
+
+        scroll.y = 2000
+        window.dispatchEvent(new Event('scroll'))
+        jest.advanceTimersByTime(100)
+        scroll.y = 1900
+        window.dispatchEvent(new Event('scroll'))
+        expect(mobileTracker.meetsConditions(survey)).toBe(false)
+
+        jest.advanceTimersByTime(100)
+        scroll.y = 1600
+        window.dispatchEvent(new Event('scroll'))
+        expect(mobileTracker.meetsConditions(survey)).toBe(true)
+        setUserAgent(originalUserAgent)
+    })
+
+    it('waits for the user to be idle', () => {
+        const survey = surveyWith({ minIdleSeconds: 30 })
+
+        jest.advanceTimersByTime(20000)
+        window.dispatchEvent(new Event('keydown'))
+        jest.advanceTimersByTime(20000)
+        expect(tracker.meetsConditions(survey)).toBe(false)
+
+        jest.advanceTimersByTime(10000)
+        expect(tracker.meetsConditions(survey)).toBe(true)
+    })
+
+    it('waits for new engagement after the survey was shown', () => {
+        const survey = surveyWith({ minTimeOnPageSeconds: 10, exitIntent: true })
+        jest.advanceTimersByTime(10000)
+        document.dispatchEvent(new MouseEvent('mouseout', { clientY: 0 }))
+        expect(tracker.meetsConditions(survey)).toBe(true)
+
+        jest.advanceTimersByTime(1000)
+        showSurvey('survey-1')
+        jest.advanceTimersByTime(10000)
+        expect(tracker.meetsConditions(survey)).toBe(false)
+
+        document.dispatchEvent(new MouseEvent('mouseout', { clientY: 0 }))
+        expect(tracker.meetsConditions(survey)).toBe(true)
+        // other surveys aren't affected
+        expect(tracker.meetsConditions({ ...survey, id: 'survey-2' })).toBe(true)
+    })
+})
@@ -0,0 +1,225 @@
+import { HeadlessSurvey } from '../../../extensions/surveys/headless-survey'
+import { PostHog } from '../../../posthog-core'
+import { Survey, SurveyQuestionBranchingType, SurveyQuestionType, SurveyType } from '../../../posthog-surveys-types'
+
+describe('HeadlessSurvey', () => {
+    let posthog: PostHog
+
+    const survey = {
+        id: 'survey-1',
+        name: 'Headless survey',
+        type: SurveyType.API,
+        questions: [
+            {
+                id: 'q1',
+                type: SurveyQuestionType.SingleChoice,
+                question: 'Would you recommend us?',
+                choices: ['Yes', 'No'],
+                branching: {
+                    type: SurveyQuestionBranchingType.ResponseBased,
+                    responseValues: { 0: SurveyQuestionBranchingType.End },
+                },
+            },
+            { id: 'q2', type: SurveyQuestionType.Open, question: 'What can we improve?' },
+            { id: 'q3', type: SurveyQuestionType.Open, question: 'Anything else?', optional: true },
+        ],
+    } as unknown as Survey
+
+    const captured = (eventName: string) =>
+        (posthog.capture as jest.Mock).mock.calls.filter(([name]) => name === eventName).map(([, props]) => props)
+
+    beforeEach(() => {
+        localStorage.clear()
+        posthog = {
+            config: {},
+            get_property: () => undefined,
+            capture: jest.fn(),
+            get_session_replay_url: jest.fn(),
+        } as unknown as PostHog
+    })
+
+    it('captures survey shown only once', () => {
+        const controller = new HeadlessSurvey(posthog, survey)
+
+        controller.show()
+        controller.show()
+
+        expect(captured('survey shown')).toEqual([expect.objectContaining({ $survey_id: 'survey-1' })])
+        expect(localStorage.getItem('lastSeenSurveyDate')).not.toBeNull()
+    })
+
+    it('steps through the questions and sends the responses once completed', () => {
+        const controller = new HeadlessSurvey(posthog, survey)
+
+        expect(controller.currentQuestion?.question).toEqual('Would you recommend us?')
+        expect(controller.submitAnswer('No')).toBe(true)
+        expect(controller.currentQuestionIndex).toEqual(1)
+        expect(controller.submitAnswer('Faster support')).toBe(true)
+        expect(captured('survey sent')).toEqual([])
+
+        expect(controller.submitAnswer(null)).toBe(true)
+
+        expect(controller.isCompleted).toBe(true)
+        expect(controller.currentQuestion).toBeNull()
+        expect(captured('survey sent')).toEqual([
+            expect.objectContaining({
+                $survey_id: 'survey-1',
+                $survey_response_q1: 'No',
+                $survey_response_q2: 'Faster support',
+                $survey_response_q3: null,
+                $survey_completed: true,
+                $survey_submission_id: expect.any(String),
+            }),
+        ])
+        expect(controller.canShow()).toBe(false)
+        expect(new HeadlessSurvey(posthog, survey).canShow()).toBe(false)
+    })
+
+    it('follows the branching of the survey', () => {
+        const controller = new HeadlessSurvey(posthog, survey)
+
+        controller.submitAnswer('Yes')
+
+        expect(controller.isCompleted).toBe(true)
+        expect(captured('survey sent')).toEqual([expect.objectContaining({ $survey_response_q1: 'Yes' })])
+    })
+
+    it('rejects empty answers to required questions', () => {
+        const controller = new HeadlessSurvey(posthog, survey)
+        controller.submitAnswer('No')
+
+        expect(controller.submitAnswer('  ')).toBe(false)
+        expect(controller.submitAnswer(null)).toBe(false)
+        expect(controller.currentQuestionIndex).toEqual(1)
+    })
+
+    it('sends partial responses with the same submission id', () => {
+        const controller = new HeadlessSurvey(posthog, { ...survey, enable_partial_responses: true })
+
+        controller.submitAnswer('No')
+        controller.submitAnswer('Faster support')
+        controller.submitAnswer('Thanks')
+
+        const events = captured('survey sent')
+        expect(events.map((props) => props.$survey_completed)).toEqual([false, false, true])
+        expect(new Set(events.map((props) => props.$survey_submission_id)).size).toEqual(1)
+        // the survey isn't marked as seen until it's completed
+        expect(events[0].$set).toBeUndefined()
+    })
+
+    it('captures survey dismissed and stops accepting answers', () => {
+        const controller = new HeadlessSurvey(posthog, survey)
+
+        controller.dismiss()
+        controller.dismiss()
+
+        expect(captured('survey dismissed')).toHaveLength(1)
+        expect(controller.isDismissed).toBe(true)
+        expect(controller.submitAnswer('No')).toBe(false)
+    })
+
+    it('notifies subscribers of changes until they unsubscribe', () => {
+        const controller = new HeadlessSurvey(posthog, survey)
+        const callback = jest.fn()
+        const unsubscribe = controller.onChange(callback)
+
+        controller.submitAnswer('No')
+        unsubscribe()
+        controller.submitAnswer('Faster support')
+
+        expect(callback).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the order of shuffled choices', () => {
+        const controller = new HeadlessSurvey(posthog, {
+            ...survey,
+            questions: [
+                {
+                    ...survey.questions[0],
+                    shuffleOptions: true,
+                    choices: ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'],
+                } as Survey['questions'][number],
+            ],
+        })
+        const question = controller.currentQuestion!
+
+        const choices = controller.getDisplayOrderChoices(question)
+
+        expect([...choices].sort()).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'])
+        expect(controller.getDisplayOrderChoices(question)).toBe(choices)
+        expect(controller.getDisplayOrderChoices(controller.questions[0])).toBe(choices)
+    })
+
+    describe('with a rating question', () => {
+        const ratingSurvey = {
+            ...survey,
+            questions: [
+                {
+                    id: 'q1',
+                    type: SurveyQuestionType.Rating,
+                    question: 'How likely are you to recommend us?',
+                    display: 'number',
+                    scale: 5,
+                    branching: {
+                        type: SurveyQuestionBranchingType.ResponseBased,
+                        responseValues: { positive: SurveyQuestionBranchingType.End },
+                    },
+                },
+                { id: 'q2', type: SurveyQuestionType.Open, question: 'What can we improve?' },
+                { id: 'q3', type: SurveyQuestionType.Open, question: 'Anything else?' },
+            ],
+        } as unknown as Survey
+
+        it.each([['5'], [4.5], [6]])('rejects the rating %p instead of throwing', (rating) => {
+            const controller = new HeadlessSurvey(posthog, ratingSurvey)
+
+            expect(controller.submitAnswer(rating)).toBe(false)
+            expect(controller.currentQuestionIndex).toEqual(0)
+            expect(controller.responses).toEqual({})
+        })
+
+        it('branches on the answered question when the questions are shuffled', () => {
+            // shuffling with a constant key would keep the order, which is then reversed: q3, q2, q1
+            const random = jest.spyOn(Math, 'random').mockReturnValue(0)
+            const controller = new HeadlessSurvey(posthog, {
+                ...ratingSurvey,
+                appearance: { shuffleQuestions: true },
+            })
+            random.mockRestore()
+
+            expect(controller.currentQuestion?.id).toEqual('q3')
+            expect(controller.submitAnswer('Nothing')).toBe(true)
+            expect(controller.currentQuestion?.id).toEqual('q2')
+            expect(controller.submitAnswer('Faster support')).toBe(true)
+            expect(controller.currentQuestion?.id).toEqual('q1')
+            expect(controller.submitAnswer(5)).toBe(true)
+
+            expect(controller.isCompleted).toBe(true)
+            expect(captured('survey sent')).toEqual([
+                expect.objectContaining({
+                    $survey_response_q1: 5,
+                    $survey_response_q2: 'Faster support',
+                    $survey_response_q3: 'Nothing',
+                }),
+            ])
+        })
+    })
+
+    it('localizes the questions and sends the responses in the default locale', () => {
+        posthog.config.survey_locale = 'de'
+        const controller = new HeadlessSurvey(posthog, {
+            ...survey,
+            translations: {
+                de: { questions: { q1: { question: 'Würden Sie uns empfehlen?', choices: ['Ja', 'Nein'] } } },
+            },
+        })
+
+        expect(controller.locale).toEqual('de')
+        expect(controller.currentQuestion?.question).toEqual('Würden Sie uns empfehlen?')
+        controller.submitAnswer('Ja')
+
+        expect(captured('survey sent')).toEqual([
+            expect.objectContaining({ $survey_response_q1: 'Yes', $survey_locale: 'de' }),
+        ])
+    })
+})
@@ -1,16 +1,25 @@
 import { fireEvent, render } from '@testing-library/preact'
-import { MultipleChoiceQuestion } from '../../../extensions/surveys/components/QuestionTypes'
-import { MultipleSurveyQuestion, SurveyQuestionType } from '../../../posthog-surveys-types'
+import {
+    MatrixQuestion,
+    MultipleChoiceQuestion,
+    RankingQuestion,
+} from '../../../extensions/surveys/components/QuestionTypes'
+import {
+    MatrixSurveyQuestion,
+    MultipleSurveyQuestion,
+    RankingSurveyQuestion,
+    SurveyQuestionType,
+} from '../../../posthog-surveys-types'
 
-describe('MultipleChoiceQuestion', () => {
-    const mockAppearance = {
-        backgroundColor: '#fff',
-        submitButtonText: 'Submit',
-        ratingButtonColor: '#000',
-        ratingButtonActiveColor: '#fff',
-        borderColor: '#000',
-    }
+const mockAppearance = {
+    backgroundColor: '#fff',
+    submitButtonText: 'Submit',
+    ratingButtonColor: '#000',
+    ratingButtonActiveColor: '#fff',
+    borderColor: '#000',
+}
 
+describe('MultipleChoiceQuestion', () => {
     const baseProps = {
         forceDisableHtml: false,
         appearance: mockAppearance,
@@ -143,3 +152,122 @@ describe('MultipleChoiceQuestion', () => {
         })
     })
 })
+
+describe('RankingQuestion', () => {
+    const rankingQuestion: RankingSurveyQuestion = {
+        type: SurveyQuestionType.Ranking,
+        question: 'Rank these features',
+        choices: ['Speed', 'Price', 'Support'],
+    }
+
+    let onSubmit: jest.Mock
+
+    const renderRanking = () =>
+        render(
+            <RankingQuestion
+                forceDisableHtml={false}
+                appearance={mockAppearance}
+                displayQuestionIndex={0}
+                onSubmit={onSubmit}
+                onPreviewSubmit={jest.fn()}
+                question={rankingQuestion}
+            />
+        )
+
+    beforeEach(() => {
+        onSubmit = jest.fn()
+    })
+
+    it('submits the choices in their original order when left untouched', () => {
+        const { getByText } = renderRanking()
+
+        fireEvent.click(getByText('Submit'))
+
+        expect(onSubmit).toHaveBeenCalledWith(['Speed', 'Price', 'Support'])
+    })
+
+    it('reorders the choices with the buttons', () => {
+        const { getByLabelText, getByText } = renderRanking()
+
+        fireEvent.click(getByLabelText('Move Support up'))
+        fireEvent.click(getByLabelText('Move Speed down'))
+        fireEvent.click(getByText('Submit'))
+
+        expect(onSubmit).toHaveBeenCalledWith(['Support', 'Speed', 'Price'])
+    })
+
+    it('reorders the choices with the keyboard', () => {
+        const { getByLabelText, getByText } = renderRanking()
+
+        fireEvent.keyDown(getByLabelText('Price, ranked 2 of 3'), { key: 'ArrowUp' })
+
+        expect(getByLabelText('Price, ranked 1 of 3')).toBeTruthy()
+        fireEvent.click(getByText('Submit'))
+        expect(onSubmit).toHaveBeenCalledWith(['Price', 'Speed', 'Support'])
+    })
+
+    it('reorders the choices by dragging', () => {
+        const { getByLabelText, getByText } = renderRanking()
+
+        fireEvent.dragStart(getByLabelText('Speed, ranked 1 of 3'))
+        fireEvent.dragOver(getByLabelText('Support, ranked 3 of 3'))
+        fireEvent.dragEnd(getByLabelText('Speed, ranked 3 of 3'))
+        fireEvent.click(getByText('Submit'))
+
+        expect(onSubmit).toHaveBeenCalledWith(['Price', 'Support', 'Speed'])
+    })
+})
+
+describe('MatrixQuestion', () => {
+    const matrixQuestion: MatrixSurveyQuestion = {
+        type: SurveyQuestionType.Matrix,
+        question: 'How do you feel about',
+        rows: ['Speed', 'Price'],
+        columns: ['Bad', 'OK', 'Good'],
+    }
+
+    let onSubmit: jest.Mock
+
+    const renderMatrix = (question: MatrixSurveyQuestion = matrixQuestion) =>
+        render(
+            <MatrixQuestion
+                forceDisableHtml={false}
+                appearance={mockAppearance}
+                displayQuestionIndex={0}
+                onSubmit={onSubmit}
+                onPreviewSubmit={jest.fn()}
+                question={question}
+            />
+        )
+
+    beforeEach(() => {
+        onSubmit = jest.fn()
+    })
+
+    it('submits the answer of each row', () => {
+        const { getByLabelText, getByText } = renderMatrix()
+
+        fireEvent.click(getByLabelText('Speed: Good'))
+        fireEvent.click(getByLabelText('Price: Bad'))
+        fireEvent.click(getByLabelText('Price: OK'))
+        fireEvent.click(getByText('Submit'))
+
+        expect(onSubmit).toHaveBeenCalledWith({ Speed: 'Good', Price: 'OK' })
+    })
+
+    it('can only be submitted once every row is answered', () => {
+        const { getByLabelText, getByText } = renderMatrix()
+
+        fireEvent.click(getByLabelText('Speed: Good'))
+
+        expect((getByText('Submit') as HTMLButtonElement).disabled).toBe(true)
+    })
+
+    it('can be skipped when optional', () => {
+        const { getByText } = renderMatrix({ ...matrixQuestion, optional: true })
+
+        fireEvent.click(getByText('Submit'))
+
+        expect(onSubmit).toHaveBeenCalledWith(null)
+    })
+})
@@ -84,4 +84,219 @@ describe('SurveyPopup', () => {
         fireEvent.click(closeButton)
         expect(mockOnCloseConfirmationMessage).toHaveBeenCalledTimes(1)
     })
+
+    test('shows the survey in the chosen locale and records responses in the original language', () => {
+        const posthog = {
+            config: { survey_locale: 'de' },
+            get_property: () => undefined,
+            capture: jest.fn(),
+        } as any
+        const localizedSurvey: Survey = {
+            ...mockSurvey,
+            questions: [
+                {
+                    type: SurveyQuestionType.SingleChoice,
+                    question: 'Which color?',
+                    choices: ['Red', 'Blue'],
+                    id: 'q1',
+                },
+            ],
+            default_locale: 'en',
+            translations: {
+                de: {
+                    appearance: { thankYouMessageHeader: 'Danke!' },
+                    questions: { q1: { question: 'Welche Farbe?', buttonText: 'Absenden', choices: ['Rot', 'Blau'] } },
+                },
+            },
+        }
+
+        render(<SurveyPopup survey={localizedSurvey} posthog={posthog} removeSurveyFromFocus={jest.fn()} />)
+
+        expect(screen.getByText('Welche Farbe?')).toBeInTheDocument()
+        fireEvent.click(screen.getByLabelText('Blau'))
+        fireEvent.click(screen.getByText('Absenden'))
+
+        expect(posthog.capture).toHaveBeenCalledWith(
+            'survey shown',
+            expect.objectContaining({ $survey_id: 'test-survey', $survey_locale: 'de' })
+        )
+        expect(posthog.capture).toHaveBeenCalledWith(
+            'survey sent',
+            expect.objectContaining({ $survey_locale: 'de', $survey_response_q1: 'Blue' })
+        )
+        expect(screen.getByText('Danke!')).toBeInTheDocument()
+    })
+
+    describe('partial responses', () => {
+        const multiQuestionSurvey: Survey = {
+            ...mockSurvey,
+            questions: [
+                { type: SurveyQuestionType.Open, question: 'First question', id: 'q1' },
+                { type: SurveyQuestionType.Open, question: 'Second question', id: 'q2' },
+            ],
+            enable_partial_responses: true,
+        }
+
+        let posthog: any
+
+        const renderSurvey = () =>
+            render(<SurveyPopup survey={multiQuestionSurvey} posthog={posthog} removeSurveyFromFocus={jest.fn()} />)
+
+        const answer = (text: string) => {
+            fireEvent.input(screen.getByRole('textbox'), { target: { value: text } })
+            fireEvent.click(screen.getByText('Submit'))
+        }
+
+        const surveySentCalls = () =>
+            posthog.capture.mock.calls
+                .filter(([event]: [string]) => event === 'survey sent')
+                .map(([, props]: any) => props)
+
+        beforeEach(() => {
+            posthog = { config: {}, get_property: () => undefined, capture: jest.fn() }
+        })
+
+        test('sends each answer with the same submission id', () => {
+            renderSurvey()
+
+            answer('one')
+            answer('two')
+
+            const [partial, completed] = surveySentCalls()
+            expect(partial).toEqual(expect.objectContaining({ $survey_completed: false, $survey_response_q1: 'one' }))
+            expect(partial.$set).toBeUndefined()
+            expect(completed).toEqual(
+                expect.objectContaining({
+                    $survey_completed: true,
+                    $survey_submission_id: partial.$survey_submission_id,
+                    $survey_response_q1: 'one',
+                    $survey_response_q2: 'two',
+                })
+            )
+            expect(localStorage.getItem('seenSurvey_test-survey')).toEqual('true')
+            expect(localStorage.getItem('inProgressSurvey_test-survey')).toBeNull()
+        })
+
+        test('only sends completed responses unless enabled for the survey', () => {
+            render(
+                <SurveyPopup
+                    survey={{ ...multiQuestionSurvey, enable_partial_responses: false }}
+                    posthog={posthog}
+                    removeSurveyFromFocus={jest.fn()}
+                />
+            )
+
+            answer('one')
+
+            expect(surveySentCalls()).toHaveLength(0)
+            expect(JSON.parse(localStorage.getItem('inProgressSurvey_test-survey')!)).toEqual({
+                submissionId: expect.any(String),
+                responses: { $survey_response_q1: 'one' },
+                currentQuestionId: 'q2',
+            })
+        })
+
+        test('resumes where the user left off', () => {
+            localStorage.setItem(
+                'inProgressSurvey_test-survey',
+                JSON.stringify({
+                    submissionId: 'submission-1',
+                    responses: { $survey_response_q1: 'one' },
+                    currentQuestionId: 'q2',
+                })
+            )
+            renderSurvey()
+
+            fireEvent.click(screen.getByText('Resume'))
+            expect(screen.getByText('Second question')).toBeInTheDocument()
+            answer('two')
+
+            expect(surveySentCalls()[0]).toEqual(
+                expect.objectContaining({
+                    $survey_completed: true,
+                    $survey_submission_id: 'submission-1',
+                    $survey_response_q1: 'one',
+                    $survey_response_q2: 'two',
+                })
+            )
+        })
+
+        test('starts over with a new submission', () => {
+            localStorage.setItem(
+                'inProgressSurvey_test-survey',
+                JSON.stringify({
+                    submissionId: 'submission-1',
+                    responses: { $survey_response_q1: 'one' },
+                    currentQuestionId: 'q2',
+                })
+            )
+            renderSurvey()
+
+            fireEvent.click(screen.getByText('Start over'))
+            expect(screen.getByText('First question')).toBeInTheDocument()
+            answer('uno')
+
+            expect(surveySentCalls()[0].$survey_submission_id).not.toEqual('submission-1')
+        })
+
+        test('resumes at the same question when the questions are shuffled', () => {
+            localStorage.setItem(
+                'inProgressSurvey_test-survey',
+                JSON.stringify({
+                    submissionId: 'submission-1',
+                    responses: { $survey_response_q1: 'one', $survey_response_q2: 'two' },
+                    currentQuestionId: 'q3',
+                })
+            )
+            render(
+                <SurveyPopup
+                    survey={{
+                        ...multiQuestionSurvey,
+                        appearance: { ...multiQuestionSurvey.appearance, shuffleQuestions: true },
+                        questions: [
+                            ...multiQuestionSurvey.questions,
+                            { type: SurveyQuestionType.Open, question: 'Third question', id: 'q3' },
+                        ],
+                    }}
+                    posthog={posthog}
+                    removeSurveyFromFocus={jest.fn()}
+                />
+            )
+
+            fireEvent.click(screen.getByText('Resume'))
+
+            expect(screen.getByText('Third question')).toBeInTheDocument()
+        })
+
+        test('translates the resume prompt', () => {
+            localStorage.setItem(
+                'inProgressSurvey_test-survey',
+                JSON.stringify({ submissionId: 'submission-1', responses: {}, currentQuestionId: 'q2' })
+            )
+            posthog.config.survey_locale = 'de'
+            render(
+                <SurveyPopup
+                    survey={{
+                        ...multiQuestionSurvey,
+                        translations: {
+                            de: {
+                                appearance: {
+                                    resumePromptText: 'Dort weitermachen, wo Sie aufgehört haben?',
+                                    resumeButtonText: 'Fortsetzen',
+                                    startOverButtonText: 'Neu beginnen',
+                                },
+                            },
+                        },
+                    }}
+                    posthog={posthog}
+                    removeSurveyFromFocus={jest.fn()}
+                />
+            )
+
+            expect(screen.getByText('Dort weitermachen, wo Sie aufgehört haben?')).toBeInTheDocument()
+            expect(screen.getByText('Neu beginnen')).toBeInTheDocument()
+            fireEvent.click(screen.getByText('Fortsetzen'))
+            expect(screen.getByText('Second question')).toBeInTheDocument()
+        })
+    })
 })
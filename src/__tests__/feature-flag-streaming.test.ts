@@ -0,0 +1,264 @@
+import './helpers/mock-logger'
+
+import { PostHogFeatureFlags } from '../posthog-featureflags'
+import { PostHogPersistence } from '../posthog-persistence'
+import { RequestRouter } from '../utils/request-router'
+import { PostHogConfig } from '../types'
+import { assignableWindow } from '../utils/globals'
+import { createPosthogInstance } from './helpers/posthog-instance'
+import { uuidv7 } from '../uuidv7'
+
+class MockEventSource {
+    static instances: MockEventSource[] = []
+    onopen?: () => void
+    onmessage?: (message: { data: string }) => void
+    onerror?: () => void
+    closed = false
+
+    constructor(public url: string) {
+        MockEventSource.instances.push(this)
+    }
+
+    close() {
+        this.closed = true
+    }
+}
+
+describe('feature flag streaming', () => {
+    let instance: any
+    let featureFlags: PostHogFeatureFlags
+    let distinctId: string
+    let optedOut: boolean
+
+    const latestEventSource = () => MockEventSource.instances[MockEventSource.instances.length - 1]
+
+    const setVisibility = (visibilityState: DocumentVisibilityState) => {
+        Object.defineProperty(document, 'visibilityState', { value: visibilityState, configurable: true })
+        document.dispatchEvent(new Event('visibilitychange'))
+    }
+
+    const start = (
+        feature_flag_streaming: PostHogConfig['feature_flag_streaming'],
+        extraConfig: Partial<PostHogConfig> = {}
+    ) => {
+        const config = {
+            token: 'testtoken',
+            persistence: 'memory',
+            api_host: 'https://us.i.posthog.com',
+            feature_flag_streaming,
+            ...extraConfig,
+        } as PostHogConfig
+        instance = {
+            config,
+            get_distinct_id: () => distinctId,
+            getGroups: () => ({}),
+            persistence: new PostHogPersistence(config),
+            requestRouter: new RequestRouter({ config } as any),
+            get_property: (key: string) => instance.persistence.props[key],
+            _send_request: jest.fn(),
+            _onRemoteConfig: jest.fn(),
+            capture: jest.fn(),
+            consent: { isOptedOut: () => optedOut },
+        }
+        featureFlags = new PostHogFeatureFlags(instance)
+        instance.reloadFeatureFlags = () => featureFlags.reloadFeatureFlags()
+        featureFlags.decide()
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers()
+        distinctId = 'user-1'
+        optedOut = false
+        MockEventSource.instances = []
+        assignableWindow.EventSource = MockEventSource as any
+        setVisibility('visible')
+    })
+
+    afterEach(() => {
+        featureFlags?.stopBackgroundRefresh()
+        delete assignableWindow.EventSource
+        jest.useRealTimers()
+    })
+
+    it('does not connect unless enabled', () => {
+        start(undefined)
+
+        expect(MockEventSource.instances).toHaveLength(0)
+    })
+
+    it('connects for the current user', () => {
+        start(true)
+
+        expect(latestEventSource().url).toEqual(
+            'https://us.i.posthog.com/flags/stream/?token=testtoken&distinct_id=user-1'
+        )
+    })
+
+    it('connects to the configured url', () => {
+        start({ url: 'http://localhost:8010/flags/stream/' })
+
+        expect(latestEventSource().url).toEqual(
+            'http://localhost:8010/flags/stream/?token=testtoken&distinct_id=user-1'
+        )
+    })
+
+    it('updates the flags that changed', () => {
+        start(true)
+        featureFlags.receivedFeatureFlags({ featureFlags: { 'kill-switch': true, other: 'variant' } })
+        const callback = jest.fn()
+        featureFlags.onFeatureFlag('kill-switch', callback)
+
+        latestEventSource().onmessage!({
+            data: JSON.stringify({
+                flags: {
+                    'kill-switch': {
+                        key: 'kill-switch',
+                        enabled: false,
+                        variant: undefined,
+                        reason: undefined,
+                        metadata: undefined,
+                    },
+                },
+            }),
+        })
+
+        expect(featureFlags.getFlagVariants()).toEqual({ 'kill-switch': false, other: 'variant' })
+        expect(callback).toHaveBeenCalledWith(false, true, expect.objectContaining({ key: 'kill-switch' }))
+    })
+
+    it('reconnects with a growing delay after errors', () => {
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0.5)
+        start(true)
+
+        latestEventSource().onerror!()
+        expect(latestEventSource().closed).toBe(true)
+        jest.advanceTimersByTime(2999)
+        expect(MockEventSource.instances).toHaveLength(1)
+        jest.advanceTimersByTime(1)
+        expect(MockEventSource.instances).toHaveLength(2)
+
+        latestEventSource().onerror!()
+        jest.advanceTimersByTime(5999)
+        expect(MockEventSource.instances).toHaveLength(2)
+        jest.advanceTimersByTime(1)
+        expect(MockEventSource.instances).toHaveLength(3)
+
+        // the delay starts over once connected
+        latestEventSource().onopen!()
+        latestEventSource().onerror!()
+        jest.advanceTimersByTime(3000)
+        expect(MockEventSource.instances).toHaveLength(4)
+
+        random.mockRestore()
+    })
+
+    it('disconnects while the page is hidden and catches up when it is visible', () => {
+        start(true)
+        const reload = jest.spyOn(featureFlags, 'reloadFeatureFlags')
+
+        setVisibility('hidden')
+        expect(latestEventSource().closed).toBe(true)
+
+        setVisibility('visible')
+        expect(MockEventSource.instances).toHaveLength(2)
+        expect(latestEventSource().closed).toBe(false)
+        expect(reload).toHaveBeenCalledTimes(1)
+    })
+
+    it('reconnects when the user changes', () => {
+        start(true)
+
+        distinctId = 'user-2'
+        featureFlags.reloadFeatureFlags()
+
+        expect(MockEventSource.instances[0].closed).toBe(true)
+        expect(latestEventSource().url).toContain('distinct_id=user-2')
+    })
+
+    it('polls when the browser does not support Server-Sent Events', () => {
+        delete assignableWindow.EventSource
+        start(true)
+        const reload = jest.spyOn(featureFlags, 'reloadFeatureFlags')
+
+        jest.advanceTimersByTime(60000)
+        expect(reload).toHaveBeenCalledTimes(1)
+
+        setVisibility('hidden')
+        jest.advanceTimersByTime(30000)
+        expect(reload).toHaveBeenCalledTimes(1)
+    })
+
+    it('polls at feature_flag_poll_interval_ms instead when the stream never connects', () => {
+        start(true, { feature_flag_poll_interval_ms: 10000 })
+        const reload = jest.spyOn(featureFlags, 'reloadFeatureFlags')
+
+        for (let i = 0; i < 5; i++) {
+            latestEventSource().onerror!()
+            jest.advanceTimersByTime(60000)
+        }
+
+        expect(MockEventSource.instances).toHaveLength(5)
+        reload.mockClear()
+        // a single poll rather than one for the stream's fallback and another for feature_flag_poll_interval_ms
+        jest.advanceTimersByTime(10000)
+        expect(reload).toHaveBeenCalledTimes(1)
+        expect(MockEventSource.instances).toHaveLength(5)
+    })
+
+    it('polls every minute when the stream never connects', () => {
+        start(true)
+        const reload = jest.spyOn(featureFlags, 'reloadFeatureFlags')
+
+        for (let i = 0; i < 5; i++) {
+            latestEventSource().onerror!()
+            jest.advanceTimersByTime(60000)
+        }
+
+        reload.mockClear()
+        jest.advanceTimersByTime(60000)
+        expect(reload).toHaveBeenCalledTimes(1)
+    })
+
+    it('stops when opted out or when feature flags are disabled', () => {
+        start(true)
+
+        optedOut = true
+        featureFlags.startBackgroundRefreshIfEnabledOrStop()
+        expect(latestEventSource().closed).toBe(true)
+
+        optedOut = false
+        featureFlags.startBackgroundRefreshIfEnabledOrStop()
+        expect(MockEventSource.instances).toHaveLength(2)
+
+        instance.config.advanced_disable_feature_flags = true
+        featureFlags.startBackgroundRefreshIfEnabledOrStop()
+        expect(latestEventSource().closed).toBe(true)
+        // it doesn't come back when the page is visible again
+        setVisibility('visible')
+        expect(MockEventSource.instances).toHaveLength(2)
+    })
+
+    describe('posthog', () => {
+        beforeEach(() => {
+            jest.useRealTimers()
+        })
+
+        it('stops streaming on opt out and reconnects for the new user after reset', async () => {
+            const posthog = await createPosthogInstance(uuidv7(), { feature_flag_streaming: true })
+            featureFlags = posthog.featureFlags
+            expect(latestEventSource().closed).toBe(false)
+
+            posthog.opt_out_capturing()
+            expect(latestEventSource().closed).toBe(true)
+
+            posthog.opt_in_capturing({ captureEventName: false })
+            expect(latestEventSource().closed).toBe(false)
+
+            const connection = latestEventSource()
+            posthog.reset()
+            expect(connection.closed).toBe(true)
+            expect(latestEventSource().url).toContain(`distinct_id=${encodeURIComponent(posthog.get_distinct_id())}`)
+            expect(latestEventSource().closed).toBe(false)
+        })
+    })
+})
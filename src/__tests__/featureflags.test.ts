@@ -3,7 +3,8 @@
 import { filterActiveFeatureFlags, parseFeatureFlagDecideResponse, PostHogFeatureFlags } from '../posthog-featureflags'
 import { PostHogPersistence } from '../posthog-persistence'
 import { RequestRouter } from '../utils/request-router'
-import { PostHogConfig } from '../types'
+import { assignableWindow } from '../utils/globals'
+import { FeatureFlagKey, PostHogConfig, RegisteredFeatureFlagPayload, RegisteredFeatureFlagValue } from '../types'
 
 jest.useFakeTimers()
 jest.spyOn(global, 'setTimeout')
@@ -40,6 +41,7 @@ describe('featureflags', () => {
             ),
             _onRemoteConfig: jest.fn(),
             reloadFeatureFlags: () => featureFlags.reloadFeatureFlags(),
+            consent: { isOptedOut: () => false },
         }
 
         featureFlags = new PostHogFeatureFlags(instance)
@@ -828,6 +830,92 @@ describe('featureflags', () => {
         })
     })
 
+    describe('onFeatureFlag', () => {
+        it('is called only when the value of the flag changes', () => {
+            const callback = jest.fn()
+            featureFlags.onFeatureFlag('multivariate-flag', callback)
+
+            featureFlags.receivedFeatureFlags({ featureFlags: { 'multivariate-flag': 'variant-1', other: true } })
+            expect(callback).not.toHaveBeenCalled()
+
+            featureFlags.receivedFeatureFlags({ featureFlags: { 'multivariate-flag': 'variant-2' } })
+            expect(callback).toHaveBeenCalledTimes(1)
+            expect(callback).toHaveBeenCalledWith('variant-2', 'variant-1', undefined)
+        })
+
+        it('is called when the payload changes', () => {
+            const callback = jest.fn()
+            featureFlags.onFeatureFlag('beta-feature', callback)
+
+            featureFlags.receivedFeatureFlags({
+                featureFlags: { 'beta-feature': true },
+                featureFlagPayloads: { 'beta-feature': { some: 'payload' } },
+            })
+            expect(callback).not.toHaveBeenCalled()
+
+            featureFlags.receivedFeatureFlags({
+                featureFlags: { 'beta-feature': true },
+                featureFlagPayloads: { 'beta-feature': { some: 'other payload' } },
+            })
+            expect(callback).toHaveBeenCalledWith(true, true, undefined)
+        })
+
+        it('passes the details of the flag', () => {
+            const callback = jest.fn()
+            featureFlags.onFeatureFlag('new-flag', callback)
+
+            featureFlags.receivedFeatureFlags({
+                flags: {
+                    'new-flag': {
+                        key: 'new-flag',
+                        enabled: true,
+                        variant: undefined,
+                        reason: undefined,
+                        metadata: { id: 3, version: 1, description: undefined, payload: undefined },
+                    },
+                },
+            })
+
+            expect(callback).toHaveBeenCalledWith(true, undefined, expect.objectContaining({ key: 'new-flag' }))
+        })
+
+        it('is called when the flag is overridden', () => {
+            const callback = jest.fn()
+            instance.__loaded = true
+            featureFlags.onFeatureFlag('beta-feature', callback)
+
+            featureFlags.overrideFeatureFlags({ flags: { 'beta-feature': 'override' }, suppressWarning: true })
+
+            expect(callback).toHaveBeenCalledWith('override', true, expect.anything())
+        })
+
+        it('can be unsubscribed', () => {
+            const callback = jest.fn()
+            const unsubscribe = featureFlags.onFeatureFlag('beta-feature', callback)
+
+            unsubscribe()
+            featureFlags.receivedFeatureFlags({ featureFlags: { 'beta-feature': false } })
+
+            expect(callback).not.toHaveBeenCalled()
+        })
+
+        it('calls a multi-key listener once with only the flags that changed', () => {
+            const callback = jest.fn()
+            featureFlags.onFeatureFlagsChange(['beta-feature', 'alpha-feature-2', 'multivariate-flag'], callback)
+
+            featureFlags.receivedFeatureFlags({
+                featureFlags: { 'beta-feature': false, 'alpha-feature-2': true, 'multivariate-flag': 'variant-3' },
+                featureFlagPayloads: { 'alpha-feature-2': 200 },
+            })
+
+            expect(callback).toHaveBeenCalledTimes(1)
+            expect(callback).toHaveBeenCalledWith({
+                'beta-feature': { next: false, previous: true, detail: undefined },
+                'multivariate-flag': { next: 'variant-3', previous: 'variant-1', detail: undefined },
+            })
+        })
+    })
+
     describe('earlyAccessFeatures', () => {
         afterEach(() => {
             instance.persistence.clear()
@@ -1013,6 +1101,49 @@ describe('featureflags', () => {
                 },
             })
         })
+
+        describe('renderEarlyAccessFeatures', () => {
+            afterEach(() => {
+                delete assignableWindow.__PosthogExtensions__
+            })
+
+            it('loads the widget before rendering it', () => {
+                const render = jest.fn().mockReturnValue(jest.fn())
+                assignableWindow.__PosthogExtensions__ = {
+                    loadExternalDependency: jest.fn((_instance, _kind, callback) => {
+                        assignableWindow.__PosthogExtensions__!.renderEarlyAccessFeatures = render
+                        callback()
+                    }),
+                }
+
+                featureFlags.renderEarlyAccessFeatures({ selector: '#beta' })
+
+                expect(assignableWindow.__PosthogExtensions__.loadExternalDependency).toHaveBeenCalledWith(
+                    instance,
+                    'early-access-features',
+                    expect.any(Function)
+                )
+                expect(render).toHaveBeenCalledWith(instance, { selector: '#beta' })
+            })
+
+            it('does not render once removed while loading', () => {
+                const render = jest.fn()
+                let loaded: () => void = () => {}
+                assignableWindow.__PosthogExtensions__ = {
+                    loadExternalDependency: jest.fn((_instance, _kind, callback) => {
+                        loaded = () => {
+                            assignableWindow.__PosthogExtensions__!.renderEarlyAccessFeatures = render
+                            callback()
+                        }
+                    }),
+                }
+
+                featureFlags.renderEarlyAccessFeatures()()
+                loaded()
+
+                expect(render).not.toHaveBeenCalled()
+            })
+        })
     })
 
     describe('reloadFeatureFlags', () => {
@@ -1550,6 +1681,534 @@ describe('featureflags', () => {
         })
     })
 
+    describe('stale flags', () => {
+        const decideResponse = (featureFlags: Record<string, string | boolean>) =>
+            jest.fn().mockImplementation(({ callback }) => callback({ statusCode: 200, json: { featureFlags } }))
+
+        beforeEach(() => {
+            jest.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+            instance.persistence.unregister('$feature_flags_fetched_at')
+            instance._send_request = decideResponse({ 'beta-feature': true })
+        })
+
+        afterEach(() => {
+            jest.useFakeTimers()
+        })
+
+        it('records when the flags were fetched', () => {
+            instance.config.feature_flag_cache_ttl_ms = 60000
+            instance._send_request = jest.fn().mockImplementation(({ callback }) =>
+                callback({
+                    statusCode: 200,
+                    json: {
+                        flags: {
+                            'beta-feature': {
+                                key: 'beta-feature',
+                                enabled: true,
+                                variant: undefined,
+                                reason: undefined,
+                                metadata: undefined,
+                            },
+                        },
+                    },
+                })
+            )
+            featureFlags._callDecideEndpoint()
+
+            expect(featureFlags.fetchedAt).toEqual(Date.now())
+            expect(featureFlags.isStale).toBe(false)
+            expect(featureFlags.getFlagsWithDetails()['beta-feature']).toMatchObject({
+                fetchedAt: Date.now(),
+                isStale: false,
+            })
+        })
+
+        it('does not record a failed fetch', () => {
+            instance._send_request = jest.fn().mockImplementation(({ callback }) => callback({ statusCode: 500 }))
+            featureFlags._callDecideEndpoint()
+
+            expect(featureFlags.fetchedAt).toBeUndefined()
+        })
+
+        it('is never stale without a ttl', () => {
+            featureFlags._callDecideEndpoint()
+            jest.advanceTimersByTime(1000 * 60 * 60 * 24 * 7)
+
+            expect(featureFlags.isStale).toBe(false)
+        })
+
+        it('keeps serving stale flags while reloading them in the background', () => {
+            instance.config.feature_flag_cache_ttl_ms = 60000
+            featureFlags._callDecideEndpoint()
+            instance._send_request = decideResponse({ 'beta-feature': false })
+
+            jest.advanceTimersByTime(60001)
+            expect(featureFlags.isStale).toBe(true)
+            expect(featureFlags.getFeatureFlag('beta-feature')).toBe(true)
+
+            jest.advanceTimersByTime(5)
+            expect(instance._send_request).toHaveBeenCalledTimes(1)
+            expect(featureFlags.getFeatureFlag('beta-feature')).toBe(false)
+            expect(featureFlags.isStale).toBe(false)
+        })
+
+        it('does not retry a failing reload more often than the ttl', () => {
+            instance.config.feature_flag_cache_ttl_ms = 60000
+            instance._send_request = jest.fn().mockImplementation(({ callback }) => callback({ statusCode: 500 }))
+
+            featureFlags.getFeatureFlag('beta-feature')
+            jest.advanceTimersByTime(5)
+            featureFlags.getFeatureFlag('beta-feature')
+            jest.advanceTimersByTime(5)
+            expect(instance._send_request).toHaveBeenCalledTimes(1)
+
+            jest.advanceTimersByTime(60000)
+            featureFlags.getFeatureFlag('beta-feature')
+            jest.advanceTimersByTime(5)
+            expect(instance._send_request).toHaveBeenCalledTimes(2)
+        })
+
+        it('tells onFeatureFlags listeners whether the flags are stale', () => {
+            instance.config.feature_flag_cache_ttl_ms = 60000
+            const callback = jest.fn()
+            featureFlags.onFeatureFlags(callback)
+
+            featureFlags._callDecideEndpoint()
+
+            expect(callback).toHaveBeenCalledWith(
+                ['beta-feature'],
+                { 'beta-feature': true },
+                {
+                    errorsLoading: false,
+                    fetchedAt: Date.now(),
+                    isStale: false,
+                    diagnostics: expect.objectContaining({ source: 'network' }),
+                }
+            )
+        })
+
+        it('polls for flags while the page is visible', () => {
+            instance.config.feature_flag_poll_interval_ms = 30000
+            featureFlags.decide()
+            expect(instance._send_request).toHaveBeenCalledTimes(1)
+
+            jest.advanceTimersByTime(30005)
+            expect(instance._send_request).toHaveBeenCalledTimes(2)
+
+            Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true })
+            jest.advanceTimersByTime(30005)
+            expect(instance._send_request).toHaveBeenCalledTimes(2)
+            Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true })
+        })
+
+        it('restarts polling when the interval changes', () => {
+            instance.config.feature_flag_poll_interval_ms = 30000
+            featureFlags.decide()
+
+            instance.config.feature_flag_poll_interval_ms = 60000
+            featureFlags.startBackgroundRefreshIfEnabledOrStop()
+            jest.advanceTimersByTime(30005)
+            expect(instance._send_request).toHaveBeenCalledTimes(1)
+
+            jest.advanceTimersByTime(30000)
+            expect(instance._send_request).toHaveBeenCalledTimes(2)
+        })
+
+        it('stops polling and revalidating when background refresh stops', () => {
+            instance.config.feature_flag_poll_interval_ms = 30000
+            instance.config.feature_flag_cache_ttl_ms = 60000
+            featureFlags.decide()
+
+            featureFlags.stopBackgroundRefresh()
+            jest.advanceTimersByTime(120000)
+            document.dispatchEvent(new Event('visibilitychange'))
+            jest.advanceTimersByTime(5)
+
+            expect(instance._send_request).toHaveBeenCalledTimes(1)
+        })
+
+        it('stops polling when feature flags are disabled', () => {
+            instance.config.feature_flag_poll_interval_ms = 30000
+            featureFlags.decide()
+
+            instance.config.advanced_disable_feature_flags = true
+            featureFlags.startBackgroundRefreshIfEnabledOrStop()
+            instance.config.advanced_disable_feature_flags = false
+            jest.advanceTimersByTime(30005)
+
+            expect(instance._send_request).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('local evaluation', () => {
+        const definitions = {
+            flags: [
+                {
+                    id: 1,
+                    key: 'local-flag',
+                    active: true,
+                    filters: {
+                        groups: [{ properties: [{ key: 'plan', value: 'pro', type: 'person' }] }],
+                        payloads: { true: 'local payload' },
+                    },
+                },
+            ],
+        }
+
+        beforeEach(() => {
+            instance.getGroups = () => ({})
+            instance.persistence.clear()
+            instance.persistence.register({ $stored_person_properties: { plan: 'pro' } })
+            // /decide hasn't responded yet
+            instance._send_request = jest.fn()
+        })
+
+        it('evaluates bootstrapped flag definitions before /decide responds', () => {
+            instance.config.bootstrap = { featureFlagDefinitions: definitions }
+
+            featureFlags.decide()
+
+            expect(featureFlags.isFeatureEnabled('local-flag')).toBe(true)
+            expect(featureFlags.getFeatureFlagPayload('local-flag')).toEqual('local payload')
+            expect(featureFlags.getFeatureFlagDetails('local-flag').reason.description).toEqual(
+                'Matched condition set 1 (evaluated locally)'
+            )
+        })
+
+        it('loads the flag definitions from feature_flag_definitions_url', () => {
+            instance.config.feature_flag_definitions_url = 'https://example.com/flags.json'
+            instance._send_request = jest.fn().mockImplementation(({ url, callback }) => {
+                if (url === 'https://example.com/flags.json') {
+                    callback({ statusCode: 200, json: definitions })
+                }
+            })
+
+            featureFlags.decide()
+
+            expect(instance._send_request).toHaveBeenCalledWith(
+                expect.objectContaining({ method: 'GET', url: 'https://example.com/flags.json' })
+            )
+            expect(featureFlags.isFeatureEnabled('local-flag')).toBe(true)
+        })
+
+        it('uses the flags from /decide once it responds', () => {
+            instance.config.bootstrap = { featureFlagDefinitions: definitions }
+            featureFlags.decide()
+            expect(featureFlags.isFeatureEnabled('local-flag')).toBe(true)
+
+            const [{ callback }] = instance._send_request.mock.calls[0]
+            callback({ statusCode: 200, json: { featureFlags: { 'local-flag': false } } })
+            expect(featureFlags.isFeatureEnabled('local-flag')).toBe(false)
+
+            instance.persistence.register({ $stored_person_properties: { plan: 'free' } })
+            featureFlags.reloadFeatureFlags()
+
+            expect(featureFlags.isFeatureEnabled('local-flag')).toBe(false)
+        })
+
+        it('re-evaluates when person properties change before /decide responds', () => {
+            instance.config.bootstrap = { featureFlagDefinitions: definitions }
+            featureFlags.decide()
+
+            instance.persistence.register({ $stored_person_properties: { plan: 'free' } })
+            featureFlags.reloadFeatureFlags()
+
+            expect(featureFlags.isFeatureEnabled('local-flag')).toBe(false)
+        })
+    })
+
+    describe('load diagnostics', () => {
+        const respond = (response: Record<string, any>, latencyMs = 120) => {
+            instance._send_request = jest.fn().mockImplementation(({ callback }) => {
+                jest.advanceTimersByTime(latencyMs)
+                callback(response)
+            })
+            featureFlags._callDecideEndpoint()
+        }
+
+        beforeEach(() => {
+            instance.config.feature_flag_request_timeout_ms = 3000
+            instance.persistence.unregister('$feature_flags_fetched_at')
+        })
+
+        it('reports the latency of the last load', () => {
+            respond({ statusCode: 200, json: { featureFlags: { 'beta-feature': true } } })
+
+            expect(featureFlags.getLoadDiagnostics()).toEqual({
+                latencyMs: 120,
+                error: undefined,
+                statusCode: 200,
+                source: 'network',
+                missingFlags: [],
+            })
+        })
+
+        it.each([
+            ['timeout', { statusCode: 0 }, 3000],
+            ['network', { statusCode: 0, text: 'Failed to fetch' }, 50],
+            ['http', { statusCode: 503 }, 50],
+            ['quota_limited', { statusCode: 200, json: { quotaLimited: ['feature_flags'] } }, 50],
+        ])('tells a %s error apart', (error, response, latencyMs) => {
+            respond(response, latencyMs)
+
+            expect(featureFlags.getLoadDiagnostics()).toMatchObject({ error })
+        })
+
+        it('tells where the flags in use came from', () => {
+            expect(featureFlags.getLoadDiagnostics().source).toEqual('none')
+
+            instance.config.bootstrap = { featureFlags: { 'beta-feature': true } }
+            expect(featureFlags.getLoadDiagnostics().source).toEqual('bootstrap')
+
+            instance.persistence.register({ $feature_flags_fetched_at: Date.now() })
+            respond({ statusCode: 500 })
+            expect(featureFlags.getLoadDiagnostics().source).toEqual('cache')
+        })
+
+        it('lists the flags that had no value when first read', () => {
+            featureFlags._hasLoadedFlags = false
+            instance.persistence.unregister('$active_feature_flags')
+            instance.persistence.unregister('$enabled_feature_flags')
+
+            featureFlags.getFeatureFlag('beta-feature')
+            respond({ statusCode: 200, json: { featureFlags: { 'beta-feature': true } } })
+            featureFlags.getFeatureFlag('beta-feature')
+            featureFlags.getFeatureFlag('unknown-flag')
+
+            expect(featureFlags.getLoadDiagnostics().missingFlags).toEqual(['beta-feature', 'unknown-flag'])
+        })
+
+        it('lists flags checked with isFeatureEnabled before flags loaded', () => {
+            featureFlags._hasLoadedFlags = false
+            instance.persistence.unregister('$active_feature_flags')
+            instance.persistence.unregister('$enabled_feature_flags')
+
+            featureFlags.isFeatureEnabled('beta-feature')
+            respond({ statusCode: 200, json: { featureFlags: { 'beta-feature': true } } })
+
+            expect(featureFlags.getLoadDiagnostics().missingFlags).toEqual(['beta-feature'])
+        })
+
+        it('captures sampled loads', () => {
+            instance.config.feature_flag_load_event_sample_rate = 1
+            featureFlags.getFeatureFlag('unknown-flag', { send_event: false })
+
+            respond({ statusCode: 503 })
+
+            expect(instance.capture).toHaveBeenCalledWith('$feature_flag_load', {
+                $feature_flag_load_latency_ms: 120,
+                $feature_flag_load_error: 'http',
+                $feature_flag_load_status_code: 503,
+                $feature_flag_source: 'none',
+                $feature_flag_missing_flags: ['unknown-flag'],
+            })
+        })
+
+        it('does not capture loads unless sampled', () => {
+            respond({ statusCode: 200, json: {} })
+
+            expect(instance.capture).not.toHaveBeenCalledWith('$feature_flag_load', expect.anything())
+        })
+    })
+
+    describe('sticky flags', () => {
+        const received = (variant: string | boolean | undefined, payload?: string, version = 3) =>
+            featureFlags.receivedFeatureFlags({
+                flags: {
+                    'checkout-v2': {
+                        key: 'checkout-v2',
+                        enabled: variant !== false,
+                        variant: typeof variant === 'string' ? variant : undefined,
+                        reason: undefined,
+                        metadata: { id: 7, version, description: undefined, payload },
+                    },
+                },
+            })
+
+        beforeEach(() => {
+            instance.persistence.unregister('$sticky_feature_flags')
+            instance.config.sticky_feature_flags = { 'checkout-v2': true }
+        })
+
+        it('keeps the first variant when another is assigned', () => {
+            received('test', '{"color":"green"}')
+            received('control', '{"color":"blue"}')
+
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('test')
+            expect(featureFlags.getFeatureFlagPayload('checkout-v2')).toEqual('{"color":"green"}')
+            expect(featureFlags.getFeatureFlagDetails('checkout-v2')).toMatchObject({
+                variant: 'test',
+                original_variant: 'control',
+                pinnedAt: expect.any(Number),
+            })
+        })
+
+        it('keeps the variant when the user is no longer assigned one', () => {
+            received('test')
+            received(false)
+
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('test')
+            expect(featureFlags.getFeatureFlagDetails('checkout-v2')).toMatchObject({
+                enabled: true,
+                original_enabled: false,
+            })
+        })
+
+        it('reports pinned variants', () => {
+            received('test')
+            received('control')
+
+            featureFlags.getFeatureFlag('checkout-v2')
+
+            expect(instance.capture).toHaveBeenCalledWith(
+                '$feature_flag_called',
+                expect.objectContaining({
+                    $feature_flag_response: 'test',
+                    $feature_flag_original_response: 'control',
+                    $feature_flag_sticky: true,
+                })
+            )
+        })
+
+        it('does not pin flags that are not sticky', () => {
+            instance.config.sticky_feature_flags = { other: true }
+            received('test')
+            received('control')
+
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('control')
+        })
+
+        it('does not pin until a variant is assigned', () => {
+            received(false)
+            received('control')
+
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('control')
+        })
+
+        it('unpins once the flag is no longer returned', () => {
+            received('test')
+            featureFlags.receivedFeatureFlags({ flags: {} })
+            received('control')
+
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('control')
+        })
+
+        it('unpins once the flag is changed', () => {
+            received('test')
+            received('control')
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('test')
+
+            // e.g. the control won and was rolled out to everyone
+            received('control', undefined, 4)
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('control')
+            expect(featureFlags.getFeatureFlagDetails('checkout-v2').original_variant).toBeUndefined()
+
+            // and the new variant is pinned in turn
+            received('test', undefined, 4)
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('control')
+        })
+
+        it('unpins once the pin expires', () => {
+            instance.config.sticky_feature_flags = { 'checkout-v2': { ttl_ms: 60000 } }
+            received('test')
+
+            jest.advanceTimersByTime(59999)
+            received('control')
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('test')
+
+            jest.advanceTimersByTime(1)
+            received('control')
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('control')
+
+            // and the new variant is pinned in turn
+            received('test')
+            expect(featureFlags.getFeatureFlag('checkout-v2')).toEqual('control')
+        })
+    })
+
+    describe('captureExperimentExposure', () => {
+        let sessionId: string
+
+        beforeEach(() => {
+            sessionId = 'session-1'
+            instance.get_session_id = () => sessionId
+            instance.persistence.unregister('$experiment_exposures_reported')
+            featureFlags.receivedFeatureFlags({
+                requestId: 'request-1',
+                flags: {
+                    'checkout-v2': {
+                        key: 'checkout-v2',
+                        enabled: true,
+                        variant: 'test',
+                        reason: undefined,
+                        metadata: { id: 7, version: 3, payload: '{"color":"green"}' },
+                    },
+                },
+            })
+        })
+
+        const exposures = () =>
+            instance.capture.mock.calls.filter(([event]) => event === '$feature_flag_called').map(([, props]) => props)
+
+        it('captures the exposure with the variant, its payload and the request', () => {
+            featureFlags.captureExperimentExposure('checkout-v2', { context: { placement: 'cart' } })
+
+            expect(exposures()).toEqual([
+                expect.objectContaining({
+                    placement: 'cart',
+                    $feature_flag: 'checkout-v2',
+                    $feature_flag_response: 'test',
+                    $feature_flag_payload: '{"color":"green"}',
+                    $feature_flag_request_id: 'request-1',
+                    $feature_flag_version: 3,
+                    $feature_flag_id: 7,
+                    $feature_flag_exposure: true,
+                }),
+            ])
+        })
+
+        it('captures the variant that was seen', () => {
+            featureFlags.captureExperimentExposure('checkout-v2', { variant: 'control' })
+
+            expect(exposures()).toEqual([expect.objectContaining({ $feature_flag_response: 'control' })])
+        })
+
+        it('is separate from reading the flag', () => {
+            featureFlags.getFeatureFlag('checkout-v2', { send_event: false })
+            expect(exposures()).toEqual([])
+
+            featureFlags.captureExperimentExposure('checkout-v2')
+            expect(exposures()).toHaveLength(1)
+        })
+
+        it('captures each variant once per session', () => {
+            featureFlags.captureExperimentExposure('checkout-v2')
+            featureFlags.captureExperimentExposure('checkout-v2')
+            expect(exposures()).toHaveLength(1)
+
+            featureFlags.captureExperimentExposure('checkout-v2', { variant: 'control' })
+            expect(exposures()).toHaveLength(2)
+
+            sessionId = 'session-2'
+            featureFlags.captureExperimentExposure('checkout-v2')
+            expect(exposures()).toHaveLength(3)
+        })
+
+        it('captures each variant once ever when deduplicated by persistence', () => {
+            featureFlags.captureExperimentExposure('checkout-v2', { dedupe: 'persistence' })
+            sessionId = 'session-2'
+            featureFlags.captureExperimentExposure('checkout-v2', { dedupe: 'persistence' })
+
+            expect(exposures()).toHaveLength(1)
+        })
+
+        it('does not capture the exposure to a flag that is not known', () => {
+            featureFlags.captureExperimentExposure('unknown-flag')
+
+            expect(exposures()).toEqual([])
+        })
+    })
+
     describe('Feature Flag Request ID', () => {
         const TEST_REQUEST_ID = 'test-request-id-123'
 
@@ -1663,6 +2322,40 @@ describe('featureflags', () => {
     })
 })
 
+describe('registered feature flag types', () => {
+    type TestFlags = {
+        'checkout-v2': { variant: 'control' | 'test'; payload: { price: number } }
+        'new-onboarding': { variant: boolean }
+    }
+
+    it('narrows keys, values and payloads to the registered flags', () => {
+        const key: FeatureFlagKey<TestFlags> = 'checkout-v2'
+        // @ts-expect-error - not a registered flag
+        const unknownKey: FeatureFlagKey<TestFlags> = 'unknown-flag'
+
+        const variant: RegisteredFeatureFlagValue<'checkout-v2', TestFlags> = 'test'
+        const off: RegisteredFeatureFlagValue<'checkout-v2', TestFlags> = false
+        // @ts-expect-error - not one of the variants
+        const unknownVariant: RegisteredFeatureFlagValue<'checkout-v2', TestFlags> = 'other'
+        // @ts-expect-error - a boolean flag has no variants
+        const booleanVariant: RegisteredFeatureFlagValue<'new-onboarding', TestFlags> = 'test'
+
+        const payload: RegisteredFeatureFlagPayload<'checkout-v2', TestFlags> = { price: 10 }
+        // @ts-expect-error - the payload has a price
+        const wrongPayload: RegisteredFeatureFlagPayload<'checkout-v2', TestFlags> = { cost: 10 }
+
+        expect([key, unknownKey, variant, off, unknownVariant, booleanVariant, payload, wrongPayload]).toHaveLength(8)
+    })
+
+    it('accepts any key and value while no flag is registered', () => {
+        const key: FeatureFlagKey = 'any-flag'
+        const value: RegisteredFeatureFlagValue<typeof key> = 'any-variant'
+        const payload: RegisteredFeatureFlagPayload<typeof key> = [1, '2', { three: 3 }]
+
+        expect([key, value, payload]).toHaveLength(3)
+    })
+})
+
 describe('parseFeatureFlagDecideResponse', () => {
     let persistence
 
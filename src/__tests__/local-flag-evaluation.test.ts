@@ -0,0 +1,247 @@
+import { evaluateFlagLocally, evaluateFlagsLocally, hashFlag, matchProperty } from '../local-flag-evaluation'
+import { FeatureFlagDefinition, FeatureFlagDefinitions } from '../types'
+import { sha1 } from '../utils/sha1'
+
+describe('local flag evaluation', () => {
+    const flag = (overrides: Partial<FeatureFlagDefinition> = {}): FeatureFlagDefinition => ({
+        id: 1,
+        key: 'beta-feature',
+        active: true,
+        version: 3,
+        ...overrides,
+        filters: {
+            groups: [{ properties: [], rollout_percentage: 100 }],
+            ...overrides.filters,
+        },
+    })
+
+    const context = {
+        distinctId: 'user-1',
+        groups: {},
+        personProperties: {},
+        groupProperties: {},
+    }
+
+    const evaluate = (definition: FeatureFlagDefinition, overrides: Partial<typeof context> = {}) =>
+        evaluateFlagLocally(definition, { flags: [definition] }, { ...context, ...overrides })
+
+    describe('sha1', () => {
+        it.each([
+            ['', 'da39a3ee5e6b4b0d3255bfef95601890afd80709'],
+            ['abc', 'a9993e364706816aba3e25717850c26c9cd0d89d'],
+            ['ünïcode', '979fe33b70c7bba489975d94bd4087460722fc85'],
+            ['a'.repeat(100), '7f9000257a4918d7072655ea468540cdcbd42e0c'],
+        ])('hashes %p', (input, expected) => {
+            expect(sha1(input)).toEqual(expected)
+        })
+    })
+
+    describe('hashFlag', () => {
+        it.each([
+            ['user-1', 0.7264912549260886, 0.14578218334266493],
+            ['user-4', 0.41241734366736416, 0.07967153587137342],
+            ['ünïcode', 0.4511506144464675, 0.43202242227933113],
+        ])('hashes %p like the server', (distinctId, expected, expectedVariant) => {
+            expect(hashFlag('beta-feature', distinctId)).toBeCloseTo(expected, 12)
+            expect(hashFlag('beta-feature', distinctId, 'variant')).toBeCloseTo(expectedVariant, 12)
+        })
+    })
+
+    describe('matchProperty', () => {
+        it.each([
+            [{ key: 'email', value: 'Ben@posthog.com' }, { email: 'ben@posthog.com' }, true],
+            [{ key: 'plan', value: ['free', 'pro'], operator: 'exact' }, { plan: 'pro' }, true],
+            [{ key: 'plan', value: ['free', 'pro'], operator: 'is_not' }, { plan: 'pro' }, false],
+            [{ key: 'plan', value: 'is_set', operator: 'is_set' }, { plan: 'pro' }, true],
+            [{ key: 'email', value: 'POSTHOG', operator: 'icontains' }, { email: 'ben@posthog.com' }, true],
+            [{ key: 'email', value: 'posthog', operator: 'not_icontains' }, { email: 'ben@posthog.com' }, false],
+            [{ key: 'email', value: '@posthog\\.com$', operator: 'regex' }, { email: 'ben@posthog.com' }, true],
+            [{ key: 'email', value: '@posthog\\.com$', operator: 'not_regex' }, { email: 'ben@posthog.com' }, false],
+            [{ key: 'age', value: '18', operator: 'gte' }, { age: 18 }, true],
+            [{ key: 'age', value: 9, operator: 'gt' }, { age: '10' }, true],
+            [{ key: 'age', value: 9, operator: 'lt' }, { age: 10 }, false],
+            [{ key: 'signed_up', value: '2024-01-01', operator: 'is_date_before' }, { signed_up: '2023-06-01' }, true],
+            [{ key: 'signed_up', value: '-7d', operator: 'is_date_after' }, { signed_up: '2000-01-01' }, false],
+        ])('matches %p against %p', (property, values, expected) => {
+            expect(matchProperty(property as any, values)).toEqual(expected)
+        })
+
+        it.each([
+            ['a property that is not known', { key: 'email', value: 'ben@posthog.com' }, {}],
+            ['is_not_set', { key: 'email', value: 'is_not_set', operator: 'is_not_set' }, { email: 'x' }],
+            ['an invalid date', { key: 'signed_up', value: 'soon', operator: 'is_date_after' }, { signed_up: 'x' }],
+            ['an unknown operator', { key: 'email', value: 'x', operator: 'semver_gt' }, { email: 'x' }],
+        ])('cannot tell for %s', (_, property, values) => {
+            expect(matchProperty(property as any, values)).toBeUndefined()
+        })
+    })
+
+    describe('evaluateFlagLocally', () => {
+        it('returns the flag with its payload and metadata when a condition matches', () => {
+            expect(evaluate(flag({ filters: { payloads: { true: '{"a":1}' } } }))).toEqual({
+                key: 'beta-feature',
+                enabled: true,
+                variant: undefined,
+                reason: {
+                    code: 'condition_match',
+                    condition_index: 0,
+                    description: 'Matched condition set 1 (evaluated locally)',
+                },
+                metadata: { id: 1, version: 3, description: undefined, payload: '{"a":1}' },
+            })
+        })
+
+        it('is disabled when the flag is not active', () => {
+            expect(evaluate(flag({ active: false }))).toMatchObject({
+                enabled: false,
+                reason: { code: 'disabled' },
+            })
+        })
+
+        it('rolls out by the hash of the distinct id', () => {
+            const halfRolledOut = flag({ filters: { groups: [{ properties: [], rollout_percentage: 50 }] } })
+
+            // user-1 hashes to 0.73 and user-4 to 0.41
+            expect(evaluate(halfRolledOut)).toMatchObject({
+                enabled: false,
+                reason: { code: 'out_of_rollout_bound', condition_index: 0 },
+            })
+            expect(evaluate(halfRolledOut, { distinctId: 'user-4' })).toMatchObject({ enabled: true })
+        })
+
+        it('matches on person properties', () => {
+            const proOnly = flag({
+                filters: { groups: [{ properties: [{ key: 'plan', value: 'pro', type: 'person' }] }] },
+            })
+
+            expect(evaluate(proOnly, { personProperties: { plan: 'pro' } })).toMatchObject({ enabled: true })
+            expect(evaluate(proOnly, { personProperties: { plan: 'free' } })).toMatchObject({
+                enabled: false,
+                reason: { code: 'no_condition_match' },
+            })
+        })
+
+        it('leaves the flag to the server when a property is not known', () => {
+            const proOnly = flag({
+                filters: { groups: [{ properties: [{ key: 'plan', value: 'pro', type: 'person' }] }] },
+            })
+
+            expect(evaluate(proOnly)).toBeUndefined()
+        })
+
+        it('still evaluates when a later condition matches after an inconclusive one', () => {
+            const definition = flag({
+                filters: {
+                    groups: [
+                        { properties: [{ key: 'id', value: 2, type: 'cohort' }] },
+                        { properties: [{ key: 'plan', value: 'pro', type: 'person' }] },
+                    ],
+                },
+            })
+
+            expect(evaluate(definition, { personProperties: { plan: 'pro' } })).toMatchObject({
+                enabled: true,
+                reason: { condition_index: 1 },
+            })
+        })
+
+        it('leaves flags with experience continuity to the server', () => {
+            expect(evaluate(flag({ ensure_experience_continuity: true }))).toBeUndefined()
+        })
+
+        it('picks the variant by the hash of the distinct id', () => {
+            const multivariate = flag({
+                filters: {
+                    multivariate: {
+                        variants: [
+                            { key: 'control', rollout_percentage: 50 },
+                            { key: 'test', rollout_percentage: 50 },
+                        ],
+                    },
+                    payloads: { test: 'test payload' },
+                },
+            })
+
+            // the variant hashes are 0.15 for user-1 and 0.60 for user-2
+            expect(evaluate(multivariate)).toMatchObject({ variant: 'control', metadata: { payload: undefined } })
+            expect(evaluate(multivariate, { distinctId: 'user-2' })).toMatchObject({
+                variant: 'test',
+                metadata: { payload: 'test payload' },
+            })
+        })
+
+        it('tries conditions that override the variant first', () => {
+            const definition = flag({
+                filters: {
+                    groups: [
+                        { properties: [], rollout_percentage: 100 },
+                        { properties: [{ key: 'plan', value: 'pro', type: 'person' }], variant: 'test' },
+                    ],
+                    multivariate: {
+                        variants: [
+                            { key: 'control', rollout_percentage: 100 },
+                            { key: 'test', rollout_percentage: 0 },
+                        ],
+                    },
+                },
+            })
+
+            expect(evaluate(definition, { personProperties: { plan: 'pro' } })).toMatchObject({
+                variant: 'test',
+                reason: { condition_index: 1 },
+            })
+            expect(evaluate(definition, { personProperties: { plan: 'free' } })).toMatchObject({
+                variant: 'control',
+                reason: { condition_index: 0 },
+            })
+        })
+
+        describe('group flags', () => {
+            const companyFlag = flag({
+                filters: {
+                    aggregation_group_type_index: 0,
+                    groups: [{ properties: [{ key: 'size', value: 100, operator: 'gt', type: 'group' }] }],
+                },
+            })
+            const definitions: FeatureFlagDefinitions = {
+                flags: [companyFlag],
+                group_type_mapping: { '0': 'company' },
+            }
+
+            it('evaluates on the properties of the group', () => {
+                expect(
+                    evaluateFlagLocally(companyFlag, definitions, {
+                        ...context,
+                        groups: { company: 'posthog' },
+                        groupProperties: { company: { size: 150 } },
+                    })
+                ).toMatchObject({ enabled: true })
+            })
+
+            it('is off without a group of that type', () => {
+                expect(evaluateFlagLocally(companyFlag, definitions, context)).toMatchObject({
+                    enabled: false,
+                    reason: { code: 'no_group_type' },
+                })
+            })
+        })
+    })
+
+    describe('evaluateFlagsLocally', () => {
+        it('only returns the flags that could be evaluated', () => {
+            expect(
+                Object.keys(
+                    evaluateFlagsLocally(
+                        {
+                            flags: [
+                                flag({ key: 'everyone' }),
+                                flag({ key: 'continuity', ensure_experience_continuity: true }),
+                            ],
+                        },
+                        context
+                    )
+                )
+            ).toEqual(['everyone'])
+        })
+    })
+})
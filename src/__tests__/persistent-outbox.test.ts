@@ -0,0 +1,285 @@
+import { OutboxEntry, PersistentOutbox } from '../persistent-outbox'
+import { PersistentOutboxConfig } from '../types'
+
+describe('PersistentOutbox', () => {
+    const storageKey = 'ph_test-token_outbox'
+    const now = Date.now()
+    let mockPosthog: any
+
+    const createOutbox = (config: boolean | PersistentOutboxConfig = true) => {
+        mockPosthog.config.persistent_outbox = config
+        return new PersistentOutbox(mockPosthog)
+    }
+
+    const stored = (): OutboxEntry[] => JSON.parse(localStorage.getItem(storageKey) || '[]')
+
+    const storedEntry = (overrides: Partial<OutboxEntry>): OutboxEntry => {
+        const payload = overrides.payload ?? JSON.stringify({ event: 'foo' })
+        return {
+            id: 'id',
+            createdAt: now,
+            size: payload.length,
+            url: '/e',
+            payload,
+            ...overrides,
+        }
+    }
+
+    beforeEach(() => {
+        localStorage.clear()
+        jest.useFakeTimers()
+        jest.setSystemTime(now)
+        mockPosthog = {
+            config: { token: 'test-token' },
+            _send_request: jest.fn(),
+            rateLimiter: {
+                isServerRateLimited: jest.fn().mockReturnValue(false),
+                serverBackoffRemaining: jest.fn().mockReturnValue(0),
+            },
+        }
+    })
+
+    afterEach(() => {
+        jest.useRealTimers()
+    })
+
+    describe('tracking requests', () => {
+        it('persists a request until it is delivered', () => {
+            const outbox = createOutbox()
+            const callback = jest.fn()
+
+            const tracked = outbox.track({ url: '/e', data: { event: 'foo' }, callback })
+
+            expect(tracked.outboxId).toEqual(expect.any(String))
+            expect(stored()).toEqual([
+                {
+                    id: tracked.outboxId,
+                    createdAt: now,
+                    size: 15,
+                    url: '/e',
+                    payload: '{"event":"foo"}',
+                    claimedBy: expect.any(String),
+                    claimedAt: now,
+                },
+            ])
+
+            tracked.callback!({ statusCode: 200 })
+
+            expect(stored()).toEqual([])
+            expect(outbox.size).toEqual(0)
+            expect(callback).toHaveBeenCalledWith({ statusCode: 200 })
+        })
+
+        it.each([502, 429, 0])('keeps a request that failed with a retriable %p', (statusCode) => {
+            const outbox = createOutbox()
+
+            const tracked = outbox.track({ url: '/e', data: { event: 'foo' } })
+            tracked.callback!({ statusCode })
+
+            expect(stored()).toHaveLength(1)
+            expect(outbox.size).toEqual(1)
+        })
+
+        it('forgets a request that was rejected by the server', () => {
+            const outbox = createOutbox()
+
+            const tracked = outbox.track({ url: '/e', data: { event: 'foo' } })
+            tracked.callback!({ statusCode: 400 })
+
+            expect(stored()).toEqual([])
+        })
+
+        it('does not track a beacon sent while online', () => {
+            const outbox = createOutbox()
+
+            const tracked = outbox.track({ url: '/e', data: { event: 'foo' }, transport: 'sendBeacon' })
+
+            expect(tracked.outboxId).toBeUndefined()
+            expect(stored()).toEqual([])
+        })
+
+        it('drops the oldest requests when over max_bytes', () => {
+            const outbox = createOutbox({ max_bytes: 40 })
+
+            const first = outbox.track({ url: '/e', data: { event: 'first' } })
+            jest.setSystemTime(now + 1)
+            const second = outbox.track({ url: '/e', data: { event: 'second' } })
+            jest.setSystemTime(now + 2)
+            const third = outbox.track({ url: '/e', data: { event: 'third' } })
+
+            expect(stored().map((e) => e.id)).toEqual([second.outboxId, third.outboxId])
+            expect(stored().map((e) => e.id)).not.toContain(first.outboxId)
+        })
+
+        it('does not persist a request larger than the whole outbox', () => {
+            const outbox = createOutbox({ max_bytes: 10 })
+
+            const tracked = outbox.track({ url: '/e', data: { event: 'much too large' } })
+
+            expect(tracked.outboxId).toBeUndefined()
+            expect(stored()).toEqual([])
+        })
+    })
+
+    describe('replaying', () => {
+        it('replays requests left over from a previous page load in order', () => {
+            localStorage.setItem(
+                storageKey,
+                JSON.stringify([
+                    storedEntry({ id: 'second', createdAt: now - 1000, payload: '{"event":"second"}' }),
+                    storedEntry({ id: 'first', createdAt: now - 2000, payload: '{"event":"first"}' }),
+                ])
+            )
+            mockPosthog._send_request.mockImplementation(({ callback }: any) => callback({ statusCode: 200 }))
+
+            const outbox = createOutbox()
+            expect(mockPosthog._send_request).not.toHaveBeenCalled()
+
+            outbox.replay()
+
+            expect(mockPosthog._send_request.mock.calls.map(([options]: any) => options.data)).toEqual([
+                { event: 'first' },
+                { event: 'second' },
+            ])
+            expect(stored()).toEqual([])
+        })
+
+        it('backs off when a replayed request fails', () => {
+            localStorage.setItem(storageKey, JSON.stringify([storedEntry({ createdAt: now - 1000 })]))
+            mockPosthog._send_request.mockImplementation(({ callback }: any) => callback({ statusCode: 503 }))
+
+            createOutbox().replay()
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+
+            mockPosthog._send_request.mockImplementation(({ callback }: any) => callback({ statusCode: 200 }))
+            // the first backoff is at most 4.5 seconds
+            jest.advanceTimersByTime(4500)
+
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(2)
+            expect(stored()).toEqual([])
+        })
+
+        it('keeps a replayed request that was rate limited', () => {
+            localStorage.setItem(storageKey, JSON.stringify([storedEntry({ createdAt: now - 1000 })]))
+            mockPosthog._send_request.mockImplementation(({ callback }: any) => callback({ statusCode: 429 }))
+
+            createOutbox().replay()
+
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+            expect(stored()).toHaveLength(1)
+        })
+
+        it('waits while the endpoint is server rate limited', () => {
+            localStorage.setItem(storageKey, JSON.stringify([storedEntry({ createdAt: now - 1000 })]))
+            mockPosthog.rateLimiter.isServerRateLimited.mockReturnValue(true)
+
+            createOutbox().replay()
+
+            expect(mockPosthog._send_request).not.toHaveBeenCalled()
+            expect(stored()).toHaveLength(1)
+        })
+
+        it('waits while the server asked to back off', () => {
+            localStorage.setItem(storageKey, JSON.stringify([storedEntry({ createdAt: now - 1000 })]))
+            mockPosthog.rateLimiter.serverBackoffRemaining.mockReturnValue(10_000)
+
+            createOutbox().replay()
+
+            expect(mockPosthog._send_request).not.toHaveBeenCalled()
+            expect(stored()).toHaveLength(1)
+        })
+
+        it('drops requests older than max_age_ms', () => {
+            localStorage.setItem(
+                storageKey,
+                JSON.stringify([
+                    storedEntry({ id: 'old', createdAt: now - 10000, payload: '{"event":"old"}' }),
+                    storedEntry({ id: 'new', createdAt: now - 1000, payload: '{"event":"new"}' }),
+                ])
+            )
+
+            createOutbox({ max_age_ms: 5000 }).replay()
+
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+            expect(mockPosthog._send_request.mock.calls[0][0].data).toEqual({ event: 'new' })
+            expect(stored().map((e) => e.id)).toEqual(['new'])
+        })
+
+        it('moves batched event offsets forward by the time spent in the outbox', () => {
+            localStorage.setItem(
+                storageKey,
+                JSON.stringify([
+                    storedEntry({ createdAt: now - 60000, payload: '[{"event":"foo","offset":500},{"event":"bar"}]' }),
+                ])
+            )
+
+            createOutbox().replay()
+
+            expect(mockPosthog._send_request.mock.calls[0][0].data).toEqual([
+                { event: 'foo', offset: 60500 },
+                { event: 'bar' },
+            ])
+        })
+
+        it('does not replay requests another tab is sending', () => {
+            localStorage.setItem(storageKey, JSON.stringify([storedEntry({ createdAt: now - 1000 })]))
+            let deliver: () => void = () => {}
+            mockPosthog._send_request.mockImplementation(({ callback }: any) => {
+                deliver = () => callback({ statusCode: 200 })
+            })
+            createOutbox().replay()
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+
+            const otherTab = createOutbox()
+            otherTab.replay()
+            // the first tab keeps its claim for as long as it is sending
+            jest.advanceTimersByTime(3 * 60 * 1000)
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+
+            deliver()
+            jest.advanceTimersByTime(60 * 1000)
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+            expect(otherTab.size).toEqual(0)
+        })
+
+        it('does not replay requests tracked by another open tab', () => {
+            createOutbox().track({ url: '/e', data: { event: 'foo' } })
+
+            createOutbox().replay()
+            jest.advanceTimersByTime(3 * 60 * 1000)
+
+            expect(mockPosthog._send_request).not.toHaveBeenCalled()
+        })
+
+        it('replays the requests of a page that was closed', () => {
+            createOutbox().track({ url: '/e', data: { event: 'foo' } })
+            window.dispatchEvent(new Event('pagehide'))
+
+            createOutbox().replay()
+
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+        })
+
+        it('replays requests claimed by a tab that went away once the claim runs out', () => {
+            localStorage.setItem(
+                storageKey,
+                JSON.stringify([storedEntry({ createdAt: now - 1000, claimedBy: 'closed-tab', claimedAt: now })])
+            )
+
+            createOutbox().replay()
+            expect(mockPosthog._send_request).not.toHaveBeenCalled()
+
+            jest.advanceTimersByTime(60 * 1000)
+            expect(mockPosthog._send_request).toHaveBeenCalledTimes(1)
+        })
+
+        it('does not replay requests tracked by the current page', () => {
+            const outbox = createOutbox()
+            outbox.track({ url: '/e', data: { event: 'foo' } })
+
+            outbox.replay()
+
+            expect(mockPosthog._send_request).not.toHaveBeenCalled()
+        })
+    })
+})
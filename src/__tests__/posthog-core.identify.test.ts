@@ -35,6 +35,7 @@ describe('identify()', () => {
                 setAnonymousDistinctId: jest.fn(),
                 setPersonPropertiesForFlags: jest.fn(),
                 reloadFeatureFlags: jest.fn(),
+                startBackgroundRefreshIfEnabledOrStop: jest.fn(),
             },
             unregister: jest.fn(),
         })
@@ -285,10 +286,11 @@ describe('identify()', () => {
             )
         })
 
-        it('clears flag calls reported when identity changes', () => {
+        it('clears flag calls and experiment exposures reported when identity changes', () => {
             instance.identify('a-new-id')
 
             expect(instance.unregister).toHaveBeenCalledWith('$flag_call_reported')
+            expect(instance.unregister).toHaveBeenCalledWith('$experiment_exposures_reported')
         })
     })
 
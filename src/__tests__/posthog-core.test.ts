@@ -243,4 +243,36 @@ describe('posthog core', () => {
             })
         })
     })
+
+    describe('custom transport', () => {
+        it('sends captured events through the configured transport', () => {
+            const transport = jest.fn()
+            const token = uuidv7()
+            const posthog = defaultPostHog().init(token, { request_batching: false, transport }, token)!
+
+            posthog.capture('custom_event')
+
+            expect(transport).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    method: 'POST',
+                    url: expect.stringContaining('/e/'),
+                }),
+                expect.any(Function)
+            )
+        })
+
+        it('applies server rate limits from responses of the configured transport', () => {
+            const transport = jest
+                .fn()
+                .mockImplementation((_, respond) =>
+                    respond({ statusCode: 200, text: JSON.stringify({ quota_limited: ['events'] }) })
+                )
+            const token = uuidv7()
+            const posthog = defaultPostHog().init(token, { request_batching: false, transport }, token)!
+
+            posthog.capture('custom_event')
+
+            expect(posthog.rateLimiter.isServerRateLimited('events')).toBe(true)
+        })
+    })
 })
@@ -41,6 +41,9 @@ describe('posthog-surveys', () => {
                 requestRouter: {
                     endpointFor: jest.fn().mockReturnValue('https://test.com/api/surveys'),
                 },
+                consent: {
+                    isGranted: jest.fn().mockReturnValue(true),
+                },
                 _send_request: jest.fn(),
                 get_property: jest.fn(),
             } as unknown as PostHog & {
@@ -92,6 +95,15 @@ describe('posthog-surveys', () => {
                 expect(mockLoadExternalDependency).not.toHaveBeenCalled()
             })
 
+            it('should not initialize without consent for surveys', () => {
+                ;(mockPostHog.consent.isGranted as jest.Mock).mockReturnValue(false)
+                surveys.loadIfEnabled()
+
+                expect(mockPostHog.consent.isGranted).toHaveBeenCalledWith('surveys')
+                expect(mockGenerateSurveys).not.toHaveBeenCalled()
+                expect(mockLoadExternalDependency).not.toHaveBeenCalled()
+            })
+
             it('should not initialize if PostHog Extensions are not found', () => {
                 delete assignableWindow.__PosthogExtensions__
                 surveys.loadIfEnabled()
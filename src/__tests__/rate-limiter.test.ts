@@ -264,6 +264,53 @@ describe('Rate Limiter', () => {
             expect(rateLimiter.serverLimits).toStrictEqual({})
         })
 
+        it('backs off the batch key of a 429 response for as long as Retry-After asks', () => {
+            rateLimiter.checkForLimiting({ statusCode: 429, text: '', retryAfterMs: 5000 }, 'recordings')
+
+            expect(rateLimiter.serverBackoffRemaining('recordings')).toEqual(5000)
+            expect(rateLimiter.serverBackoffRemaining(undefined)).toEqual(0)
+
+            moveTimeForward(5000)
+            expect(rateLimiter.serverBackoffRemaining('recordings')).toEqual(0)
+        })
+
+        it('does not stop requests that cannot wait for a backoff, e.g. to /decide', () => {
+            rateLimiter.checkForLimiting({ statusCode: 429, text: '', retryAfterMs: 5000 })
+
+            expect(rateLimiter.serverLimits).toStrictEqual({})
+            expect(rateLimiter.isServerRateLimited(undefined)).toBe(false)
+        })
+
+        it('backs off for a minute after a 429 without Retry-After', () => {
+            rateLimiter.checkForLimiting({ statusCode: 429, text: '' })
+
+            expect(rateLimiter.serverBackoffRemaining(undefined)).toEqual(60_000)
+        })
+
+        it('only backs off after a 503 when the server asks to', () => {
+            rateLimiter.checkForLimiting({ statusCode: 503, text: '' }, 'exceptionEvent')
+            expect(rateLimiter.serverBackoffRemaining('exceptionEvent')).toEqual(0)
+
+            rateLimiter.checkForLimiting({ statusCode: 503, text: '', retryAfterMs: 10_000 }, 'exceptionEvent')
+            expect(rateLimiter.serverBackoffRemaining('exceptionEvent')).toEqual(10_000)
+        })
+
+        it('caps the backoff at thirty minutes', () => {
+            rateLimiter.checkForLimiting({ statusCode: 429, text: '', retryAfterMs: 24 * 60 * 60 * 1000 })
+
+            expect(rateLimiter.serverBackoffRemaining('events')).toEqual(30 * 60 * 1000)
+        })
+
+        it('does not treat quota limits as a backoff', () => {
+            rateLimiter.checkForLimiting({
+                statusCode: 200,
+                text: JSON.stringify({ quota_limited: ['events'] }),
+            })
+
+            expect(rateLimiter.isServerRateLimited('events')).toBe(true)
+            expect(rateLimiter.serverBackoffRemaining('events')).toEqual(0)
+        })
+
         it('does not log an error when there is an empty body', () => {
             rateLimiter.checkForLimiting({
                 statusCode: 200,
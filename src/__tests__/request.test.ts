@@ -1,7 +1,7 @@
 /* eslint-disable compat/compat */
 /// <reference lib="dom" />
 
-import { extendURLParams, request } from '../request'
+import { extendURLParams, parseRetryAfter, request } from '../request'
 import { Compression, RequestWithOptions } from '../types'
 
 jest.mock('../utils/globals', () => ({
@@ -43,6 +43,7 @@ describe('request', () => {
         setRequestHeader: jest.fn(),
         onreadystatechange: jest.fn(),
         send: jest.fn(),
+        getResponseHeader: jest.fn().mockReturnValue(null),
         readyState: 4,
         responseText: JSON.stringify('something here'),
         status: 200,
@@ -116,6 +117,18 @@ describe('request', () => {
                 text: '{wat',
             })
         })
+
+        it('passes on the Retry-After of the server', () => {
+            request(createRequest())
+            mockedXHR.status = 429
+            mockedXHR.getResponseHeader.mockReturnValueOnce('30')
+            mockedXHR.onreadystatechange?.({} as Event)
+
+            expect(mockedXHR.getResponseHeader).toHaveBeenCalledWith('Retry-After')
+            expect(mockCallback).toHaveBeenCalledWith(
+                expect.objectContaining({ statusCode: 429, retryAfterMs: 30_000 })
+            )
+        })
     })
 
     describe('fetch', () => {
@@ -152,6 +165,24 @@ describe('request', () => {
             )
         })
 
+        it('passes on the Retry-After of the server', async () => {
+            mockedFetch.mockImplementation(
+                () =>
+                    Promise.resolve({
+                        status: 503,
+                        headers: new Headers({ 'Retry-After': '120' }),
+                        text: () => Promise.resolve(''),
+                    }) as any
+            )
+
+            request(createRequest())
+            await flushPromises()
+
+            expect(mockCallback).toHaveBeenCalledWith(
+                expect.objectContaining({ statusCode: 503, retryAfterMs: 120_000 })
+            )
+        })
+
         it('calls the callback handler when successful', async () => {
             request(createRequest())
             await flushPromises()
@@ -274,6 +305,20 @@ describe('request', () => {
         })
     })
 
+    describe('parseRetryAfter', () => {
+        it.each([
+            ['30', 30_000],
+            ['0', 0],
+            [new Date(now + 5000).toUTCString(), 5000],
+            [new Date(now - 5000).toUTCString(), 0],
+            ['-1', undefined],
+            ['soon', undefined],
+            [null, undefined],
+        ])('parses %s', (value, expected) => {
+            expect(parseRetryAfter(value)).toEqual(expected)
+        })
+    })
+
     describe('adding query params to posthog API calls', () => {
         const posthogURL = 'https://any.posthog-instance.com/my-url'
 
@@ -377,6 +422,134 @@ describe('request', () => {
         })
     })
 
+    describe('custom transport', () => {
+        const customTransport = jest.fn()
+
+        beforeEach(() => {
+            transport = 'fetch'
+            customTransport.mockReset()
+        })
+
+        it('sends the encoded request through the custom transport instead of the built-in ones', () => {
+            request(
+                createRequest({
+                    url: 'https://any.posthog-instance.com/',
+                    method: 'POST',
+                    headers: { 'x-header': 'value' },
+                    compression: Compression.Base64,
+                    data: { foo: 'bar' },
+                    customTransport,
+                })
+            )
+
+            expect(mockedFetch).not.toHaveBeenCalled()
+            expect(customTransport).toHaveBeenCalledWith(
+                {
+                    url: 'https://any.posthog-instance.com/?_=1700000000000&ver=1.23.45&compression=base64',
+                    method: 'POST',
+                    headers: { 'x-header': 'value', 'Content-Type': 'application/x-www-form-urlencoded' },
+                    body: 'data=eyJmb28iOiJiYXIifQ%3D%3D',
+                    compression: Compression.Base64,
+                    timeout: 60000,
+                    transport: 'fetch',
+                },
+                expect.any(Function)
+            )
+        })
+
+        it('parses the json of a successful response', () => {
+            customTransport.mockImplementation((_, respond) => respond({ statusCode: 200, text: '{"ok":true}' }))
+
+            request(createRequest({ customTransport }))
+
+            expect(mockCallback).toHaveBeenCalledWith({ statusCode: 200, text: '{"ok":true}', json: { ok: true } })
+        })
+
+        it('only processes the first response', () => {
+            customTransport.mockImplementation((_, respond) => {
+                respond({ statusCode: 503 })
+                respond({ statusCode: 200 })
+            })
+
+            request(createRequest({ customTransport }))
+
+            expect(mockCallback).toHaveBeenCalledTimes(1)
+            expect(mockCallback).toHaveBeenCalledWith({ statusCode: 503 })
+        })
+
+        it('responds with a network error when the transport throws', () => {
+            customTransport.mockImplementation(() => {
+                throw new Error('bridge is gone')
+            })
+
+            request(createRequest({ customTransport }))
+
+            expect(mockCallback).toHaveBeenCalledWith({ statusCode: 0, text: 'Error: bridge is gone' })
+        })
+    })
+
+    describe('encoding worker', () => {
+        const gzipped = new Uint8Array([1, 2, 3])
+        let encodingWorker: any
+
+        beforeEach(() => {
+            encodingWorker = {
+                isAvailable: true,
+                gzip: jest.fn().mockImplementation((_data, callback) => callback(gzipped)),
+            }
+        })
+
+        const gzipRequest = (overrides: Partial<RequestWithOptions> = {}) =>
+            createRequest({
+                url: 'https://any.posthog-instance.com/',
+                method: 'POST',
+                compression: Compression.GZipJS,
+                data: { foo: 'bar' },
+                encodingWorker,
+                ...overrides,
+            })
+
+        it('sends the body encoded by the worker', () => {
+            transport = 'fetch'
+            request(gzipRequest())
+
+            expect(encodingWorker.gzip).toHaveBeenCalledWith({ foo: 'bar' }, expect.any(Function))
+            const body = mockedFetch.mock.calls[0][1].body
+            expect(body).toBeInstanceOf(Blob)
+            expect(body.size).toEqual(3)
+        })
+
+        it('encodes on the main thread when the worker could not encode the data', () => {
+            transport = 'fetch'
+            encodingWorker.gzip.mockImplementation((_data: any, callback: any) => callback(undefined))
+
+            request(gzipRequest())
+
+            expect(mockedFetch.mock.calls[0][1].body.size).toBeGreaterThan(3)
+        })
+
+        it('waits for the worker before sending', () => {
+            transport = 'XHR'
+            encodingWorker.gzip.mockImplementation(() => {})
+
+            request(gzipRequest())
+
+            expect(mockedXHR.send).not.toHaveBeenCalled()
+        })
+
+        it.each<[string, Partial<RequestWithOptions>]>([
+            ['the request is not gzipped', { compression: Compression.Base64 }],
+            ['the request is a beacon', { transport: 'sendBeacon' as const }],
+            ['the worker is unavailable', { encodingWorker: { isAvailable: false, gzip: jest.fn() } as any }],
+        ])('does not use the worker when %s', (_name, overrides) => {
+            transport = overrides.transport ?? 'fetch'
+            request(gzipRequest(overrides))
+
+            expect(encodingWorker.gzip).not.toHaveBeenCalled()
+            expect(overrides.encodingWorker?.gzip ?? jest.fn()).not.toHaveBeenCalled()
+        })
+    })
+
     describe('sendBeacon', () => {
         beforeEach(() => {
             transport = 'sendBeacon'
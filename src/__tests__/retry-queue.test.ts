@@ -6,6 +6,8 @@ import { assignableWindow } from '../utils/globals'
 describe('RetryQueue', () => {
     const mockPosthog = {
         _send_request: jest.fn(),
+        _outbox: { remove: jest.fn() },
+        rateLimiter: { serverBackoffRemaining: jest.fn().mockReturnValue(0) },
     }
     let retryQueue: RetryQueue
     let retryQueuePrivate: any
@@ -14,6 +16,7 @@ describe('RetryQueue', () => {
     beforeEach(() => {
         retryQueue = new RetryQueue(mockPosthog as any)
         retryQueuePrivate = retryQueue as any
+        mockPosthog.rateLimiter.serverBackoffRemaining.mockReturnValue(0)
 
         jest.useFakeTimers()
         jest.setSystemTime(now)
@@ -138,6 +141,27 @@ describe('RetryQueue', () => {
         ])
     })
 
+    it('leaves requests backed by the outbox for the next page load when offline on unload', () => {
+        retryQueuePrivate.areWeOnline = false
+        enqueueRequests()
+        retryQueuePrivate.queue[0].requestOptions.outboxId = 'outbox-id'
+
+        retryQueue.unload()
+
+        expect(mockPosthog._send_request).toHaveBeenCalledTimes(3)
+        expect(mockPosthog._outbox.remove).not.toHaveBeenCalled()
+    })
+
+    it('removes requests backed by the outbox once they are beaconed on unload', () => {
+        enqueueRequests()
+        retryQueuePrivate.queue[0].requestOptions.outboxId = 'outbox-id'
+
+        retryQueue.unload()
+
+        expect(mockPosthog._send_request).toHaveBeenCalledTimes(4)
+        expect(mockPosthog._outbox.remove).toHaveBeenCalledWith('outbox-id')
+    })
+
     it('enqueues requests when offline and flushes immediately when online again', () => {
         retryQueuePrivate.areWeOnline = false
         expect(retryQueuePrivate.areWeOnline).toEqual(false)
@@ -226,6 +250,70 @@ describe('RetryQueue', () => {
         expect(retryQueuePrivate.queue[0].requestOptions.retriesPerformedSoFar).toEqual(2)
     })
 
+    it('retries rate limited requests when the server asks to', () => {
+        mockPosthog._send_request.mockImplementation(({ callback }) => {
+            callback?.({ statusCode: 429, retryAfterMs: 20_000 })
+        })
+
+        retryQueue.retriableRequest({ url: '/e', data: { event: 'foo', timestamp: now } })
+
+        expect(retryQueuePrivate.queue).toEqual([
+            { requestOptions: expect.objectContaining({ retriesPerformedSoFar: 1 }), retryAt: now + 20_000 },
+        ])
+    })
+
+    it('caps how long the server can ask to wait', () => {
+        mockPosthog._send_request.mockImplementation(({ callback }) => {
+            callback?.({ statusCode: 429, retryAfterMs: 99_999_999_000 })
+        })
+
+        retryQueue.retriableRequest({ url: '/e', data: { event: 'foo', timestamp: now } })
+
+        expect(retryQueuePrivate.queue[0].retryAt).toEqual(now + 30 * 60 * 1000)
+    })
+
+    it('does not retry other 4xx responses', () => {
+        mockPosthog._send_request.mockImplementation(({ callback }) => {
+            callback?.({ statusCode: 413 })
+        })
+
+        retryQueue.retriableRequest({ url: '/e', data: { event: 'foo', timestamp: now } })
+
+        expect(retryQueuePrivate.queue.length).toEqual(0)
+    })
+
+    it('waits for the server backoff of its batch key before sending, without using up a retry', () => {
+        mockPosthog.rateLimiter.serverBackoffRemaining.mockImplementation((batchKey) =>
+            batchKey === 'recordings' ? 10_000 : 0
+        )
+
+        retryQueue.retriableRequest({ url: '/s', data: { event: '$snapshot', timestamp: now }, batchKey: 'recordings' })
+
+        expect(mockPosthog._send_request).not.toHaveBeenCalled()
+        expect(retryQueuePrivate.queue).toEqual([
+            {
+                requestOptions: expect.objectContaining({ batchKey: 'recordings', retriesPerformedSoFar: undefined }),
+                retryAt: now + 10_000,
+            },
+        ])
+
+        mockPosthog.rateLimiter.serverBackoffRemaining.mockReturnValue(0)
+        fastForwardTimeAndRunTimer(10_001)
+
+        // the url has no retry_count, as no retry was used up
+        expect(mockPosthog._send_request).toHaveBeenCalledWith(expect.objectContaining({ url: '/s' }))
+    })
+
+    it('leaves requests backed by the outbox for the next page load on unload when the server asked to back off', () => {
+        mockPosthog.rateLimiter.serverBackoffRemaining.mockReturnValue(10_000)
+
+        retryQueue.retriableRequest({ url: '/e', data: { event: 'foo', timestamp: now }, outboxId: 'abc' })
+        retryQueue.unload()
+
+        expect(mockPosthog._send_request).not.toHaveBeenCalled()
+        expect(mockPosthog._outbox.remove).not.toHaveBeenCalled()
+    })
+
     describe('backoff calculation', () => {
         const retryDelaysOne = Array.from({ length: 10 }, (_, i) => i).map((i) => {
             return pickNextRetryDelay(i + 1)
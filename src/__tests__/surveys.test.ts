@@ -1,7 +1,10 @@
 /// <reference lib="dom" />
 
+import { mockLogger } from './helpers/mock-logger'
+
 import { SURVEYS_REQUEST_TIMEOUT_MS } from '../constants'
 import { generateSurveys, getNextSurveyStep } from '../extensions/surveys'
+import { HeadlessSurvey } from '../extensions/surveys/headless-survey'
 import {
     canActivateRepeatedly,
     getDisplayOrderChoices,
@@ -264,11 +267,13 @@ describe('surveys', () => {
     it('posthog.reset() removes surveys tracking properties from storage', () => {
         localStorage.setItem('seenSurvey_XYZ', '1')
         localStorage.setItem('seenSurvey_ABC', '1')
+        localStorage.setItem('inProgressSurvey_XYZ', '{}')
         localStorage.setItem('lastSeenSurveyDate', 'some date here')
         surveys.reset()
         expect(localStorage.getItem('lastSeenSurveyDate')).toBeNull()
         expect(localStorage.getItem('seenSurvey_XYZ')).toBeNull()
         expect(localStorage.getItem('seenSurvey_ABC')).toBeNull()
+        expect(localStorage.getItem('inProgressSurvey_XYZ')).toBeNull()
     })
 
     it('getSurveys registers the survey event receiver if a survey has events', () => {
@@ -323,6 +328,62 @@ describe('surveys', () => {
         expect(instance._send_request).not.toHaveBeenCalled()
     })
 
+    describe('createController', () => {
+        beforeEach(() => {
+            surveysResponse = { surveys: surveysWithEvents }
+            assignableWindow.__PosthogExtensions__.createSurveyController = (posthog: PostHog, survey: Survey) =>
+                new HeadlessSurvey(posthog, survey)
+        })
+
+        it('calls back with null if surveys are not initialized', () => {
+            const callback = jest.fn()
+
+            surveys.createController('first-survey', callback)
+
+            expect(callback).toHaveBeenCalledWith(null)
+            expect(mockLogger.warn).toHaveBeenCalledWith('init was not called')
+        })
+
+        it('calls back with null if the surveys extension is missing', () => {
+            ;(surveys as any)._surveyManager = {}
+            delete assignableWindow.__PosthogExtensions__.createSurveyController
+            const callback = jest.fn()
+
+            surveys.createController('first-survey', callback)
+
+            expect(callback).toHaveBeenCalledWith(null)
+            expect(mockLogger.warn).toHaveBeenCalledWith(
+                'The surveys extension is not loaded. Cannot create a survey controller.'
+            )
+        })
+
+        it('calls back with null for an unknown survey', () => {
+            ;(surveys as any)._surveyManager = {}
+            const callback = jest.fn()
+
+            surveys.createController('unknown-survey', callback)
+
+            expect(callback).toHaveBeenCalledWith(null)
+        })
+
+        it('creates a controller for the survey once the surveys are fetched', () => {
+            ;(surveys as any)._surveyManager = {}
+            let respond: () => void = () => {}
+            instance._send_request = jest.fn((options) => {
+                respond = () => options.callback({ statusCode: 200, json: surveysResponse })
+            }) as any
+            const callback = jest.fn()
+
+            surveys.createController('first-survey', callback)
+            expect(callback).not.toHaveBeenCalled()
+            respond()
+
+            const controller = callback.mock.calls[0][0]
+            expect(controller?.survey.id).toEqual('first-survey')
+            expect(controller?.currentQuestionIndex).toEqual(0)
+        })
+    })
+
     describe('getActiveMatchingSurveys', () => {
         const draftSurvey: Survey = {
             name: 'draft survey',
@@ -1288,6 +1349,42 @@ describe('surveys', () => {
             expect(() => getNextSurveyStep(survey, 0, '2')).toThrow('The response type must be an integer')
             expect(() => getNextSurveyStep(survey, 0, 'some_string')).toThrow('The response type must be an integer')
         })
+
+        it('should branch on the choice ranked first', () => {
+            survey.questions = [
+                {
+                    type: SurveyQuestionType.Ranking,
+                    question: 'Rank these features',
+                    choices: ['Speed', 'Price', 'Support'],
+                    branching: { type: SurveyQuestionBranchingType.ResponseBased, responseValues: { 1: 2, 2: 'end' } },
+                },
+                { type: SurveyQuestionType.Open, question: 'Why speed?' },
+                { type: SurveyQuestionType.Open, question: 'Why price?' },
+            ] as SurveyQuestion[]
+            expect(getNextSurveyStep(survey, 0, ['Price', 'Speed', 'Support'])).toEqual(2)
+            expect(getNextSurveyStep(survey, 0, ['Support', 'Price', 'Speed'])).toEqual(SurveyQuestionBranchingType.End)
+            expect(getNextSurveyStep(survey, 0, ['Speed', 'Price', 'Support'])).toEqual(1)
+        })
+
+        it('should branch on the first row of a matrix whose answer has a branch', () => {
+            survey.questions = [
+                {
+                    type: SurveyQuestionType.Matrix,
+                    question: 'How do you feel about',
+                    rows: ['Speed', 'Price'],
+                    columns: ['Bad', 'OK', 'Good'],
+                    branching: {
+                        type: SurveyQuestionBranchingType.ResponseBased,
+                        responseValues: { '0:0': 2, '1:0': 'end' },
+                    },
+                },
+                { type: SurveyQuestionType.Open, question: 'Anything else?' },
+                { type: SurveyQuestionType.Open, question: 'What makes it slow?' },
+            ] as SurveyQuestion[]
+            expect(getNextSurveyStep(survey, 0, { Speed: 'Bad', Price: 'Bad' })).toEqual(2)
+            expect(getNextSurveyStep(survey, 0, { Speed: 'OK', Price: 'Bad' })).toEqual(SurveyQuestionBranchingType.End)
+            expect(getNextSurveyStep(survey, 0, { Speed: 'Good', Price: 'Good' })).toEqual(1)
+        })
     })
 
     describe('checkFlags', () => {
@@ -80,4 +80,14 @@ describe('request-router', () => {
         mockPostHog.config.api_host = 'https://eu.posthog.com'
         expect(router.endpointFor('api')).toEqual('https://eu.i.posthog.com')
     })
+
+    it('can create endpoints for another api host', () => {
+        const mainRouter = router('https://eu.posthog.com')
+
+        expect(mainRouter.endpointFor('api', '/e/', 'https://us.posthog.com/')).toEqual('https://us.i.posthog.com/e/')
+        expect(mainRouter.endpointFor('api', '/e/', 'https://proxy.example.com')).toEqual(
+            'https://proxy.example.com/e/'
+        )
+        expect(mainRouter.endpointFor('api', '/e/')).toEqual('https://eu.i.posthog.com/e/')
+    })
 })
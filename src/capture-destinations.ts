@@ -0,0 +1,91 @@
+import type { PostHog } from './posthog-core'
+import { CaptureDestination, CaptureResult, QueuedRequestWithOptions } from './types'
+import { createLogger } from './utils/logger'
+import { isArray, isNullish, isObject, isString } from './utils/type-utils'
+
+const logger = createLogger('[CaptureDestinations]')
+
+const isCapturedEvent = (data: unknown): data is CaptureResult =>
+    isObject(data) && isString((data as CaptureResult).event) && isObject((data as CaptureResult).properties)
+
+/**
+ * Duplicates requests carrying captured events to the additional projects configured in `destinations`,
+ * so that a single instance (one set of listeners, one recording, one cookie) can feed several projects.
+ */
+export class CaptureDestinations {
+    constructor(private readonly _instance: PostHog) {}
+
+    /**
+     * Returns one copy of the request per destination that has any events left to receive.
+     * Requests that don't carry events (e.g. flags) or that aren't sent to our api host are never duplicated.
+     */
+    fanOut(options: QueuedRequestWithOptions): QueuedRequestWithOptions[] {
+        const destinations = this._instance.config.destinations
+        if (!destinations?.length || options.destinationToken) {
+            return []
+        }
+
+        const events = isArray(options.data) ? options.data : [options.data]
+        if (!events.length || !events.every(isCapturedEvent)) {
+            return []
+        }
+
+        const apiRoot = this._instance.requestRouter.endpointFor('api')
+        if (options.url.indexOf(apiRoot) !== 0) {
+            return []
+        }
+        const path = options.url.slice(apiRoot.length)
+
+        const copies: QueuedRequestWithOptions[] = []
+        destinations.forEach((destination) => {
+            if (!destination?.token) {
+                return
+            }
+            const destinationEvents = events
+                .map((event) => this._eventFor(destination, event as CaptureResult))
+                .filter((event): event is CaptureResult => !isNullish(event))
+            if (!destinationEvents.length) {
+                return
+            }
+
+            copies.push({
+                ...options,
+                url: this._instance.requestRouter.endpointFor('api', path, destination.api_host),
+                data: isArray(options.data) ? destinationEvents : destinationEvents[0],
+                destinationToken: destination.token,
+                // the callback belongs to the request made to the main project
+                callback: undefined,
+            })
+        })
+        return copies
+    }
+
+    private _eventFor(destination: CaptureDestination, event: CaptureResult): CaptureResult | null {
+        if (destination.events && destination.events.indexOf(event.event) === -1) {
+            return null
+        }
+
+        let result: CaptureResult | null = {
+            ...event,
+            properties: { ...event.properties, token: destination.token },
+        }
+
+        const beforeSend = isNullish(destination.before_send)
+            ? []
+            : isArray(destination.before_send)
+              ? destination.before_send
+              : [destination.before_send]
+        for (const fn of beforeSend) {
+            try {
+                result = fn(result)
+            } catch (e) {
+                logger.error(`before_send for destination ${destination.token} failed, not sending the event`, e)
+                return null
+            }
+            if (isNullish(result)) {
+                return null
+            }
+        }
+        return result
+    }
+}
@@ -0,0 +1,138 @@
+import type { PostHog } from './posthog-core'
+import { CONSENT_CATEGORIES } from './consent'
+import { ConsentCategories, ConsentCategory, GoogleConsentModeAdapterConfig, TcfAdapterConfig } from './types'
+import { assignableWindow } from './utils/globals'
+import { createLogger } from './utils/logger'
+import { isFunction, isObject, isString } from './utils/type-utils'
+
+const logger = createLogger('[ConsentAdapters]')
+
+const DEFAULT_GOOGLE_CONSENT_TYPES: Record<ConsentCategory, string> = {
+    analytics: 'analytics_storage',
+    session_recording: 'analytics_storage',
+    heatmaps: 'analytics_storage',
+    exceptions: 'analytics_storage',
+    web_vitals: 'analytics_storage',
+    surveys: 'functionality_storage',
+}
+
+const DEFAULT_TCF_PURPOSES: Record<ConsentCategory, number[]> = {
+    analytics: [1, 8],
+    session_recording: [1, 8],
+    heatmaps: [1, 8],
+    exceptions: [1, 8],
+    web_vitals: [1, 8],
+    surveys: [1, 9],
+}
+
+type GoogleConsentState = Record<string, string>
+
+/**
+ * Follows Google Consent Mode v2 by reading the `gtag('consent', 'default' | 'update', {...})` commands
+ * from the `dataLayer`, both those already pushed and any pushed later.
+ */
+export class GoogleConsentModeAdapter {
+    private _defaults: GoogleConsentState = {}
+    private _updates: GoogleConsentState = {}
+    private readonly _consentTypes: Record<ConsentCategory, string>
+
+    constructor(
+        private readonly _instance: PostHog,
+        config: GoogleConsentModeAdapterConfig = {}
+    ) {
+        this._consentTypes = { ...DEFAULT_GOOGLE_CONSENT_TYPES, ...config.category_mapping }
+    }
+
+    start(): void {
+        const dataLayer: any[] = (assignableWindow.dataLayer = assignableWindow.dataLayer || [])
+        const self = this
+        const originalPush = dataLayer.push
+        // gtag pushes its `arguments` onto the dataLayer, so watching pushes sees every consent command.
+        // Google Tag Manager wraps `push` in the same way and calls whichever push it found, so both keep working
+        dataLayer.push = function (...items: any[]) {
+            const result = originalPush.apply(this, items)
+            items.forEach((item) => self._process(item))
+            return result
+        }
+        dataLayer.forEach((item) => this._process(item))
+    }
+
+    private _process(item: any): void {
+        if (!item || item[0] !== 'consent' || !isObject(item[2])) {
+            return
+        }
+        if (item[1] === 'default') {
+            this._defaults = { ...this._defaults, ...item[2] }
+        } else if (item[1] === 'update') {
+            this._updates = { ...this._updates, ...item[2] }
+        } else {
+            return
+        }
+
+        const state = { ...this._defaults, ...this._updates }
+        const categories: ConsentCategories = {}
+        CONSENT_CATEGORIES.forEach((category) => {
+            const value = state[this._consentTypes[category]]
+            // consent types the page hasn't said anything about leave the category as it was
+            if (isString(value)) {
+                categories[category] = value === 'granted'
+            }
+        })
+        this._instance.set_consent_categories(categories)
+    }
+}
+
+interface TcData {
+    eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete'
+    gdprApplies?: boolean
+    purpose?: { consents?: Record<number, boolean> }
+    vendor?: { consents?: Record<number, boolean> }
+}
+
+/**
+ * Follows an IAB TCF v2 consent management platform through `window.__tcfapi`
+ */
+export class TcfAdapter {
+    private readonly _purposes: Record<ConsentCategory, number[]>
+
+    constructor(
+        private readonly _instance: PostHog,
+        private readonly _config: TcfAdapterConfig = {}
+    ) {
+        this._purposes = { ...DEFAULT_TCF_PURPOSES, ..._config.category_purposes }
+    }
+
+    start(): void {
+        const tcfapi = assignableWindow.__tcfapi
+        if (!isFunction(tcfapi)) {
+            logger.warn('window.__tcfapi was not found, the CMP script has to be loaded before PostHog is initialized')
+            return
+        }
+        try {
+            tcfapi('addEventListener', 2, (tcData: TcData | null, success: boolean) => {
+                if (success && tcData) {
+                    this._onTcData(tcData)
+                }
+            })
+        } catch (e) {
+            logger.error('could not listen to the TCF API', e)
+        }
+    }
+
+    private _onTcData(tcData: TcData): void {
+        // `cmpuishown` means the user is still deciding
+        if (tcData.eventStatus !== 'tcloaded' && tcData.eventStatus !== 'useractioncomplete') {
+            return
+        }
+
+        const vendorId = this._config.vendor_id
+        const vendorConsent = !vendorId || !!tcData.vendor?.consents?.[vendorId]
+        const categories: ConsentCategories = {}
+        CONSENT_CATEGORIES.forEach((category) => {
+            categories[category] =
+                tcData.gdprApplies === false ||
+                (vendorConsent && this._purposes[category].every((purpose) => !!tcData.purpose?.consents?.[purpose]))
+        })
+        this._instance.set_consent_categories(categories)
+    }
+}
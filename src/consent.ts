@@ -2,10 +2,35 @@ import { PostHog } from './posthog-core'
 import { find } from './utils'
 import { assignableWindow, navigator } from './utils/globals'
 import { cookieStore, localStore } from './storage'
-import { PersistentStore } from './types'
+import { ConsentCategories, ConsentCategory, EventName, PersistentStore } from './types'
 import { includes } from './utils/string-utils'
+import { isBoolean, isObject } from './utils/type-utils'
 
 const OPT_OUT_PREFIX = '__ph_opt_in_out_'
+const CATEGORIES_SUFFIX = '_categories'
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = [
+    'analytics',
+    'session_recording',
+    'heatmaps',
+    'surveys',
+    'exceptions',
+    'web_vitals',
+]
+
+// events that aren't listed here are analytics
+const EVENT_CONSENT_CATEGORIES: Record<string, ConsentCategory> = {
+    $snapshot: 'session_recording',
+    $$heatmap: 'heatmaps',
+    $exception: 'exceptions',
+    $web_vitals: 'web_vitals',
+    'survey shown': 'surveys',
+    'survey sent': 'surveys',
+    'survey dismissed': 'surveys',
+}
+
+export const consentCategoryForEvent = (eventName: EventName): ConsentCategory =>
+    EVENT_CONSENT_CATEGORIES[eventName] || 'analytics'
 
 export enum ConsentStatus {
     PENDING = -1,
@@ -54,8 +79,53 @@ export class ConsentManager {
         )
     }
 
+    /**
+     * Whether the given category may run. Opting out of capturing withholds consent for every category.
+     */
+    public isGranted(category: ConsentCategory): boolean {
+        if (this.isOptedOut()) {
+            return false
+        }
+        const stored = this.storedCategories[category]
+        if (isBoolean(stored)) {
+            return stored
+        }
+        const defaultConsent = this.config.default_consent_categories?.[category]
+        return isBoolean(defaultConsent) ? defaultConsent : true
+    }
+
+    public get categories(): Record<ConsentCategory, boolean> {
+        return CONSENT_CATEGORIES.reduce(
+            (acc, category) => {
+                acc[category] = this.isGranted(category)
+                return acc
+            },
+            {} as Record<ConsentCategory, boolean>
+        )
+    }
+
+    /**
+     * Updates the given categories, leaving the others as they were
+     */
+    public setCategories(categories: ConsentCategories) {
+        const updated: ConsentCategories = { ...this.storedCategories }
+        CONSENT_CATEGORIES.forEach((category) => {
+            if (isBoolean(categories[category])) {
+                updated[category] = categories[category]
+            }
+        })
+        this.storage.set(
+            this.categoriesStorageKey,
+            updated,
+            this.config.cookie_expiration,
+            this.config.cross_subdomain_cookie,
+            this.config.secure_cookie
+        )
+    }
+
     public reset() {
         this.storage.remove(this.storageKey, this.config.cross_subdomain_cookie)
+        this.storage.remove(this.categoriesStorageKey, this.config.cross_subdomain_cookie)
     }
 
     private get storageKey() {
@@ -63,6 +133,15 @@ export class ConsentManager {
         return (opt_out_capturing_cookie_prefix || OPT_OUT_PREFIX) + token
     }
 
+    private get categoriesStorageKey() {
+        return this.storageKey + CATEGORIES_SUFFIX
+    }
+
+    private get storedCategories(): ConsentCategories {
+        const stored = this.storage.parse(this.categoriesStorageKey)
+        return isObject(stored) ? stored : {}
+    }
+
     private get storedConsent(): ConsentStatus {
         const value = this.storage.get(this.storageKey)
         return value === '1' ? ConsentStatus.GRANTED : value === '0' ? ConsentStatus.DENIED : ConsentStatus.PENDING
@@ -33,11 +33,15 @@ export const SESSION_RECORDING_EVENT_TRIGGER_STATUS = '$session_recording_event_
 export const ENABLED_FEATURE_FLAGS = '$enabled_feature_flags'
 export const PERSISTENCE_EARLY_ACCESS_FEATURES = '$early_access_features'
 export const PERSISTENCE_FEATURE_FLAG_DETAILS = '$feature_flag_details'
+export const PERSISTENCE_FEATURE_FLAGS_FETCHED_AT = '$feature_flags_fetched_at'
+export const FLAG_URL_OVERRIDES = '$flag_url_overrides'
+export const STICKY_FEATURE_FLAGS = '$sticky_feature_flags'
 export const STORED_PERSON_PROPERTIES_KEY = '$stored_person_properties'
 export const STORED_GROUP_PROPERTIES_KEY = '$stored_group_properties'
 export const SURVEYS = '$surveys'
 export const SURVEYS_ACTIVATED = '$surveys_activated'
 export const FLAG_CALL_REPORTED = '$flag_call_reported'
+export const EXPERIMENT_EXPOSURES_REPORTED = '$experiment_exposures_reported'
 export const USER_STATE = '$user_state'
 export const CLIENT_SESSION_PROPS = '$client_session_props'
 export const CAPTURE_RATE_LIMIT = '$capture_rate_limit'
@@ -73,10 +77,14 @@ export const PERSISTENCE_RESERVED_PROPERTIES = [
     USER_STATE,
     PERSISTENCE_EARLY_ACCESS_FEATURES,
     PERSISTENCE_FEATURE_FLAG_DETAILS,
+    PERSISTENCE_FEATURE_FLAGS_FETCHED_AT,
+    FLAG_URL_OVERRIDES,
+    STICKY_FEATURE_FLAGS,
     STORED_GROUP_PROPERTIES_KEY,
     STORED_PERSON_PROPERTIES_KEY,
     SURVEYS,
     FLAG_CALL_REPORTED,
+    EXPERIMENT_EXPOSURES_REPORTED,
     CLIENT_SESSION_PROPS,
     CAPTURE_RATE_LIMIT,
     INITIAL_CAMPAIGN_PARAMS,
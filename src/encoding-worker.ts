@@ -0,0 +1,128 @@
+import { window } from './utils/globals'
+import { createLogger } from './utils/logger'
+import { isFunction, isUndefined } from './utils/type-utils'
+
+const logger = createLogger('[EncodingWorker]')
+
+// if the worker hasn't answered by then, we'd rather pay for encoding on the main thread than hold on to the request
+const ENCODE_TIMEOUT_MS = 5000
+
+/**
+ * The worker is created from this source via a Blob URL, so it has to be self-contained (no imports)
+ * and written in ES5 like the rest of our bundle output.
+ * It mirrors `jsonStringify` and gzips with the browser's native CompressionStream.
+ */
+const WORKER_SOURCE = `
+self.onmessage = function (e) {
+    var id = e.data.id
+    try {
+        var json = JSON.stringify(e.data.data, function (_, value) {
+            return typeof value === 'bigint' ? value.toString() : value
+        })
+        var stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'))
+        new Response(stream).arrayBuffer().then(
+            function (buffer) {
+                self.postMessage({ id: id, buffer: buffer }, [buffer])
+            },
+            function (err) {
+                self.postMessage({ id: id, error: String(err) })
+            }
+        )
+    } catch (err) {
+        self.postMessage({ id: id, error: String(err) })
+    }
+}
+`
+
+interface WorkerResponse {
+    id: number
+    buffer?: ArrayBuffer
+    error?: string
+}
+
+type EncodeCallback = (gzipped: Uint8Array | undefined) => void
+
+/**
+ * Stringifies and gzips request payloads off the main thread.
+ *
+ * Any failure results in the callback being called with `undefined`,
+ * which tells the caller to fall back to encoding synchronously.
+ * Once the worker itself errors (e.g. it was blocked by a CSP) it is never used again.
+ */
+export class EncodingWorker {
+    private _nextId = 0
+    private _pending: Record<number, { callback: EncodeCallback; timeout: ReturnType<typeof setTimeout> }> = {}
+    private _broken = false
+
+    private constructor(private readonly _worker: Worker) {
+        _worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+            const { id, buffer, error } = e.data
+            if (error) {
+                logger.warn('could not encode in worker, falling back to the main thread', error)
+            }
+            this._resolve(id, buffer ? new Uint8Array(buffer) : undefined)
+        }
+        _worker.onerror = (e) => {
+            logger.error('worker failed, encoding on the main thread from now on', e)
+            this._broken = true
+            Object.keys(this._pending).forEach((id) => this._resolve(Number(id), undefined))
+        }
+    }
+
+    /**
+     * Returns undefined when the browser can't run the worker, in which case requests are encoded synchronously as before
+     */
+    static create(): EncodingWorker | undefined {
+        const win = window as any
+        if (!win || !isFunction(win.Worker) || isUndefined(win.CompressionStream) || !win.URL?.createObjectURL) {
+            logger.info('web workers or CompressionStream are not supported, encoding on the main thread')
+            return undefined
+        }
+
+        try {
+            const url = win.URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'application/javascript' }))
+            return new EncodingWorker(new win.Worker(url))
+        } catch (e) {
+            logger.warn('could not create worker, encoding on the main thread', e)
+            return undefined
+        }
+    }
+
+    get isAvailable(): boolean {
+        return !this._broken
+    }
+
+    gzip(data: any, callback: EncodeCallback): void {
+        if (this._broken) {
+            return callback(undefined)
+        }
+
+        const id = this._nextId++
+        this._pending[id] = {
+            callback,
+            timeout: setTimeout(() => {
+                logger.warn('timed out waiting for worker, encoding on the main thread')
+                this._resolve(id, undefined)
+            }, ENCODE_TIMEOUT_MS),
+        }
+
+        try {
+            this._worker.postMessage({ id, data })
+        } catch (e) {
+            // most likely the data can't be structured cloned
+            logger.warn('could not send data to worker, encoding on the main thread', e)
+            this._resolve(id, undefined)
+        }
+    }
+
+    private _resolve(id: number, gzipped: Uint8Array | undefined): void {
+        const pending = this._pending[id]
+        if (!pending) {
+            // we already gave up on this one
+            return
+        }
+        delete this._pending[id]
+        clearTimeout(pending.timeout)
+        pending.callback(gzipped)
+    }
+}
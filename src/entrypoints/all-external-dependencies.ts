@@ -1,5 +1,6 @@
 import './recorder'
 import './surveys'
+import './early-access-features'
 import './exception-autocapture'
 import './tracing-headers'
 import './web-vitals'
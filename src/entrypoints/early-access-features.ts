@@ -0,0 +1,8 @@
+import { renderEarlyAccessFeatures } from '../extensions/early-access-features'
+
+import { assignableWindow } from '../utils/globals'
+
+assignableWindow.__PosthogExtensions__ = assignableWindow.__PosthogExtensions__ || {}
+assignableWindow.__PosthogExtensions__.renderEarlyAccessFeatures = renderEarlyAccessFeatures
+
+export default renderEarlyAccessFeatures
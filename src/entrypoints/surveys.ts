@@ -2,10 +2,12 @@ import { generateSurveys } from '../extensions/surveys'
 
 import { assignableWindow } from '../utils/globals'
 import { canActivateRepeatedly } from '../extensions/surveys/surveys-utils'
+import { HeadlessSurvey } from '../extensions/surveys/headless-survey'
 
 assignableWindow.__PosthogExtensions__ = assignableWindow.__PosthogExtensions__ || {}
 assignableWindow.__PosthogExtensions__.canActivateRepeatedly = canActivateRepeatedly
 assignableWindow.__PosthogExtensions__.generateSurveys = generateSurveys
+assignableWindow.__PosthogExtensions__.createSurveyController = (posthog, survey) => new HeadlessSurvey(posthog, survey)
 
 // this used to be directly on window, but we moved it to __PosthogExtensions__
 // it is still on window for backwards compatibility
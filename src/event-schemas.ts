@@ -0,0 +1,168 @@
+import type { PostHog } from './posthog-core'
+import { CaptureResult, EventName, EventSchema, EventSchemaOptions, EventSchemaType, Properties } from './types'
+import { createLogger } from './utils/logger'
+import { isArray, isBoolean, isNull, isNumber, isObject, isString, isUndefined } from './utils/type-utils'
+
+const logger = createLogger('[EventSchemas]')
+
+const typeOf = (value: unknown): EventSchemaType | 'undefined' => {
+    if (isNull(value)) {
+        return 'null'
+    }
+    if (isArray(value)) {
+        return 'array'
+    }
+    if (isNumber(value)) {
+        return value % 1 === 0 ? 'integer' : 'number'
+    }
+    if (isString(value)) {
+        return 'string'
+    }
+    if (isBoolean(value)) {
+        return 'boolean'
+    }
+    if (isObject(value)) {
+        return 'object'
+    }
+    return 'undefined'
+}
+
+const matchesType = (actual: EventSchemaType | 'undefined', expected: EventSchemaType): boolean =>
+    actual === expected || (expected === 'number' && actual === 'integer')
+
+const describeValue = (value: unknown): string => (isString(value) ? `"${value}"` : String(value))
+
+/**
+ * Checks the value against the schema and returns a human-readable description of each violation,
+ * prefixed with the path to the offending value, e.g. `items[0].price should be >= 0`.
+ */
+export function validateAgainstSchema(value: unknown, schema: EventSchema, path: string = ''): string[] {
+    const label = path || 'properties'
+    const actualType = typeOf(value)
+
+    if (schema.type) {
+        const expectedTypes: readonly EventSchemaType[] = isArray(schema.type) ? schema.type : [schema.type]
+        if (!expectedTypes.some((t) => matchesType(actualType, t))) {
+            // nothing else can be meaningfully checked against a value of the wrong type
+            return [`${label} should be of type ${expectedTypes.join(' or ')} but was ${actualType}`]
+        }
+    }
+
+    if (schema.enum && schema.enum.indexOf(value as any) === -1) {
+        return [`${label} should be one of ${schema.enum.map(describeValue).join(', ')}`]
+    }
+
+    const violations: string[] = []
+
+    if (isString(value)) {
+        if (isNumber(schema.minLength) && value.length < schema.minLength) {
+            violations.push(`${label} should have at least ${schema.minLength} characters`)
+        }
+        if (isNumber(schema.maxLength) && value.length > schema.maxLength) {
+            violations.push(`${label} should have at most ${schema.maxLength} characters`)
+        }
+        if (schema.pattern) {
+            try {
+                if (!new RegExp(schema.pattern).test(value)) {
+                    violations.push(`${label} should match ${schema.pattern}`)
+                }
+            } catch (e) {
+                logger.error(`invalid pattern ${schema.pattern} in schema`, e)
+            }
+        }
+    }
+
+    if (isNumber(value)) {
+        if (isNumber(schema.minimum) && value < schema.minimum) {
+            violations.push(`${label} should be >= ${schema.minimum}`)
+        }
+        if (isNumber(schema.maximum) && value > schema.maximum) {
+            violations.push(`${label} should be <= ${schema.maximum}`)
+        }
+    }
+
+    if (isArray(value)) {
+        if (isNumber(schema.minItems) && value.length < schema.minItems) {
+            violations.push(`${label} should have at least ${schema.minItems} items`)
+        }
+        if (isNumber(schema.maxItems) && value.length > schema.maxItems) {
+            violations.push(`${label} should have at most ${schema.maxItems} items`)
+        }
+        if (schema.items) {
+            value.forEach((item, index) => {
+                violations.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`))
+            })
+        }
+    }
+
+    if (actualType === 'object') {
+        const obj = value as Record<string, unknown>
+        const prefix = path ? `${path}.` : ''
+        schema.required?.forEach((key) => {
+            if (isUndefined(obj[key])) {
+                violations.push(`${prefix}${key} is required`)
+            }
+        })
+        const properties = schema.properties || {}
+        Object.keys(obj).forEach((key) => {
+            const propertySchema = properties[key]
+            if (propertySchema) {
+                if (!isUndefined(obj[key])) {
+                    violations.push(...validateAgainstSchema(obj[key], propertySchema, `${prefix}${key}`))
+                }
+            } else if (schema.additionalProperties === false && key[0] !== '$') {
+                violations.push(`${prefix}${key} is not an allowed property`)
+            }
+        })
+    }
+
+    return violations
+}
+
+/**
+ * Holds the schemas registered with `posthog.registerEventSchema`
+ * and validates captured events against them before they reach `before_send`.
+ *
+ * Only the properties passed to `capture` are validated, not the ones the SDK adds itself
+ * (e.g. `distinct_id`, `token` or registered super properties), which the schema doesn't know about.
+ */
+export class EventSchemas {
+    private _schemas: Record<string, { schema: EventSchema; options: EventSchemaOptions }> = {}
+
+    constructor(private readonly _instance: PostHog) {}
+
+    register(eventName: EventName, schema: EventSchema, options: EventSchemaOptions = {}): void {
+        if (!isString(eventName) || !isObject(schema)) {
+            logger.error('registerEventSchema requires an event name and a schema')
+            return
+        }
+        this._schemas[eventName] = { schema, options }
+    }
+
+    unregister(eventName: EventName): void {
+        delete this._schemas[eventName]
+    }
+
+    /**
+     * Returns the event, possibly tagged with its violations, or null if it should be dropped
+     */
+    validate(data: CaptureResult, properties: Properties): CaptureResult | null {
+        const registered = this._schemas[data.event]
+        if (!registered) {
+            return data
+        }
+
+        const violations = validateAgainstSchema(properties, registered.schema)
+        if (!violations.length) {
+            return data
+        }
+
+        const mode = registered.options.mode || this._instance.config.schema_violation_mode || 'warn'
+        if (mode === 'tag') {
+            return { ...data, properties: { ...data.properties, $schema_violations: violations } }
+        }
+
+        logger.warn(`Event "${data.event}" does not match its schema:`, violations)
+        return mode === 'drop' ? null : data
+    }
+}
@@ -0,0 +1,317 @@
+import { PostHog } from '../posthog-core'
+import { jsonStringify } from '../request'
+import { localStore } from '../storage'
+import { CaptureResult } from '../types'
+import { addEventListener } from '../utils'
+import { document, location } from '../utils/globals'
+import { createLogger } from '../utils/logger'
+import { isString, isUndefined } from '../utils/type-utils'
+import { prepareStylesheet } from './utils/stylesheet-loader'
+
+const logger = createLogger('[DebugPanel]')
+
+export const DEBUG_PANEL_STORAGE_KEY = 'ph_debug_panel'
+const MAX_EVENTS = 100
+const REFRESH_INTERVAL_MS = 1000
+
+/**
+ * What `before_send` did with an event. `none` when there is no `before_send` configured.
+ */
+export type BeforeSendOutcome = 'none' | 'kept' | 'modified' | 'dropped'
+
+export interface DebugPanelEvent {
+    event: CaptureResult
+    outcome: BeforeSendOutcome
+}
+
+const STYLES = `
+    .ph-debug-panel {
+        position: fixed;
+        bottom: 12px;
+        right: 12px;
+        width: 420px;
+        max-height: 70vh;
+        display: flex;
+        flex-direction: column;
+        background: #fff;
+        color: #1d1f27;
+        border: 1px solid #d0d1d4;
+        border-radius: 6px;
+        box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+        font: 12px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        z-index: 2147483647;
+    }
+    .ph-debug-panel header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 6px 10px;
+        font-weight: 600;
+        border-bottom: 1px solid #d0d1d4;
+    }
+    .ph-debug-panel button {
+        border: none;
+        background: none;
+        cursor: pointer;
+        font: inherit;
+    }
+    .ph-debug-panel-body {
+        overflow: auto;
+        padding: 0 10px 10px;
+    }
+    .ph-debug-panel.collapsed .ph-debug-panel-body {
+        display: none;
+    }
+    .ph-debug-panel h4 {
+        margin: 10px 0 4px;
+        font-size: 11px;
+        text-transform: uppercase;
+        color: #747ea1;
+    }
+    .ph-debug-panel dl {
+        display: grid;
+        grid-template-columns: max-content 1fr;
+        gap: 2px 8px;
+        margin: 0;
+    }
+    .ph-debug-panel dd {
+        margin: 0;
+        word-break: break-all;
+    }
+    .ph-debug-panel summary {
+        cursor: pointer;
+    }
+    .ph-debug-panel pre {
+        margin: 4px 0;
+        padding: 6px;
+        background: #f3f4ef;
+        white-space: pre-wrap;
+        word-break: break-all;
+    }
+    .ph-debug-outcome {
+        display: inline-block;
+        margin-right: 6px;
+        padding: 0 4px;
+        border-radius: 3px;
+        background: #e5e7e0;
+    }
+    .ph-debug-outcome.modified {
+        background: #fce8b2;
+    }
+    .ph-debug-outcome.dropped {
+        background: #f9c9c9;
+    }
+`
+
+/**
+ * An overlay for checking what the SDK is doing without digging through the console and the network tab.
+ * It lists captured events and what `before_send` did with them, the current flags, and the state of
+ * the session, replay, consent and request queues.
+ */
+export class DebugPanel {
+    private _events: DebugPanelEvent[] = []
+    private _container: HTMLElement | undefined
+    private _stateList: HTMLElement | undefined
+    private _flagList: HTMLElement | undefined
+    private _eventsHeading: HTMLElement | undefined
+    private _eventList: HTMLElement | undefined
+    private _refreshInterval: ReturnType<typeof setInterval> | undefined
+    private _removeEventCapturedHook: (() => void) | undefined
+    private _removeFeatureFlagsHook: (() => void) | undefined
+    private _pendingOutcome: DebugPanelEvent | undefined
+
+    constructor(private readonly _instance: PostHog) {}
+
+    /**
+     * Enabled with `posthog.debug({ panel: true })`, which is remembered until `posthog.debug(false)`,
+     * or for a single page load with `?__posthog_debug=true`
+     */
+    public get isEnabled(): boolean {
+        const fromUrl = isString(location?.search) && location.search.indexOf('__posthog_debug=true') !== -1
+        return fromUrl || (localStore.is_supported() && localStore.get(DEBUG_PANEL_STORAGE_KEY) === 'true')
+    }
+
+    public get isStarted(): boolean {
+        return !!this._removeEventCapturedHook
+    }
+
+    public get events(): DebugPanelEvent[] {
+        return this._events
+    }
+
+    public startIfEnabled(): void {
+        if (!this.isEnabled || this.isStarted || !document) {
+            return
+        }
+
+        logger.info('starting...')
+        this._removeEventCapturedHook = this._instance.on('eventCaptured', (event: CaptureResult) =>
+            this._onEventCaptured(event)
+        )
+        this._removeFeatureFlagsHook = this._instance.onFeatureFlags(() => this._render())
+
+        if (document.body) {
+            this._mount()
+        } else {
+            addEventListener(document, 'DOMContentLoaded', () => this._mount())
+        }
+    }
+
+    public stop(): void {
+        this._removeEventCapturedHook?.()
+        this._removeEventCapturedHook = undefined
+        this._removeFeatureFlagsHook?.()
+        this._removeFeatureFlagsHook = undefined
+        clearInterval(this._refreshInterval)
+        this._refreshInterval = undefined
+        this._container?.parentNode?.removeChild(this._container)
+        this._container = undefined
+        this._stateList = this._flagList = this._eventsHeading = this._eventList = undefined
+        this._events = []
+    }
+
+    /**
+     * Returns a copy of the event to compare with what `before_send` returns,
+     * or undefined when the panel isn't running, so that it costs nothing then
+     */
+    public snapshot(event: CaptureResult): string | undefined {
+        return this.isStarted ? jsonStringify(event) : undefined
+    }
+
+    public onBeforeSend(snapshot: string | undefined, result: CaptureResult | null): void {
+        if (isUndefined(snapshot)) {
+            return
+        }
+        if (!result) {
+            // a dropped event never reaches `eventCaptured`
+            this._addEvent({ event: JSON.parse(snapshot), outcome: 'dropped' })
+            return
+        }
+        this._pendingOutcome = { event: result, outcome: jsonStringify(result) === snapshot ? 'kept' : 'modified' }
+    }
+
+    private _onEventCaptured(event: CaptureResult): void {
+        const outcome = this._pendingOutcome?.event === event ? this._pendingOutcome.outcome : 'none'
+        this._pendingOutcome = undefined
+        this._addEvent({ event, outcome })
+    }
+
+    private _addEvent(entry: DebugPanelEvent): void {
+        this._events.unshift(entry)
+        if (this._events.length > MAX_EVENTS) {
+            this._events.pop()
+            this._eventList?.lastChild && this._eventList.removeChild(this._eventList.lastChild)
+        }
+        if (this._eventList) {
+            this._eventList.insertBefore(this._eventDetails(entry), this._eventList.firstChild)
+        }
+        this._render()
+    }
+
+    private _mount(): void {
+        if (this._container || !this.isStarted || !document?.body) {
+            return
+        }
+
+        this._container = document.createElement('div')
+        this._container.className = 'ph-debug-panel-host'
+        const shadow = this._container.attachShadow({ mode: 'open' })
+        const stylesheet = prepareStylesheet(document, STYLES, this._instance)
+        if (stylesheet) {
+            shadow.appendChild(stylesheet)
+        }
+
+        const panel = this._element('div', 'ph-debug-panel')
+        const header = this._element('header', '', 'PostHog debug')
+        const toggle = this._element('button', '', '–')
+        toggle.onclick = () => {
+            const collapsed = panel.classList.toggle('collapsed')
+            toggle.textContent = collapsed ? '+' : '–'
+        }
+        header.appendChild(toggle)
+        panel.appendChild(header)
+
+        const body = panel.appendChild(this._element('div', 'ph-debug-panel-body'))
+        body.appendChild(this._element('h4', '', 'State'))
+        this._stateList = body.appendChild(this._element('dl'))
+        body.appendChild(this._element('h4', '', 'Feature flags'))
+        this._flagList = body.appendChild(this._element('dl'))
+        this._eventsHeading = body.appendChild(this._element('h4'))
+        // events are only ever added, so that the ones the user expanded stay expanded
+        this._eventList = body.appendChild(this._element('div'))
+        this._events.forEach((entry) => this._eventList!.appendChild(this._eventDetails(entry)))
+
+        shadow.appendChild(panel)
+        document.body.appendChild(this._container)
+
+        // nothing tells us when e.g. the session rotates or the queue is flushed, so the state is polled
+        this._refreshInterval = setInterval(() => this._render(), REFRESH_INTERVAL_MS)
+        this._render()
+    }
+
+    private _render(): void {
+        if (!this._stateList || !this._flagList || !this._eventsHeading) {
+            return
+        }
+        this._fillList(this._stateList, this._state())
+        this._fillList(this._flagList, this._flags())
+        this._eventsHeading.textContent = `Events (${this._events.length})`
+    }
+
+    private _state(): [string, string][] {
+        const instance = this._instance
+        const { sessionId, windowId } = instance.sessionManager?.checkAndGetSessionAndWindowId(true) ?? {}
+        const consent = instance.get_consent_categories()
+        const grantedCategories = Object.keys(consent).filter((category) => consent[category as keyof typeof consent])
+        return [
+            ['distinct id', instance.get_distinct_id()],
+            ['session id', sessionId ?? '-'],
+            ['window id', windowId ?? '-'],
+            ['replay', instance.sessionRecording?.status ?? 'not loaded'],
+            ['opted out', String(instance.has_opted_out_capturing())],
+            ['consent', grantedCategories.join(', ') || 'none'],
+            ['queued requests', String(instance._requestQueue?.length ?? 0)],
+            ['retrying requests', String(instance._retryQueue?.length ?? 0)],
+        ]
+    }
+
+    private _flags(): [string, string][] {
+        const variants = this._instance.featureFlags.getFlagVariants()
+        const details = this._instance.featureFlags.getFlagsWithDetails()
+        return Object.keys(variants).map((key) => {
+            const reason = details[key]?.reason
+            const description = reason ? ` (${reason.description || reason.code})` : ''
+            return [key, `${variants[key]}${description}`]
+        })
+    }
+
+    private _element<K extends keyof HTMLElementTagNameMap>(
+        tagName: K,
+        className: string = '',
+        text: string = ''
+    ): HTMLElementTagNameMap[K] {
+        const element = document!.createElement(tagName)
+        element.className = className
+        element.textContent = text
+        return element
+    }
+
+    private _fillList(list: HTMLElement, rows: [string, string][]): void {
+        list.innerHTML = ''
+        rows.forEach(([term, description]) => {
+            list.appendChild(this._element('dt', '', term))
+            list.appendChild(this._element('dd', '', description))
+        })
+    }
+
+    private _eventDetails({ event, outcome }: DebugPanelEvent): HTMLElement {
+        const details = this._element('details')
+        const summary = details.appendChild(this._element('summary'))
+        if (outcome !== 'none') {
+            summary.appendChild(this._element('span', `ph-debug-outcome ${outcome}`, outcome))
+        }
+        summary.appendChild(document!.createTextNode(event.event))
+        details.appendChild(this._element('pre', '', jsonStringify(event.properties, 2)))
+        return details
+    }
+}
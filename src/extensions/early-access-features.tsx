@@ -0,0 +1,279 @@
+import * as Preact from 'preact'
+import { useEffect, useState } from 'preact/hooks'
+
+import { PostHog } from '../posthog-core'
+import {
+    EarlyAccessFeature,
+    EarlyAccessFeaturesAppearance,
+    EarlyAccessFeaturesWidgetOptions,
+    EarlyAccessFeatureStage,
+} from '../types'
+import { document as _document } from '../utils/globals'
+import { createLogger } from '../utils/logger'
+import { getContrastingTextColor, getFontFamily, SURVEY_DEFAULT_Z_INDEX } from './surveys/surveys-utils'
+import { prepareStylesheet } from './utils/stylesheet-loader'
+
+const logger = createLogger('[EarlyAccessFeatures]')
+
+// We cast the types here which is dangerous but protected by the top level renderEarlyAccessFeatures call
+const document = _document as Document
+
+const DEFAULT_STAGES: EarlyAccessFeatureStage[] = ['beta', 'alpha', 'concept']
+
+const STAGE_LABELS: Record<EarlyAccessFeatureStage, string> = {
+    concept: 'Coming soon',
+    alpha: 'Alpha',
+    beta: 'Beta',
+    'general-availability': 'Released',
+}
+
+export const style = (appearance: EarlyAccessFeaturesAppearance = {}, floating: boolean) => {
+    const backgroundColor = appearance.backgroundColor || '#ffffff'
+    const accentColor = appearance.accentColor || '#1d4aff'
+    const side = appearance.position || 'right'
+    const zIndex = parseInt(appearance.zIndex || SURVEY_DEFAULT_Z_INDEX.toString())
+
+    return `
+        .early-access-features {
+            box-sizing: border-box;
+            max-width: ${parseInt(appearance.maxWidth || '360')}px;
+            width: 100%;
+            padding: 16px 20px;
+            background: ${backgroundColor};
+            color: ${getContrastingTextColor(backgroundColor)};
+            border: 1.5px solid ${appearance.borderColor || '#c9c6c6'};
+            border-radius: 10px;
+            font-family: ${getFontFamily(appearance.fontFamily)};
+            font-size: 14px;
+            text-align: left;
+            ${
+                floating
+                    ? `
+            position: fixed;
+            bottom: 30px;
+            ${side}: 30px;
+            max-height: 70vh;
+            overflow-y: auto;
+            z-index: ${zIndex};
+            box-shadow: 0 4px 28px rgb(0 0 0 / 12%);`
+                    : ''
+            }
+        }
+        .early-access-features-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 8px;
+        }
+        .early-access-features-title {
+            margin: 0;
+            font-size: 16px;
+        }
+        .early-access-features-close {
+            border: none;
+            background: none;
+            color: inherit;
+            cursor: pointer;
+            font-size: 18px;
+        }
+        .early-access-features-stage {
+            margin: 16px 0 4px;
+            font-size: 12px;
+            font-weight: 600;
+            text-transform: uppercase;
+            opacity: 0.6;
+        }
+        .early-access-feature {
+            display: flex;
+            gap: 12px;
+            justify-content: space-between;
+            align-items: flex-start;
+            padding: 8px 0;
+        }
+        .early-access-feature-name {
+            font-weight: 600;
+        }
+        .early-access-feature-description {
+            margin: 2px 0 0;
+            opacity: 0.8;
+        }
+        .early-access-feature a {
+            color: ${accentColor};
+        }
+        .early-access-feature-toggle {
+            flex-shrink: 0;
+            width: 36px;
+            height: 20px;
+            padding: 2px;
+            border: none;
+            border-radius: 10px;
+            background: #c9c6c6;
+            cursor: pointer;
+        }
+        .early-access-feature-toggle[aria-checked='true'] {
+            background: ${accentColor};
+        }
+        .early-access-feature-toggle span {
+            display: block;
+            width: 16px;
+            height: 16px;
+            border-radius: 50%;
+            background: white;
+        }
+        .early-access-feature-toggle[aria-checked='true'] span {
+            margin-left: 16px;
+        }
+        .early-access-features-tab {
+            position: fixed;
+            top: 50%;
+            ${side}: 0;
+            background: ${appearance.widgetColor || '#1d4aff'};
+            color: ${getContrastingTextColor(appearance.widgetColor || '#1d4aff')};
+            transform: rotate(${side === 'right' ? -90 : 90}deg) translate(0, -100%);
+            transform-origin: ${side} top;
+            padding: 8px 12px;
+            border: none;
+            border-radius: 3px 3px 0 0;
+            font-family: ${getFontFamily(appearance.fontFamily)};
+            font-weight: 500;
+            cursor: pointer;
+            z-index: ${zIndex};
+        }
+    `
+}
+
+const isEnrolled = (posthog: PostHog, feature: EarlyAccessFeature): boolean =>
+    !!feature.flagKey && !!posthog.isFeatureEnabled(feature.flagKey, { send_event: false })
+
+export function EarlyAccessFeatureList({
+    posthog,
+    options,
+    onClose,
+}: {
+    posthog: PostHog
+    options: EarlyAccessFeaturesWidgetOptions
+    onClose?: () => void
+}) {
+    const [features, setFeatures] = useState<EarlyAccessFeature[]>([])
+    // bumped whenever flags change, as that's where enrollment is kept
+    const [, setFlagsVersion] = useState(0)
+    const stages = options.stages || DEFAULT_STAGES
+
+    useEffect(() => {
+        posthog.getEarlyAccessFeatures((loaded) => setFeatures(loaded), true, stages)
+        return posthog.onFeatureFlags(() => setFlagsVersion((version) => version + 1))
+    }, [posthog])
+
+    const toggle = (feature: EarlyAccessFeature) => {
+        posthog.updateEarlyAccessFeatureEnrollment(feature.flagKey as string, !isEnrolled(posthog, feature))
+        // the flag might be rolled out by more than enrollment, e.g. to a whole company
+        posthog.reloadFeatureFlags()
+    }
+
+    return (
+        <div className="early-access-features">
+            <div className="early-access-features-header">
+                <h3 className="early-access-features-title">{options.title || 'Early access features'}</h3>
+                {onClose && (
+                    <button className="early-access-features-close" aria-label="Close" onClick={onClose}>
+                        ×
+                    </button>
+                )}
+            </div>
+            {stages.map((stage) => {
+                const inStage = features.filter((feature) => feature.stage === stage)
+                if (!inStage.length) {
+                    return null
+                }
+                return (
+                    <div key={stage}>
+                        <h4 className="early-access-features-stage">{STAGE_LABELS[stage]}</h4>
+                        {inStage.map((feature) => (
+                            <div className="early-access-feature" key={feature.flagKey || feature.name}>
+                                <div>
+                                    <div className="early-access-feature-name">{feature.name}</div>
+                                    {feature.description && (
+                                        <p className="early-access-feature-description">{feature.description}</p>
+                                    )}
+                                    {feature.documentationUrl && (
+                                        <a href={feature.documentationUrl} target="_blank" rel="noopener noreferrer">
+                                            Learn more
+                                        </a>
+                                    )}
+                                </div>
+                                {feature.flagKey && (
+                                    <button
+                                        className="early-access-feature-toggle"
+                                        role="switch"
+                                        aria-checked={isEnrolled(posthog, feature)}
+                                        aria-label={feature.name}
+                                        onClick={() => toggle(feature)}
+                                    >
+                                        <span />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
+
+export function EarlyAccessFeaturesTab({
+    posthog,
+    options,
+}: {
+    posthog: PostHog
+    options: EarlyAccessFeaturesWidgetOptions
+}) {
+    const [isOpen, setIsOpen] = useState(false)
+
+    return isOpen ? (
+        <EarlyAccessFeatureList posthog={posthog} options={options} onClose={() => setIsOpen(false)} />
+    ) : (
+        <button className="early-access-features-tab" onClick={() => setIsOpen(true)}>
+            {options.appearance?.widgetLabel || 'Early access'}
+        </button>
+    )
+}
+
+/**
+ * Renders the early access features of the project so that users can opt in and out of them,
+ * and returns a function that removes them again
+ */
+export function renderEarlyAccessFeatures(posthog: PostHog, options: EarlyAccessFeaturesWidgetOptions): () => void {
+    if (!document) {
+        return () => {}
+    }
+    const target = options.element || (options.selector ? document.querySelector(options.selector) : null)
+    if (options.selector && !target) {
+        logger.error(`No element matches ${options.selector}, so early access features can't be shown`)
+        return () => {}
+    }
+    const floating = !target
+
+    const host = document.createElement('div')
+    host.className = 'PostHogEarlyAccessFeatures'
+    const shadow = host.attachShadow({ mode: 'open' })
+    const stylesheet = prepareStylesheet(document, style(options.appearance, floating), posthog)
+    if (stylesheet) {
+        shadow.appendChild(stylesheet)
+    }
+    ;(target || document.body).appendChild(host)
+
+    Preact.render(
+        floating ? (
+            <EarlyAccessFeaturesTab posthog={posthog} options={options} />
+        ) : (
+            <EarlyAccessFeatureList posthog={posthog} options={options} />
+        ),
+        shadow
+    )
+
+    return () => {
+        Preact.render(null, shadow)
+        host.parentNode?.removeChild(host)
+    }
+}
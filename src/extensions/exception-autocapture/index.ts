@@ -43,9 +43,10 @@ export class ExceptionObserver {
 
     public get isEnabled(): boolean {
         return (
-            this.config.capture_console_errors ||
-            this.config.capture_unhandled_errors ||
-            this.config.capture_unhandled_rejections
+            (this.config.capture_console_errors ||
+                this.config.capture_unhandled_errors ||
+                this.config.capture_unhandled_rejections) &&
+            this.instance.consent.isGranted('exceptions')
         )
     }
 
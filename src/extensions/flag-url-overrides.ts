@@ -0,0 +1,228 @@
+import { FLAG_URL_OVERRIDES } from '../constants'
+import { PostHog } from '../posthog-core'
+import { PERSISTENCE_OVERRIDE_FEATURE_FLAGS } from '../posthog-featureflags'
+import { FeatureFlagUrlOverridesConfig } from '../types'
+import { addEventListener } from '../utils'
+import { document, location, window } from '../utils/globals'
+import { createLogger } from '../utils/logger'
+import { getQueryParam } from '../utils/request-utils'
+import { hmacSha1 } from '../utils/sha1'
+import { isNumber, isObject } from '../utils/type-utils'
+import { prepareStylesheet } from './utils/stylesheet-loader'
+
+const logger = createLogger('[FlagUrlOverrides]')
+
+export const FLAG_OVERRIDES_PARAM = '__posthog_flags'
+export const FLAG_OVERRIDES_SIGNATURE_PARAM = '__posthog_flags_sig'
+export const FLAG_OVERRIDES_EXPIRY_PARAM = '__posthog_flags_exp'
+const DEFAULT_TTL_MS = 60 * 60 * 1000
+
+interface StoredUrlOverrides {
+    flags: Record<string, string | boolean>
+    expire_at: number
+}
+
+const STYLES = `
+    .ph-flag-overrides {
+        position: fixed;
+        bottom: 12px;
+        left: 12px;
+        max-width: 360px;
+        padding: 6px 10px;
+        background: #1d1f27;
+        color: #fff;
+        border-radius: 6px;
+        box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+        font: 12px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        z-index: 2147483647;
+    }
+    .ph-flag-overrides button {
+        margin-left: 8px;
+        padding: 0;
+        border: none;
+        background: none;
+        color: #f9bd2b;
+        cursor: pointer;
+        font: inherit;
+        text-decoration: underline;
+    }
+`
+
+/**
+ * Parses `checkout-v2:test,beta:true,old-nav:false` into flag overrides
+ */
+export const parseFlagOverrides = (value: string): Record<string, string | boolean> => {
+    const flags: Record<string, string | boolean> = {}
+    value.split(',').forEach((part) => {
+        const separator = part.indexOf(':')
+        const key = (separator === -1 ? part : part.slice(0, separator)).trim()
+        const variant = separator === -1 ? 'true' : part.slice(separator + 1).trim()
+        if (key) {
+            flags[key] = variant === 'true' ? true : variant === 'false' ? false : variant
+        }
+    })
+    return flags
+}
+
+/**
+ * Removes the overrides from the url once they're applied, so that reloading or bookmarking the page
+ * doesn't apply them again and push their expiry back
+ */
+const removeOverrideParams = (): void => {
+    const history = window?.history
+    if (!location || !history?.replaceState) {
+        return
+    }
+    const params = [FLAG_OVERRIDES_PARAM, FLAG_OVERRIDES_SIGNATURE_PARAM, FLAG_OVERRIDES_EXPIRY_PARAM]
+    const search = location.search
+        .replace(/^\?/, '')
+        .split('&')
+        .filter((part) => part && params.indexOf(part.split('=')[0]) === -1)
+        .join('&')
+    history.replaceState(history.state, '', location.pathname + (search ? `?${search}` : '') + location.hash)
+}
+
+/**
+ * Applies the flag overrides of a shared link, e.g. `?__posthog_flags=checkout-v2:test`, until they expire,
+ * and shows a badge while they do so that nobody is confused by what they see
+ */
+export class FlagUrlOverrides {
+    private _expiryTimer: ReturnType<typeof setTimeout> | undefined
+    private _indicator: HTMLElement | undefined
+
+    constructor(private readonly _instance: PostHog) {}
+
+    private get _config(): FeatureFlagUrlOverridesConfig | undefined {
+        const config = this._instance.config.feature_flag_url_overrides
+        return isObject(config) ? config : config ? {} : undefined
+    }
+
+    public get overrides(): Record<string, string | boolean> | undefined {
+        const stored: StoredUrlOverrides | undefined = this._instance.get_property(FLAG_URL_OVERRIDES)
+        return stored && isNumber(stored.expire_at) && stored.expire_at > Date.now() ? stored.flags : undefined
+    }
+
+    public startIfEnabled(): void {
+        const config = this._config
+        if (!config) {
+            return
+        }
+
+        const value = location ? getQueryParam(location.href, FLAG_OVERRIDES_PARAM) : ''
+        if (value) {
+            this._applyFromUrl(value, config)
+        }
+
+        const stored: StoredUrlOverrides | undefined = this._instance.get_property(FLAG_URL_OVERRIDES)
+        if (!stored) {
+            return
+        }
+        if (!this.overrides) {
+            this.clear()
+            return
+        }
+        clearTimeout(this._expiryTimer)
+        this._expiryTimer = setTimeout(() => this.clear(), stored.expire_at - Date.now())
+        this._showIndicator()
+    }
+
+    /**
+     * Removes the overrides from a link before they expire
+     */
+    public clear(): void {
+        clearTimeout(this._expiryTimer)
+        this._expiryTimer = undefined
+        this._indicator?.parentNode?.removeChild(this._indicator)
+        this._indicator = undefined
+        const stored: StoredUrlOverrides | undefined = this._instance.get_property(FLAG_URL_OVERRIDES)
+        if (!stored) {
+            return
+        }
+        this._instance.persistence?.unregister(FLAG_URL_OVERRIDES)
+
+        // only remove what the link applied, the overrides set with overrideFeatureFlags are kept
+        const remaining: Record<string, string | boolean> = { ...this._overriddenFlags() }
+        Object.keys(stored.flags || {}).forEach((key) => {
+            if (remaining[key] === stored.flags[key]) {
+                delete remaining[key]
+            }
+        })
+        this._instance.featureFlags.overrideFeatureFlags({
+            flags: Object.keys(remaining).length ? remaining : false,
+            suppressWarning: true,
+        })
+    }
+
+    private _overriddenFlags(): Record<string, string | boolean> | undefined {
+        return this._instance.get_property(PERSISTENCE_OVERRIDE_FEATURE_FLAGS)
+    }
+
+    private _applyFromUrl(value: string, config: FeatureFlagUrlOverridesConfig): void {
+        if (config.secret && location) {
+            const signature = getQueryParam(location.href, FLAG_OVERRIDES_SIGNATURE_PARAM)
+            const expiry = getQueryParam(location.href, FLAG_OVERRIDES_EXPIRY_PARAM)
+            if (!expiry || signature.toLowerCase() !== hmacSha1(config.secret, `${value}|${expiry}`)) {
+                logger.error(
+                    `Ignoring ${FLAG_OVERRIDES_PARAM} as ${FLAG_OVERRIDES_SIGNATURE_PARAM} doesn't match it and ${FLAG_OVERRIDES_EXPIRY_PARAM}`
+                )
+                return
+            }
+            // the expiry is signed too, so that a link can't be used for longer than it was made for
+            if (!(parseInt(expiry, 10) * 1000 > Date.now())) {
+                logger.error(`Ignoring ${FLAG_OVERRIDES_PARAM} as the link expired`)
+                return
+            }
+        }
+
+        const flags = parseFlagOverrides(value)
+        if (!Object.keys(flags).length) {
+            return
+        }
+        logger.info('Overriding flags from the url', flags)
+        // a new link replaces the flags of an earlier one rather than adding to them
+        this.clear()
+        this._instance.persistence?.register({
+            [FLAG_URL_OVERRIDES]: { flags, expire_at: Date.now() + (config.ttl_ms || DEFAULT_TTL_MS) },
+        })
+        this._instance.featureFlags.overrideFeatureFlags({
+            flags: { ...this._overriddenFlags(), ...flags },
+            suppressWarning: true,
+        })
+        removeOverrideParams()
+    }
+
+    private _showIndicator(): void {
+        if (!document || this._indicator) {
+            return
+        }
+        if (!document.body) {
+            addEventListener(document, 'DOMContentLoaded', () => this._showIndicator())
+            return
+        }
+        const flags = this.overrides
+        if (!flags) {
+            return
+        }
+
+        this._indicator = document.createElement('div')
+        this._indicator.className = 'ph-flag-overrides-host'
+        const shadow = this._indicator.attachShadow({ mode: 'open' })
+        const stylesheet = prepareStylesheet(document, STYLES, this._instance)
+        if (stylesheet) {
+            shadow.appendChild(stylesheet)
+        }
+
+        const badge = document.createElement('div')
+        badge.className = 'ph-flag-overrides'
+        badge.textContent = `Flags overridden by this link: ${Object.keys(flags)
+            .map((key) => `${key} = ${flags[key]}`)
+            .join(', ')}`
+        const clearButton = document.createElement('button')
+        clearButton.textContent = 'Clear'
+        clearButton.onclick = () => this.clear()
+        badge.appendChild(clearButton)
+        shadow.appendChild(badge)
+
+        document.body.appendChild(this._indicator)
+    }
+}
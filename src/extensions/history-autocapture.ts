@@ -0,0 +1,110 @@
+import { PostHog } from '../posthog-core'
+import { Properties } from '../types'
+import { addEventListener } from '../utils'
+import { Info } from '../utils/event-utils'
+import { window } from '../utils/globals'
+import { createLogger } from '../utils/logger'
+import { patch } from './replay/rrweb-plugins/patch'
+
+const logger = createLogger('[HistoryAutocapture]')
+
+type NavigationType = 'pushState' | 'replaceState' | 'popstate' | 'hashchange'
+
+/**
+ * Captures a $pageview whenever a single page app navigates to a different url using the History API,
+ * when `capture_pageview` is set to `'history_change'`.
+ * It's preceded by a $pageleave for the page that was left, when `capture_pageleave` applies.
+ */
+export class HistoryAutocapture {
+    private _instance: PostHog
+    private _lastUrl: string | undefined
+    // the url of the page that is left, as the location has already changed when we hear of a navigation
+    private _lastPageProperties: Properties = {}
+    private _restorePatches: (() => void)[] = []
+    private _started = false
+    private _listening = false
+
+    constructor(instance: PostHog) {
+        this._instance = instance
+    }
+
+    get isEnabled(): boolean {
+        return this._instance.config.capture_pageview === 'history_change'
+    }
+
+    get isStarted(): boolean {
+        return this._started
+    }
+
+    startIfEnabled(): void {
+        if (this.isEnabled && !this._started) {
+            logger.info('History API monitoring enabled, starting...')
+            this._start()
+        } else if (!this.isEnabled && this._started) {
+            this.stop()
+        }
+    }
+
+    stop(): void {
+        this._restorePatches.forEach((restore) => restore())
+        this._restorePatches = []
+        this._started = false
+    }
+
+    private _start(): void {
+        if (!window?.history) {
+            return
+        }
+        this._started = true
+        // the initial pageview is captured by the SDK on load, so it is the page we compare against
+        this._setLastPage()
+
+        const history = window.history
+        const self = this
+        for (const method of ['pushState', 'replaceState'] as const) {
+            this._restorePatches.push(
+                patch(history, method, (original: any) => {
+                    return function patchedHistoryMethod(this: History, ...args: Parameters<History['pushState']>) {
+                        original.apply(this, args)
+                        self._onNavigation(method)
+                    }
+                })
+            )
+        }
+
+        // we never remove these listeners, they are ignored while stopped
+        if (!this._listening) {
+            this._listening = true
+            addEventListener(window, 'popstate', () => this._onNavigation('popstate'))
+            addEventListener(window, 'hashchange', () => this._onNavigation('hashchange'))
+        }
+    }
+
+    private _setLastPage(): void {
+        this._lastUrl = window?.location?.href
+        const { $current_url, $host, $pathname } = Info.properties({
+            maskPersonalDataProperties: this._instance.config.mask_personal_data_properties,
+            customPersonalDataProperties: this._instance.config.custom_personal_data_properties,
+        })
+        this._lastPageProperties = { $current_url, $host, $pathname }
+    }
+
+    private _onNavigation(navigationType: NavigationType): void {
+        if (!this._started) {
+            return
+        }
+        try {
+            const url = window?.location?.href
+            if (!url || url === this._lastUrl) {
+                return
+            }
+            if (this._instance._shouldCapturePageleave()) {
+                this._instance.capture('$pageleave', { ...this._lastPageProperties, navigation_type: navigationType })
+            }
+            this._setLastPage()
+            this._instance.capture('$pageview', { navigation_type: navigationType })
+        } catch (e) {
+            logger.error(`error capturing ${navigationType} pageview`, e)
+        }
+    }
+}
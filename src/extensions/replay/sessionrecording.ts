@@ -307,6 +307,16 @@ export class SessionRecording {
         return this.instance.sessionManager
     }
 
+    /**
+     * The sampling and trigger decisions belong to a session, so they are stored wherever the session id is.
+     * In cookieless mode that is only in memory.
+     */
+    private get _sessionPersistence() {
+        return this.instance.config.__preview_experimental_cookieless_mode
+            ? this.sessionManager.persistence
+            : this.instance.persistence
+    }
+
     private get fullSnapshotIntervalMillis(): number {
         if (this.triggerStatus === 'trigger_pending') {
             return ONE_MINUTE
@@ -316,7 +326,7 @@ export class SessionRecording {
     }
 
     private get isSampled(): boolean | null {
-        const currentValue = this.instance.get_property(SESSION_RECORDING_IS_SAMPLED)
+        const currentValue = this._sessionPersistence?.props[SESSION_RECORDING_IS_SAMPLED]
         return isBoolean(currentValue) ? currentValue : null
     }
 
@@ -329,7 +339,8 @@ export class SessionRecording {
     private get isRecordingEnabled() {
         const enabled_server_side = !!this.instance.get_property(SESSION_RECORDING_ENABLED_SERVER_SIDE)
         const enabled_client_side = !this.instance.config.disable_session_recording
-        return window && enabled_server_side && enabled_client_side
+        const consented = this.instance.consent.isGranted('session_recording')
+        return window && enabled_server_side && enabled_client_side && consented
     }
 
     private get isConsoleLogCaptureEnabled() {
@@ -462,7 +473,7 @@ export class SessionRecording {
             return 'trigger_disabled'
         }
 
-        const currentTriggerSession = this.instance?.get_property(SESSION_RECORDING_URL_TRIGGER_ACTIVATED_SESSION)
+        const currentTriggerSession = this._sessionPersistence?.props[SESSION_RECORDING_URL_TRIGGER_ACTIVATED_SESSION]
         return currentTriggerSession === this.sessionId ? 'trigger_activated' : 'trigger_pending'
     }
 
@@ -471,7 +482,7 @@ export class SessionRecording {
             return 'trigger_disabled'
         }
 
-        const currentTriggerSession = this.instance?.get_property(SESSION_RECORDING_EVENT_TRIGGER_ACTIVATED_SESSION)
+        const currentTriggerSession = this._sessionPersistence?.props[SESSION_RECORDING_EVENT_TRIGGER_ACTIVATED_SESSION]
         return currentTriggerSession === this.sessionId ? 'trigger_activated' : 'trigger_pending'
     }
 
@@ -493,10 +504,6 @@ export class SessionRecording {
             logger.error('started without valid sessionManager')
             throw new Error(LOGGER_PREFIX + ' started without valid sessionManager. This is a bug.')
         }
-        if (this.instance.config.__preview_experimental_cookieless_mode) {
-            throw new Error(LOGGER_PREFIX + ' cannot be used with __preview_experimental_cookieless_mode.')
-        }
-
         // we know there's a sessionManager, so don't need to start without a session id
         const { sessionId, windowId } = this.sessionManager.checkAndGetSessionAndWindowId()
         this.sessionId = sessionId
@@ -573,8 +580,8 @@ export class SessionRecording {
                     if (changeReason) {
                         this._tryAddCustomEvent('$session_id_change', { sessionId, windowId, changeReason })
 
-                        this.instance?.persistence?.unregister(SESSION_RECORDING_EVENT_TRIGGER_ACTIVATED_SESSION)
-                        this.instance?.persistence?.unregister(SESSION_RECORDING_URL_TRIGGER_ACTIVATED_SESSION)
+                        this._sessionPersistence?.unregister(SESSION_RECORDING_EVENT_TRIGGER_ACTIVATED_SESSION)
+                        this._sessionPersistence?.unregister(SESSION_RECORDING_URL_TRIGGER_ACTIVATED_SESSION)
                     }
                 })
             }
@@ -611,7 +618,7 @@ export class SessionRecording {
     }
 
     private _resetSampling() {
-        this.instance.persistence?.unregister(SESSION_RECORDING_IS_SAMPLED)
+        this._sessionPersistence?.unregister(SESSION_RECORDING_IS_SAMPLED)
     }
 
     private makeSamplingDecision(sessionId: string): void {
@@ -654,7 +661,7 @@ export class SessionRecording {
             })
         }
 
-        this.instance.persistence?.register({
+        this._sessionPersistence?.register({
             [SESSION_RECORDING_IS_SAMPLED]: shouldSample,
         })
     }
@@ -1317,7 +1324,7 @@ export class SessionRecording {
     private _activateTrigger(triggerType: TriggerType) {
         if (this.triggerStatus === 'trigger_pending') {
             // status is stored separately for URL and event triggers
-            this.instance?.persistence?.register({
+            this._sessionPersistence?.register({
                 [triggerType === 'url'
                     ? SESSION_RECORDING_URL_TRIGGER_ACTIVATED_SESSION
                     : SESSION_RECORDING_EVENT_TRIGGER_ACTIVATED_SESSION]: this.sessionId,
@@ -1399,7 +1406,7 @@ export class SessionRecording {
      * instead call `posthog.startSessionRecording({sampling: true})`
      * */
     public overrideSampling() {
-        this.instance.persistence?.register({
+        this._sessionPersistence?.register({
             // short-circuits the `makeSamplingDecision` function in the session recording module
             [SESSION_RECORDING_IS_SAMPLED]: true,
         })
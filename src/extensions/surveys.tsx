@@ -5,6 +5,7 @@ import {
     SurveyAppearance,
     SurveyQuestion,
     SurveyQuestionBranchingType,
+    SurveyQuestionResponse,
     SurveyQuestionType,
     SurveyRenderReason,
     SurveyType,
@@ -15,26 +16,40 @@ import { useContext, useEffect, useMemo, useRef, useState } from 'preact/hooks'
 import { addEventListener } from '../utils'
 import { document as _document, window as _window } from '../utils/globals'
 import { createLogger } from '../utils/logger'
-import { isNull, isNumber } from '../utils/type-utils'
+import { uuidv7 } from '../uuidv7'
+import { isArray, isNull, isNumber, isObject, isUndefined } from '../utils/type-utils'
 import { createWidgetShadow, createWidgetStyle } from './surveys-widget'
 import { ConfirmationMessage } from './surveys/components/ConfirmationMessage'
 import { Cancel } from './surveys/components/QuestionHeader'
+import { ResumeSurveyPrompt } from './surveys/components/ResumeSurveyPrompt'
+import { EngagementTracker } from './surveys/engagement-tracker'
 import {
     LinkQuestion,
+    MatrixQuestion,
     MultipleChoiceQuestion,
     OpenTextQuestion,
+    RankingQuestion,
     RatingQuestion,
 } from './surveys/components/QuestionTypes'
 import {
+    clearInProgressSurvey,
     createShadow,
     defaultSurveyAppearance,
     dismissedSurveyEvent,
+    getCanonicalResponse,
     getContrastingTextColor,
     getDisplayOrderQuestions,
+    getInProgressSurvey,
+    getSurveyLocale,
     getSurveyResponseKey,
     getSurveySeen,
+    getSurveyTranslation,
     hasWaitPeriodPassed,
+    localizeAppearance,
+    localizeQuestion,
     sendSurveyEvent,
+    setInProgressSurvey,
+    shownSurveyEvent,
     style,
     SURVEY_DEFAULT_Z_INDEX,
     SurveyContext,
@@ -80,11 +95,7 @@ function getRatingBucketForResponseValue(responseValue: number, scale: number) {
     throw new Error('The scale must be one of: 3, 5, 7, 10')
 }
 
-export function getNextSurveyStep(
-    survey: Survey,
-    currentQuestionIndex: number,
-    response: string | string[] | number | null
-) {
+export function getNextSurveyStep(survey: Survey, currentQuestionIndex: number, response: SurveyQuestionResponse) {
     const question = survey.questions[currentQuestionIndex]
     const nextQuestionIndex = currentQuestionIndex + 1
 
@@ -103,46 +114,41 @@ export function getNextSurveyStep(
             return question.branching.index
         }
     } else if (question.branching.type === SurveyQuestionBranchingType.ResponseBased) {
+        const responseValues = question.branching.responseValues || {}
+        let responseValue: string | number | undefined
+
         // Single choice
         if (question.type === SurveyQuestionType.SingleChoice) {
             // :KLUDGE: for now, look up the choiceIndex based on the response
             // TODO: once QuestionTypes.MultipleChoiceQuestion is refactored, pass the selected choiceIndex into this method
-            const selectedChoiceIndex = question.choices.indexOf(`${response}`)
-
-            if (question.branching?.responseValues?.hasOwnProperty(selectedChoiceIndex)) {
-                const nextStep = question.branching.responseValues[selectedChoiceIndex]
-
-                // Specific question
-                if (Number.isInteger(nextStep)) {
-                    return nextStep
-                }
-
-                if (nextStep === SurveyQuestionBranchingType.End) {
-                    return SurveyQuestionBranchingType.End
-                }
-
-                return nextQuestionIndex
-            }
+            responseValue = question.choices.indexOf(`${response}`)
         } else if (question.type === SurveyQuestionType.Rating) {
             if (typeof response !== 'number' || !Number.isInteger(response)) {
                 throw new Error('The response type must be an integer')
             }
 
-            const ratingBucket = getRatingBucketForResponseValue(response, question.scale)
+            responseValue = getRatingBucketForResponseValue(response, question.scale)
+        } else if (question.type === SurveyQuestionType.Ranking) {
+            // branch on the choice ranked first
+            responseValue = isArray(response) ? question.choices.indexOf(response[0]) : undefined
+        } else if (question.type === SurveyQuestionType.Matrix && isObject(response) && !isArray(response)) {
+            const answers = response as Record<string, string>
+            // branch on the first row whose answer has a branch
+            responseValue = question.rows
+                .map((row, rowIndex) => `${rowIndex}:${question.columns.indexOf(answers[row])}`)
+                .find((rowResponse) => responseValues.hasOwnProperty(rowResponse))
+        }
 
-            if (question.branching?.responseValues?.hasOwnProperty(ratingBucket)) {
-                const nextStep = question.branching.responseValues[ratingBucket]
+        if (!isUndefined(responseValue) && responseValues.hasOwnProperty(responseValue)) {
+            const nextStep = responseValues[responseValue]
 
-                // Specific question
-                if (Number.isInteger(nextStep)) {
-                    return nextStep
-                }
-
-                if (nextStep === SurveyQuestionBranchingType.End) {
-                    return SurveyQuestionBranchingType.End
-                }
+            // Specific question
+            if (Number.isInteger(nextStep)) {
+                return nextStep
+            }
 
-                return nextQuestionIndex
+            if (nextStep === SurveyQuestionBranchingType.End) {
+                return SurveyQuestionBranchingType.End
             }
         }
 
@@ -157,11 +163,13 @@ export class SurveyManager {
     private posthog: PostHog
     private surveyInFocus: string | null
     private surveyTimeouts: Map<string, NodeJS.Timeout> = new Map()
+    private engagementTracker: EngagementTracker
 
     constructor(posthog: PostHog) {
         this.posthog = posthog
         // This is used to track the survey that is currently in focus. We only show one survey at a time.
         this.surveyInFocus = null
+        this.engagementTracker = new EngagementTracker(posthog)
     }
 
     private canShowNextEventBasedSurvey = (): boolean => {
@@ -383,7 +391,11 @@ export class SurveyManager {
                     }
                 }
 
-                if (survey.type === SurveyType.Popover && this.canShowNextEventBasedSurvey()) {
+                if (
+                    survey.type === SurveyType.Popover &&
+                    this.canShowNextEventBasedSurvey() &&
+                    this.engagementTracker.meetsConditions(survey)
+                ) {
                     this.handlePopoverSurvey(survey)
                 }
             })
@@ -428,13 +440,15 @@ export const renderSurveysPreview = ({
     forceDisableHtml,
     onPreviewSubmit,
     posthog,
+    locale,
 }: {
     survey: Survey
     parentElement: HTMLElement
     previewPageIndex: number
     forceDisableHtml?: boolean
-    onPreviewSubmit?: (res: string | string[] | number | null) => void
+    onPreviewSubmit?: (res: SurveyQuestionResponse) => void
     posthog?: PostHog
+    locale?: string
 }) => {
     const stylesheetContent = style(survey.appearance)
     const stylesheet = prepareStylesheet(document, stylesheetContent, posthog)
@@ -470,6 +484,7 @@ export const renderSurveysPreview = ({
             previewPageIndex={previewPageIndex}
             removeSurveyFromFocus={() => {}}
             isPopup={true}
+            locale={locale}
         />,
         parentElement
     )
@@ -591,7 +606,8 @@ export function usePopupVisibility(
     posthog: PostHog | undefined,
     millisecondDelay: number,
     isPreviewMode: boolean,
-    removeSurveyFromFocus: (id: string) => void
+    removeSurveyFromFocus: (id: string) => void,
+    locale?: string
 ) {
     const [isPopupVisible, setIsPopupVisible] = useState(isPreviewMode || millisecondDelay === 0)
     const [isSurveySent, setIsSurveySent] = useState(false)
@@ -633,14 +649,7 @@ export function usePopupVisibility(
 
             setIsPopupVisible(true)
             window.dispatchEvent(new Event('PHSurveyShown'))
-            posthog.capture('survey shown', {
-                $survey_name: survey.name,
-                $survey_id: survey.id,
-                $survey_iteration: survey.current_iteration,
-                $survey_iteration_start_date: survey.current_iteration_start_date,
-                sessionRecordingUrl: posthog.get_session_replay_url?.(),
-            })
-            localStorage.setItem('lastSeenSurveyDate', new Date().toISOString())
+            shownSurveyEvent(survey, posthog, locale)
             setTimeout(() => {
                 const inputField = document
                     .querySelector(getPosthogWidgetClass(survey.id))
@@ -691,9 +700,11 @@ interface SurveyPopupProps {
     previewPageIndex?: number | undefined
     removeSurveyFromFocus: (id: string) => void
     isPopup?: boolean
-    onPreviewSubmit?: (res: string | string[] | number | null) => void
+    onPreviewSubmit?: (res: SurveyQuestionResponse) => void
     onPopupSurveyDismissed?: () => void
     onCloseConfirmationMessage?: () => void
+    // shows the survey in this locale instead of picking one, e.g. to preview a translation
+    locale?: string
 }
 
 export function SurveyPopup({
@@ -707,8 +718,11 @@ export function SurveyPopup({
     onPreviewSubmit = () => {},
     onPopupSurveyDismissed = () => {},
     onCloseConfirmationMessage = () => {},
+    locale: localeOverride,
 }: SurveyPopupProps) {
     const isPreviewMode = Number.isInteger(previewPageIndex)
+    const locale = useMemo(() => localeOverride || getSurveyLocale(survey, posthog), [localeOverride, survey, posthog])
+    const appearance = localizeAppearance(survey.appearance, getSurveyTranslation(survey, locale))
     // NB: The client-side code passes the millisecondDelay in seconds, but setTimeout expects milliseconds, so we multiply by 1000
     const surveyPopupDelayMilliseconds = survey.appearance?.surveyPopupDelaySeconds
         ? survey.appearance.surveyPopupDelaySeconds * 1000
@@ -718,7 +732,8 @@ export function SurveyPopup({
         posthog,
         surveyPopupDelayMilliseconds,
         isPreviewMode,
-        removeSurveyFromFocus
+        removeSurveyFromFocus,
+        locale
     )
     const shouldShowConfirmation = isSurveySent || previewPageIndex === survey.questions.length
     const confirmationBoxLeftStyle = style?.left && isNumber(style?.left) ? { left: style.left - 40 } : {}
@@ -741,6 +756,7 @@ export function SurveyPopup({
                 },
                 isPopup: isPopup || false,
                 onPreviewSubmit,
+                locale,
             }}
         >
             {!shouldShowConfirmation ? (
@@ -752,11 +768,11 @@ export function SurveyPopup({
                 />
             ) : (
                 <ConfirmationMessage
-                    header={survey.appearance?.thankYouMessageHeader || 'Thank you!'}
-                    description={survey.appearance?.thankYouMessageDescription || ''}
+                    header={appearance?.thankYouMessageHeader || 'Thank you!'}
+                    description={appearance?.thankYouMessageDescription || ''}
                     forceDisableHtml={!!forceDisableHtml}
-                    contentType={survey.appearance?.thankYouMessageDescriptionContentType}
-                    appearance={survey.appearance || defaultSurveyAppearance}
+                    contentType={appearance?.thankYouMessageDescriptionContentType}
+                    appearance={appearance || defaultSurveyAppearance}
                     styleOverrides={{ ...style, ...confirmationBoxLeftStyle }}
                     onClose={() => {
                         setIsPopupVisible(false)
@@ -782,10 +798,15 @@ export function Questions({
     const textColor = getContrastingTextColor(
         survey.appearance?.backgroundColor || defaultSurveyAppearance.backgroundColor
     )
-    const [questionsResponses, setQuestionsResponses] = useState({})
-    const { previewPageIndex, onPopupSurveyDismissed, isPopup, onPreviewSubmit } = useContext(SurveyContext)
+    const [questionsResponses, setQuestionsResponses] = useState<Record<string, SurveyQuestionResponse>>({})
+    const { isPreviewMode, previewPageIndex, onPopupSurveyDismissed, isPopup, onPreviewSubmit, locale } =
+        useContext(SurveyContext)
+    const translation = getSurveyTranslation(survey, locale)
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(previewPageIndex || 0)
     const surveyQuestions = useMemo(() => getDisplayOrderQuestions(survey), [survey])
+    // answers left behind on an earlier page, which the user can pick up again
+    const [inProgress, setInProgress] = useState(() => (isPreviewMode ? null : getInProgressSurvey(survey)))
+    const [submissionId, setSubmissionId] = useState(() => inProgress?.submissionId || uuidv7())
 
     // Sync preview state
     useEffect(() => {
@@ -797,7 +818,7 @@ export function Questions({
         displayQuestionIndex,
         questionId,
     }: {
-        res: string | string[] | number | null
+        res: SurveyQuestionResponse
         displayQuestionIndex: number
         questionId?: string
     }) => {
@@ -812,17 +833,50 @@ export function Questions({
         }
 
         const responseKey = getSurveyResponseKey(questionId)
+        const responses = { ...questionsResponses, [responseKey]: res }
 
-        setQuestionsResponses({ ...questionsResponses, [responseKey]: res })
+        setQuestionsResponses(responses)
 
         const nextStep = getNextSurveyStep(survey, displayQuestionIndex, res)
-        if (nextStep === SurveyQuestionBranchingType.End) {
-            sendSurveyEvent({ ...questionsResponses, [responseKey]: res }, survey, posthog)
-        } else {
+        const isSurveyCompleted = nextStep === SurveyQuestionBranchingType.End
+        if (isSurveyCompleted || survey.enable_partial_responses) {
+            sendSurveyEvent(responses, survey, posthog, { locale, submissionId, isSurveyCompleted })
+        }
+        if (!isSurveyCompleted) {
+            const nextQuestionId = surveyQuestions[nextStep]?.id
+            if (nextQuestionId) {
+                setInProgressSurvey(survey, { submissionId, responses, currentQuestionId: nextQuestionId })
+            }
             setCurrentQuestionIndex(nextStep)
         }
     }
 
+    const resume = () => {
+        if (inProgress) {
+            setQuestionsResponses(inProgress.responses)
+            const questionIndex = surveyQuestions.map((question) => question.id).indexOf(inProgress.currentQuestionId)
+            setCurrentQuestionIndex(Math.max(questionIndex, 0))
+        }
+        setInProgress(null)
+    }
+
+    const startOver = () => {
+        clearInProgressSurvey(survey)
+        setSubmissionId(uuidv7())
+        setInProgress(null)
+    }
+
+    const surveyBoxStyle = isPopup
+        ? { backgroundColor: survey.appearance?.backgroundColor || defaultSurveyAppearance.backgroundColor }
+        : {}
+    const cancel = isPopup && (
+        <Cancel
+            onClick={() => {
+                onPopupSurveyDismissed()
+            }}
+        />
+    )
+
     return (
         <form
             className="survey-form"
@@ -836,37 +890,32 @@ export function Questions({
                     : {}
             }
         >
+            {inProgress ? (
+                <div className="survey-box" style={surveyBoxStyle}>
+                    {cancel}
+                    <ResumeSurveyPrompt
+                        appearance={localizeAppearance(survey.appearance, translation) || defaultSurveyAppearance}
+                        onResume={resume}
+                        onStartOver={startOver}
+                    />
+                </div>
+            ) : null}
             {surveyQuestions.map((question, displayQuestionIndex) => {
-                const isVisible = currentQuestionIndex === displayQuestionIndex
+                const isVisible = !inProgress && currentQuestionIndex === displayQuestionIndex
+                const localizedQuestion = localizeQuestion(question, translation)
                 return (
                     isVisible && (
-                        <div
-                            className="survey-box"
-                            style={
-                                isPopup
-                                    ? {
-                                          backgroundColor:
-                                              survey.appearance?.backgroundColor ||
-                                              defaultSurveyAppearance.backgroundColor,
-                                      }
-                                    : {}
-                            }
-                        >
-                            {isPopup && (
-                                <Cancel
-                                    onClick={() => {
-                                        onPopupSurveyDismissed()
-                                    }}
-                                />
-                            )}
+                        <div className="survey-box" style={surveyBoxStyle}>
+                            {cancel}
                             {getQuestionComponent({
-                                question,
+                                question: localizedQuestion,
                                 forceDisableHtml,
                                 displayQuestionIndex,
-                                appearance: survey.appearance || defaultSurveyAppearance,
+                                appearance:
+                                    localizeAppearance(survey.appearance, translation) || defaultSurveyAppearance,
                                 onSubmit: (res) =>
                                     onNextButtonClick({
-                                        res,
+                                        res: getCanonicalResponse(question, localizedQuestion, res),
                                         displayQuestionIndex,
                                         questionId: question.id,
                                     }),
@@ -1011,7 +1060,10 @@ export function FeedbackWidget({
                     style={{ color: getContrastingTextColor(survey.appearance.widgetColor) }}
                 >
                     <div className="ph-survey-widget-tab-icon"></div>
-                    {survey.appearance?.widgetLabel || ''}
+                    {localizeAppearance(
+                        survey.appearance,
+                        getSurveyTranslation(survey, getSurveyLocale(survey, posthog))
+                    )?.widgetLabel || ''}
                 </div>
             )}
             {showSurvey && (
@@ -1036,8 +1088,8 @@ interface GetQuestionComponentProps {
     forceDisableHtml: boolean
     displayQuestionIndex: number
     appearance: SurveyAppearance
-    onSubmit: (res: string | string[] | number | null) => void
-    onPreviewSubmit: (res: string | string[] | number | null) => void
+    onSubmit: (res: SurveyQuestionResponse) => void
+    onPreviewSubmit: (res: SurveyQuestionResponse) => void
 }
 
 const getQuestionComponent = ({
@@ -1054,16 +1106,18 @@ const getQuestionComponent = ({
         [SurveyQuestionType.Rating]: RatingQuestion,
         [SurveyQuestionType.SingleChoice]: MultipleChoiceQuestion,
         [SurveyQuestionType.MultipleChoice]: MultipleChoiceQuestion,
+        [SurveyQuestionType.Ranking]: RankingQuestion,
+        [SurveyQuestionType.Matrix]: MatrixQuestion,
     }
 
     const commonProps = {
         question,
         forceDisableHtml,
         appearance,
-        onPreviewSubmit: (res: string | string[] | number | null) => {
+        onPreviewSubmit: (res: SurveyQuestionResponse) => {
             onPreviewSubmit(res)
         },
-        onSubmit: (res: string | string[] | number | null) => {
+        onSubmit: (res: SurveyQuestionResponse) => {
             onSubmit(res)
         },
     }
@@ -1074,6 +1128,8 @@ const getQuestionComponent = ({
         [SurveyQuestionType.Rating]: { displayQuestionIndex },
         [SurveyQuestionType.SingleChoice]: { displayQuestionIndex },
         [SurveyQuestionType.MultipleChoice]: { displayQuestionIndex },
+        [SurveyQuestionType.Ranking]: { displayQuestionIndex },
+        [SurveyQuestionType.Matrix]: { displayQuestionIndex },
     }
 
     const Component = questionComponents[question.type]
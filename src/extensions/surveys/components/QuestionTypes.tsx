@@ -3,12 +3,15 @@ import { useMemo, useRef, useState } from 'preact/hooks'
 import {
     BasicSurveyQuestion,
     LinkSurveyQuestion,
+    MatrixSurveyQuestion,
     MultipleSurveyQuestion,
+    RankingSurveyQuestion,
     RatingSurveyQuestion,
     SurveyAppearance,
+    SurveyQuestionResponse,
     SurveyQuestionType,
 } from '../../../posthog-surveys-types'
-import { isArray, isNull } from '../../../utils/type-utils'
+import { isArray, isNull, isUndefined } from '../../../utils/type-utils'
 import { useContrastingTextColor } from '../hooks/useContrastingTextColor'
 import {
     checkSVG,
@@ -25,8 +28,8 @@ import { QuestionHeader } from './QuestionHeader'
 interface CommonProps {
     forceDisableHtml: boolean
     appearance: SurveyAppearance
-    onSubmit: (res: string | string[] | number | null) => void
-    onPreviewSubmit: (res: string | string[] | number | null) => void
+    onSubmit: (res: SurveyQuestionResponse) => void
+    onPreviewSubmit: (res: SurveyQuestionResponse) => void
 }
 
 export function OpenTextQuestion({
@@ -393,6 +396,172 @@ export function MultipleChoiceQuestion({
     )
 }
 
+export function RankingQuestion({
+    question,
+    forceDisableHtml,
+    displayQuestionIndex,
+    appearance,
+    onSubmit,
+    onPreviewSubmit,
+}: CommonProps & {
+    question: RankingSurveyQuestion
+    displayQuestionIndex: number
+}) {
+    const choices = useMemo(() => getDisplayOrderChoices(question), [question])
+    const [ranking, setRanking] = useState<string[]>(choices)
+    const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+
+    const move = (from: number, to: number) => {
+        if (to < 0 || to >= ranking.length || from === to) {
+            return
+        }
+        const newRanking = [...ranking]
+        newRanking.splice(to, 0, newRanking.splice(from, 1)[0])
+        setRanking(newRanking)
+    }
+
+    return (
+        <div>
+            <QuestionHeader
+                question={question.question}
+                description={question.description}
+                descriptionContentType={question.descriptionContentType}
+                forceDisableHtml={forceDisableHtml}
+                backgroundColor={appearance.backgroundColor}
+            />
+            <ol className="ranking-options limit-height">
+                {ranking.map((choice, idx) => (
+                    <li
+                        key={choice}
+                        id={`surveyQuestion${displayQuestionIndex}Rank${idx}`}
+                        className={`ranking-option${draggedIndex === idx ? ' ranking-option-dragging' : ''}`}
+                        draggable={true}
+                        tabIndex={0}
+                        aria-label={`${choice}, ranked ${idx + 1} of ${ranking.length}`}
+                        onDragStart={(e) => {
+                            // Firefox doesn't start dragging without data
+                            e.dataTransfer?.setData('text/plain', choice)
+                            setDraggedIndex(idx)
+                        }}
+                        onDragOver={(e) => {
+                            e.preventDefault()
+                            if (!isNull(draggedIndex) && draggedIndex !== idx) {
+                                move(draggedIndex, idx)
+                                setDraggedIndex(idx)
+                            }
+                        }}
+                        onDragEnd={() => setDraggedIndex(null)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+                                e.preventDefault()
+                                move(idx, e.key === 'ArrowUp' ? idx - 1 : idx + 1)
+                            }
+                        }}
+                    >
+                        <span className="ranking-position">{idx + 1}</span>
+                        <span className="ranking-choice" style={{ color: 'black' }}>
+                            {choice}
+                        </span>
+                        <button
+                            type="button"
+                            className="ranking-move"
+                            aria-label={`Move ${choice} up`}
+                            disabled={idx === 0}
+                            onClick={() => move(idx, idx - 1)}
+                        >
+                            ↑
+                        </button>
+                        <button
+                            type="button"
+                            className="ranking-move"
+                            aria-label={`Move ${choice} down`}
+                            disabled={idx === ranking.length - 1}
+                            onClick={() => move(idx, idx + 1)}
+                        >
+                            ↓
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            <BottomSection
+                text={question.buttonText || 'Submit'}
+                submitDisabled={false}
+                appearance={appearance}
+                onSubmit={() => onSubmit(ranking)}
+                onPreviewSubmit={() => onPreviewSubmit(ranking)}
+            />
+        </div>
+    )
+}
+
+export function MatrixQuestion({
+    question,
+    forceDisableHtml,
+    displayQuestionIndex,
+    appearance,
+    onSubmit,
+    onPreviewSubmit,
+}: CommonProps & {
+    question: MatrixSurveyQuestion
+    displayQuestionIndex: number
+}) {
+    const [answers, setAnswers] = useState<Record<string, string>>({})
+    const allRowsAnswered = question.rows.every((row) => !isUndefined(answers[row]))
+    const response = Object.keys(answers).length ? answers : null
+
+    return (
+        <div>
+            <QuestionHeader
+                question={question.question}
+                description={question.description}
+                descriptionContentType={question.descriptionContentType}
+                forceDisableHtml={forceDisableHtml}
+                backgroundColor={appearance.backgroundColor}
+            />
+            <div className="matrix-options limit-height">
+                <table>
+                    <thead>
+                        <tr>
+                            <th />
+                            {question.columns.map((column) => (
+                                <th key={column} scope="col">
+                                    {column}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {question.rows.map((row, rowIdx) => (
+                            <tr key={row}>
+                                <th scope="row">{row}</th>
+                                {question.columns.map((column, columnIdx) => (
+                                    <td key={column}>
+                                        <input
+                                            type="radio"
+                                            id={`surveyQuestion${displayQuestionIndex}Row${rowIdx}Column${columnIdx}`}
+                                            name={`question${displayQuestionIndex}Row${rowIdx}`}
+                                            aria-label={`${row}: ${column}`}
+                                            checked={answers[row] === column}
+                                            onClick={() => setAnswers({ ...answers, [row]: column })}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <BottomSection
+                text={question.buttonText || 'Submit'}
+                submitDisabled={!allRowsAnswered && !question.optional}
+                appearance={appearance}
+                onSubmit={() => onSubmit(response)}
+                onPreviewSubmit={() => onPreviewSubmit(response)}
+            />
+        </div>
+    )
+}
+
 const threeScaleEmojis = [dissatisfiedEmoji, neutralEmoji, satisfiedEmoji]
 const fiveScaleEmojis = [veryDissatisfiedEmoji, dissatisfiedEmoji, neutralEmoji, satisfiedEmoji, verySatisfiedEmoji]
 const fiveScaleNumbers = [1, 2, 3, 4, 5]
@@ -0,0 +1,35 @@
+import { SurveyAppearance } from '../../../posthog-surveys-types'
+import { defaultSurveyAppearance, getContrastingTextColor } from '../surveys-utils'
+
+export function ResumeSurveyPrompt({
+    appearance,
+    onResume,
+    onStartOver,
+}: {
+    appearance: SurveyAppearance
+    onResume: () => void
+    onStartOver: () => void
+}) {
+    const textColor = getContrastingTextColor(appearance.backgroundColor || defaultSurveyAppearance.backgroundColor)
+    const buttonTextColor =
+        appearance.submitButtonTextColor ||
+        getContrastingTextColor(appearance.submitButtonColor || defaultSurveyAppearance.submitButtonColor)
+
+    return (
+        <div className="resume-survey">
+            <div className="survey-question" style={{ color: textColor }}>
+                {appearance.resumePromptText || 'Pick up where you left off?'}
+            </div>
+            <div className="bottom-section">
+                <div className="buttons">
+                    <button className="form-submit" type="button" style={{ color: buttonTextColor }} onClick={onResume}>
+                        {appearance.resumeButtonText || 'Resume'}
+                    </button>
+                    <button className="form-start-over" type="button" onClick={onStartOver}>
+                        {appearance.startOverButtonText || 'Start over'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
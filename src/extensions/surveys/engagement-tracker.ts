@@ -0,0 +1,122 @@
+import { PostHog } from '../../posthog-core'
+import { Survey } from '../../posthog-surveys-types'
+import { addEventListener } from '../../utils'
+import { Info } from '../../utils/event-utils'
+import { document, navigator, window } from '../../utils/globals'
+import { clampToRange } from '../../utils/number-utils'
+import { isNumber } from '../../utils/type-utils'
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart']
+// scrolling up this fast on a phone usually means reaching for the address bar to leave
+const EXIT_INTENT_SCROLL_VELOCITY_PX_PER_MS = 1.5
+
+/**
+ * Keeps track of how the user engages with the page,
+ * so that surveys can wait for e.g. a minimum time on page, scroll depth, exit intent or inactivity
+ */
+export class EngagementTracker {
+    private pageUrl: string | undefined
+    private pageStartedAt: number
+    private lastActivityAt: number
+    private exitIntentAt: number | undefined
+    private lastScroll: { y: number; at: number } | undefined
+    private readonly isMobile: boolean
+    private readonly surveyShownAt: Record<string, number> = {}
+
+    constructor(private readonly posthog: PostHog) {
+        this.pageUrl = window?.location.href
+        this.pageStartedAt = Date.now()
+        this.lastActivityAt = this.pageStartedAt
+        this.isMobile = !!navigator?.userAgent && Info.deviceType(navigator.userAgent) === 'Mobile'
+
+        ACTIVITY_EVENTS.forEach((event) => addEventListener(window, event, this.onActivity, { capture: true }))
+        addEventListener(document, 'mouseout', this.onMouseOut as EventListener)
+        addEventListener(window, 'scroll', this.onScroll)
+        this.posthog._addCaptureHook?.((eventName, eventPayload) => {
+            const surveyId = eventPayload?.properties?.$survey_id
+            if (eventName === 'survey shown' && surveyId) {
+                this.surveyShownAt[surveyId] = Date.now()
+            }
+        })
+    }
+
+    public meetsConditions(survey: Pick<Survey, 'id' | 'conditions'>): boolean {
+        const conditions = survey.conditions
+        if (!conditions) {
+            return true
+        }
+        this.checkForNavigation()
+
+        const now = Date.now()
+        // surveys that are shown repeatedly have to wait for new engagement each time
+        const since = Math.max(this.pageStartedAt, this.surveyShownAt[survey.id] || 0)
+
+        if (isNumber(conditions.minTimeOnPageSeconds) && now - since < conditions.minTimeOnPageSeconds * 1000) {
+            return false
+        }
+        if (isNumber(conditions.minScrollPercentage) && this.getScrollPercentage() < conditions.minScrollPercentage) {
+            return false
+        }
+        if (conditions.exitIntent && !(this.exitIntentAt && this.exitIntentAt >= since)) {
+            return false
+        }
+        if (
+            isNumber(conditions.minIdleSeconds) &&
+            now - Math.max(this.lastActivityAt, since) < conditions.minIdleSeconds * 1000
+        ) {
+            return false
+        }
+        return true
+    }
+
+    private checkForNavigation() {
+        const url = window?.location.href
+        if (url !== this.pageUrl) {
+            this.pageUrl = url
+            this.pageStartedAt = Date.now()
+            this.exitIntentAt = undefined
+        }
+    }
+
+    private getScrollPercentage(): number {
+        const scrollManager = this.posthog.scrollManager
+        if (!scrollManager) {
+            return 0
+        }
+        // the scroll context isn't kept when scroll properties are disabled, so we look at the current position too
+        const context = scrollManager.getContext()
+        const element = scrollManager.scrollElement()
+        const scrollHeight = Math.max(
+            context?.maxScrollHeight ?? 0,
+            element ? element.scrollHeight - element.clientHeight : 0
+        )
+        const scrollY = Math.max(context?.maxScrollY ?? 0, scrollManager.scrollY())
+        // a page that can't be scrolled has been seen entirely
+        return scrollHeight <= 1 ? 100 : clampToRange(scrollY / scrollHeight, 0, 1) * 100
+    }
+
+    private onActivity = () => {
+        this.lastActivityAt = Date.now()
+    }
+
+    private onMouseOut = (event: MouseEvent) => {
+        if (!event.relatedTarget && event.clientY <= 0) {
+            this.exitIntentAt = Date.now()
+        }
+    }
+
+    private onScroll = () => {
+        if (!this.isMobile) {
+            return
+        }
+        const now = Date.now()
+        const y = this.posthog.scrollManager?.scrollY() ?? window?.scrollY ?? 0
+        if (this.lastScroll && now > this.lastScroll.at) {
+            const velocity = (this.lastScroll.y - y) / (now - this.lastScroll.at)
+            if (velocity >= EXIT_INTENT_SCROLL_VELOCITY_PX_PER_MS) {
+                this.exitIntentAt = now
+            }
+        }
+        this.lastScroll = { y, at: now }
+    }
+}
@@ -0,0 +1,229 @@
+import { PostHog } from '../../posthog-core'
+import {
+    Survey,
+    SurveyController,
+    SurveyQuestion,
+    SurveyQuestionBranchingType,
+    SurveyQuestionResponse,
+    SurveyQuestionType,
+} from '../../posthog-surveys-types'
+import { createLogger } from '../../utils/logger'
+import { isArray, isEmptyObject, isNull, isNumber, isObject, isString } from '../../utils/type-utils'
+import { uuidv7 } from '../../uuidv7'
+import { getNextSurveyStep } from '../surveys'
+import {
+    dismissedSurveyEvent,
+    getCanonicalResponse,
+    getDisplayOrderChoices,
+    getDisplayOrderQuestions,
+    getSurveyLocale,
+    getSurveyResponseKey,
+    getSurveySeen,
+    getSurveyTranslation,
+    hasWaitPeriodPassed,
+    localizeQuestion,
+    sendSurveyEvent,
+    shownSurveyEvent,
+} from './surveys-utils'
+
+const logger = createLogger('[Surveys]')
+
+const isEmptyResponse = (response: SurveyQuestionResponse): boolean =>
+    isNull(response) ||
+    (isString(response) && !response.trim()) ||
+    (isArray(response) && !response.length) ||
+    isEmptyObject(response)
+
+const isResponseOfType = (question: SurveyQuestion, response: SurveyQuestionResponse): boolean => {
+    switch (question.type) {
+        case SurveyQuestionType.Rating:
+            return (
+                isNumber(response) &&
+                Number.isInteger(response) &&
+                // only a 0-10 scale starts at 0
+                response >= (question.scale === 10 ? 0 : 1) &&
+                response <= question.scale
+            )
+        case SurveyQuestionType.MultipleChoice:
+        case SurveyQuestionType.Ranking:
+            return isArray(response) && response.every(isString)
+        case SurveyQuestionType.Matrix:
+            return isObject(response) && !isArray(response)
+        default:
+            return isString(response)
+    }
+}
+
+export class HeadlessSurvey implements SurveyController {
+    public readonly locale: string | undefined
+    public readonly questions: SurveyQuestion[]
+    private readonly originalQuestions: SurveyQuestion[]
+    private readonly submissionId = uuidv7()
+    private readonly displayOrderChoices = new Map<SurveyQuestion, string[]>()
+    private readonly callbacks: (() => void)[] = []
+    private questionIndex = 0
+    private answers: Record<string, SurveyQuestionResponse> = {}
+    private completed = false
+    private dismissed = false
+    private shown = false
+
+    constructor(
+        private readonly posthog: PostHog,
+        public readonly survey: Survey
+    ) {
+        this.locale = getSurveyLocale(survey, posthog)
+        const translation = getSurveyTranslation(survey, this.locale)
+        this.originalQuestions = getDisplayOrderQuestions(survey)
+        this.questions = this.originalQuestions.map((question) => localizeQuestion(question, translation))
+    }
+
+    get currentQuestionIndex(): number {
+        return this.questionIndex
+    }
+
+    get currentQuestion(): SurveyQuestion | null {
+        return this.completed || this.dismissed ? null : this.questions[this.questionIndex] || null
+    }
+
+    get responses(): Record<string, SurveyQuestionResponse> {
+        return this.answers
+    }
+
+    get isCompleted(): boolean {
+        return this.completed
+    }
+
+    get isDismissed(): boolean {
+        return this.dismissed
+    }
+
+    canShow(): boolean {
+        return (
+            !getSurveySeen(this.survey) &&
+            hasWaitPeriodPassed(
+                localStorage.getItem('lastSeenSurveyDate'),
+                this.survey.conditions?.seenSurveyWaitPeriodInDays
+            )
+        )
+    }
+
+    show(): void {
+        if (this.shown) {
+            return
+        }
+        this.shown = true
+        shownSurveyEvent(this.survey, this.posthog, this.locale)
+    }
+
+    getDisplayOrderChoices(question: SurveyQuestion): string[] {
+        if (
+            question.type !== SurveyQuestionType.SingleChoice &&
+            question.type !== SurveyQuestionType.MultipleChoice &&
+            question.type !== SurveyQuestionType.Ranking
+        ) {
+            return []
+        }
+        // shuffled once, so that the choices don't move around between renders
+        let choices = this.displayOrderChoices.get(question)
+        if (!choices) {
+            choices = getDisplayOrderChoices(question)
+            this.displayOrderChoices.set(question, choices)
+        }
+        return choices
+    }
+
+    submitAnswer(response: SurveyQuestionResponse): boolean {
+        const question = this.currentQuestion
+        if (!question) {
+            logger.error(`Survey ${this.survey.id} is already ${this.completed ? 'completed' : 'dismissed'}.`)
+            return false
+        }
+        const originalQuestion = this.originalQuestions[this.questionIndex]
+        if (!originalQuestion.id) {
+            logger.error('submitAnswer called for a question without an id.')
+            return false
+        }
+        const isEmpty = isEmptyResponse(response)
+        if (!question.optional && isEmpty) {
+            logger.error(`Question ${originalQuestion.id} of survey ${this.survey.id} requires an answer.`)
+            return false
+        }
+        if (!isEmpty && !isResponseOfType(question, response)) {
+            logger.error(`Invalid answer to the ${question.type} question ${originalQuestion.id}.`, response)
+            return false
+        }
+
+        const canonicalResponse = getCanonicalResponse(originalQuestion, question, response)
+        this.answers = { ...this.answers, [getSurveyResponseKey(originalQuestion.id)]: canonicalResponse }
+
+        const nextStep = this.getNextQuestionIndex(originalQuestion, isEmpty ? null : canonicalResponse)
+        const isSurveyCompleted = nextStep === SurveyQuestionBranchingType.End
+        if (isSurveyCompleted || this.survey.enable_partial_responses) {
+            sendSurveyEvent(this.answers, this.survey, this.posthog, {
+                locale: this.locale,
+                submissionId: this.submissionId,
+                isSurveyCompleted,
+            })
+        }
+        if (isSurveyCompleted) {
+            this.completed = true
+        } else {
+            this.questionIndex = nextStep
+        }
+        this.notify()
+        return true
+    }
+
+    dismiss(): void {
+        if (this.completed || this.dismissed) {
+            return
+        }
+        this.dismissed = true
+        dismissedSurveyEvent(this.survey, this.posthog)
+        this.notify()
+    }
+
+    onChange(callback: () => void): () => void {
+        this.callbacks.push(callback)
+        return () => {
+            const index = this.callbacks.indexOf(callback)
+            if (index >= 0) {
+                this.callbacks.splice(index, 1)
+            }
+        }
+    }
+
+    private getNextQuestionIndex(
+        question: SurveyQuestion,
+        response: SurveyQuestionResponse
+    ): number | SurveyQuestionBranchingType.End {
+        const branchingType = question.branching?.type
+        if (
+            !branchingType ||
+            branchingType === SurveyQuestionBranchingType.NextQuestion ||
+            // a skipped question has nothing to branch on
+            (branchingType === SurveyQuestionBranchingType.ResponseBased && isNull(response))
+        ) {
+            return this.questionIndex === this.questions.length - 1
+                ? SurveyQuestionBranchingType.End
+                : this.questionIndex + 1
+        }
+        // branching refers to the questions in the survey's order, rather than the shuffled one they're shown in
+        const nextStep = getNextSurveyStep(this.survey, this.survey.questions.indexOf(question), response)
+        if (nextStep === SurveyQuestionBranchingType.End) {
+            return nextStep
+        }
+        const nextIndex = this.originalQuestions.indexOf(this.survey.questions[nextStep])
+        return nextIndex === -1 ? SurveyQuestionBranchingType.End : nextIndex
+    }
+
+    private notify() {
+        this.callbacks.forEach((callback) => {
+            try {
+                callback()
+            } catch (e) {
+                logger.error('Error in survey controller callback', e)
+            }
+        })
+    }
+}
@@ -5,16 +5,22 @@ import {
     Survey,
     SurveyAppearance,
     SurveyQuestion,
+    SurveyQuestionResponse,
+    SurveyQuestionType,
     SurveySchedule,
+    SurveyTranslation,
     SurveyType,
 } from '../../posthog-surveys-types'
-import { document as _document, window as _window } from '../../utils/globals'
+import { STORED_PERSON_PROPERTIES_KEY } from '../../constants'
+import { document as _document, navigator, window as _window } from '../../utils/globals'
+import { isArray, isObject, isString } from '../../utils/type-utils'
 import { createLogger } from '../../utils/logger'
 import { prepareStylesheet } from '../utils/stylesheet-loader'
 // We cast the types here which is dangerous but protected by the top level generateSurveys call
 const window = _window as Window & typeof globalThis
 const document = _document as Document
 const SurveySeenPrefix = 'seenSurvey_'
+const SurveyInProgressPrefix = 'inProgressSurvey_'
 
 const logger = createLogger('[Surveys]')
 
@@ -315,6 +321,69 @@ export const style = (appearance: SurveyAppearance | null) => {
               border: 0;
               outline: 0;
           }
+          .ranking-options {
+              margin: 13px 0 0;
+              padding: 0;
+              list-style: none;
+              font-size: 13px;
+          }
+          .ranking-option {
+              display: flex;
+              align-items: center;
+              gap: 8px;
+              margin-bottom: 5px;
+              padding: 8px 10px;
+              border: 1.5px solid rgba(0,0,0,.25);
+              border-radius: 4px;
+              background: white;
+              cursor: grab;
+          }
+          .ranking-option:focus, .ranking-option-dragging {
+              border-color: rgba(0,0,0);
+          }
+          .ranking-option-dragging {
+              opacity: 0.6;
+          }
+          .ranking-position {
+              font-weight: bold;
+              color: black;
+          }
+          .ranking-choice {
+              flex-grow: 1;
+          }
+          .ranking-move {
+              border: none;
+              background: none;
+              cursor: pointer;
+              color: black;
+          }
+          .ranking-move:disabled {
+              opacity: 0.25;
+              cursor: default;
+          }
+          .matrix-options {
+              margin-top: 13px;
+              overflow-x: auto;
+              font-size: 13px;
+          }
+          .matrix-options table {
+              width: 100%;
+              border-collapse: collapse;
+          }
+          .matrix-options th {
+              font-weight: normal;
+              padding: 4px;
+          }
+          .matrix-options tbody th {
+              text-align: left;
+          }
+          .matrix-options td {
+              text-align: center;
+              padding: 4px;
+          }
+          .matrix-options input {
+              cursor: pointer;
+          }
           .thank-you-message-body {
               margin-top: 6px;
               font-size: 14px;
@@ -334,6 +403,19 @@ export const style = (appearance: SurveyAppearance | null) => {
           .bottom-section {
               margin-top: 14px;
           }
+          .resume-survey .buttons {
+              flex-direction: column;
+              gap: 8px;
+          }
+          .form-start-over {
+              border: none;
+              background: none;
+              color: inherit;
+              cursor: pointer;
+              font-family: inherit;
+              font-size: 13px;
+              text-decoration: underline;
+          }
           `
 
     return styles
@@ -569,16 +651,28 @@ export const createShadow = (styleSheet: string, surveyId: string, element?: Ele
     return shadow
 }
 
+export interface SurveySubmission {
+    locale?: string
+    // the same for every event of one response, so that partial responses can be upserted
+    submissionId?: string
+    // false for the partial responses sent after each question
+    isSurveyCompleted?: boolean
+}
+
 export const sendSurveyEvent = (
-    responses: Record<string, string | number | string[] | null> = {},
+    responses: Record<string, SurveyQuestionResponse> = {},
     survey: Survey,
-    posthog?: PostHog
+    posthog?: PostHog,
+    { locale, submissionId, isSurveyCompleted = true }: SurveySubmission = {}
 ) => {
     if (!posthog) {
         logger.error('[survey sent] event not captured, PostHog instance not found.')
         return
     }
-    localStorage.setItem(getSurveySeenKey(survey), 'true')
+    if (isSurveyCompleted) {
+        localStorage.setItem(getSurveySeenKey(survey), 'true')
+        clearInProgressSurvey(survey)
+    }
 
     posthog.capture('survey sent', {
         $survey_name: survey.name,
@@ -588,15 +682,40 @@ export const sendSurveyEvent = (
         $survey_questions: survey.questions.map((question, index) => ({
             id: question.id,
             question: question.question,
+            type: question.type,
             index,
+            // so that ranked choices and matrix answers can be read back in order
+            ...(question.type === SurveyQuestionType.Ranking ? { choices: question.choices } : {}),
+            ...(question.type === SurveyQuestionType.Matrix ? { rows: question.rows, columns: question.columns } : {}),
         })),
+        $survey_locale: locale,
+        $survey_submission_id: submissionId,
+        $survey_completed: isSurveyCompleted,
         sessionRecordingUrl: posthog.get_session_replay_url?.(),
         ...responses,
-        $set: {
-            [getSurveyInteractionProperty(survey, 'responded')]: true,
-        },
+        ...(isSurveyCompleted
+            ? {
+                  $set: {
+                      [getSurveyInteractionProperty(survey, 'responded')]: true,
+                  },
+              }
+            : {}),
     })
-    window.dispatchEvent(new Event('PHSurveySent'))
+    if (isSurveyCompleted) {
+        window.dispatchEvent(new Event('PHSurveySent'))
+    }
+}
+
+export const shownSurveyEvent = (survey: Survey, posthog: PostHog, locale?: string) => {
+    posthog.capture('survey shown', {
+        $survey_name: survey.name,
+        $survey_id: survey.id,
+        $survey_iteration: survey.current_iteration,
+        $survey_iteration_start_date: survey.current_iteration_start_date,
+        $survey_locale: locale,
+        sessionRecordingUrl: posthog.get_session_replay_url?.(),
+    })
+    localStorage.setItem('lastSeenSurveyDate', new Date().toISOString())
 }
 
 export const dismissedSurveyEvent = (survey: Survey, posthog?: PostHog, readOnly?: boolean) => {
@@ -619,6 +738,7 @@ export const dismissedSurveyEvent = (survey: Survey, posthog?: PostHog, readOnly
         },
     })
     localStorage.setItem(getSurveySeenKey(survey), 'true')
+    clearInProgressSurvey(survey)
     window.dispatchEvent(new Event('PHSurveyClosed'))
 }
 
@@ -639,7 +759,9 @@ const reverseIfUnshuffled = (unshuffled: any[], shuffled: any[]): any[] => {
     return shuffled
 }
 
-export const getDisplayOrderChoices = (question: MultipleSurveyQuestion): string[] => {
+export const getDisplayOrderChoices = (
+    question: Pick<MultipleSurveyQuestion, 'choices' | 'shuffleOptions' | 'hasOpenChoice'>
+): string[] => {
     if (!question.shuffleOptions) {
         return question.choices
     }
@@ -669,6 +791,126 @@ export const getDisplayOrderQuestions = (survey: Survey): SurveyQuestion[] => {
     return reverseIfUnshuffled(survey.questions, shuffle(survey.questions))
 }
 
+const normalizeLocale = (locale: string): string => locale.toLowerCase().replace('_', '-')
+
+const matchLocale = (locale: unknown, available: string[]): string | undefined => {
+    if (!isString(locale) || !locale) {
+        return undefined
+    }
+    const normalized = normalizeLocale(locale)
+    const language = normalized.split('-')[0]
+    return (
+        available.find((candidate) => normalizeLocale(candidate) === normalized) ||
+        // e.g. `de-AT` is better served by `de` than by the default language
+        available.find((candidate) => normalizeLocale(candidate).split('-')[0] === language)
+    )
+}
+
+/**
+ * Picks the translation to show the survey in: the configured locale, else the `locale` person property,
+ * else the first of the browser languages that the survey is written in or translated to,
+ * falling back to its default locale
+ */
+export const getSurveyLocale = (
+    survey: Pick<Survey, 'default_locale' | 'translations'>,
+    posthog?: PostHog
+): string | undefined => {
+    const available = Object.keys(survey.translations || {})
+    // matching the default locale means showing the survey as written, rather than a later preference's translation
+    if (survey.default_locale) {
+        available.push(survey.default_locale)
+    }
+    const candidates: unknown[] = [
+        posthog?.config?.survey_locale,
+        posthog?.get_property?.(STORED_PERSON_PROPERTIES_KEY)?.locale,
+        ...(navigator?.languages || [navigator?.language]),
+    ]
+    for (const candidate of candidates) {
+        const locale = matchLocale(candidate, available)
+        if (locale) {
+            return locale
+        }
+    }
+    return survey.default_locale || undefined
+}
+
+export const getSurveyTranslation = (
+    survey: Pick<Survey, 'translations'>,
+    locale: string | undefined
+): SurveyTranslation | undefined => (locale ? survey.translations?.[locale] : undefined)
+
+export const localizeAppearance = (
+    appearance: SurveyAppearance | null,
+    translation: SurveyTranslation | undefined
+): SurveyAppearance | null =>
+    translation?.appearance && appearance ? { ...appearance, ...translation.appearance } : appearance
+
+type SurveyQuestionOptionsKey = 'choices' | 'rows' | 'columns'
+
+const getQuestionOptions = (question: SurveyQuestion, key: SurveyQuestionOptionsKey): string[] | undefined => {
+    const options = (question as Partial<Record<SurveyQuestionOptionsKey, string[]>>)[key]
+    return isArray(options) ? options : undefined
+}
+
+export const localizeQuestion = (
+    question: SurveyQuestion,
+    translation: SurveyTranslation | undefined
+): SurveyQuestion => {
+    const questionTranslation = question.id ? translation?.questions?.[question.id] : undefined
+    if (!questionTranslation) {
+        return question
+    }
+    // a translation missing some of the options would misalign the responses, so the original ones are kept
+    const originalOptions: Partial<Record<SurveyQuestionOptionsKey, string[]>> = {}
+    ;(['choices', 'rows', 'columns'] as const).forEach((key) => {
+        const original = getQuestionOptions(question, key)
+        if (!original || questionTranslation[key]?.length !== original.length) {
+            originalOptions[key] = original
+        }
+    })
+    return { ...question, ...questionTranslation, ...originalOptions } as SurveyQuestion
+}
+
+/**
+ * Maps a response to a localized question back to the original text of its options,
+ * so that responses can be compared across languages
+ */
+export const getCanonicalResponse = (
+    question: SurveyQuestion,
+    localized: SurveyQuestion,
+    response: SurveyQuestionResponse
+): SurveyQuestionResponse => {
+    const toCanonical = (value: string, from: string[], to: string[]): string => {
+        const index = from.indexOf(value)
+        // open choices aren't translated
+        return index === -1 ? value : to[index]
+    }
+
+    if (
+        localized.type === SurveyQuestionType.SingleChoice ||
+        localized.type === SurveyQuestionType.MultipleChoice ||
+        localized.type === SurveyQuestionType.Ranking
+    ) {
+        const choices = (question as typeof localized).choices
+        if (isString(response)) {
+            return toCanonical(response, localized.choices, choices)
+        }
+        if (isArray(response)) {
+            return response.map((value) => toCanonical(value, localized.choices, choices))
+        }
+    }
+    if (localized.type === SurveyQuestionType.Matrix && isObject(response)) {
+        const { rows, columns } = question as typeof localized
+        const answers = response as Record<string, string>
+        const canonical: Record<string, string> = {}
+        Object.keys(answers).forEach((row) => {
+            canonical[toCanonical(row, localized.rows, rows)] = toCanonical(answers[row], localized.columns, columns)
+        })
+        return canonical
+    }
+    return response
+}
+
 export const hasEvents = (survey: Pick<Survey, 'conditions'>): boolean => {
     return survey.conditions?.events?.values?.length != undefined && survey.conditions?.events?.values?.length > 0
 }
@@ -718,6 +960,60 @@ export const getSurveySeenStorageKeys = (): string[] => {
     return surveyKeys
 }
 
+/**
+ * The answers given so far to a survey that wasn't finished, e.g. because the user navigated away
+ */
+export interface InProgressSurvey {
+    submissionId: string
+    responses: Record<string, SurveyQuestionResponse>
+    // the id rather than the index, as the questions can be shuffled differently on the next page
+    currentQuestionId: string
+}
+
+const getInProgressSurveyKey = (survey: Pick<Survey, 'id' | 'current_iteration'>): string => {
+    let inProgressKey = `${SurveyInProgressPrefix}${survey.id}`
+    if (survey.current_iteration && survey.current_iteration > 0) {
+        inProgressKey = `${SurveyInProgressPrefix}${survey.id}_${survey.current_iteration}`
+    }
+
+    return inProgressKey
+}
+
+export const getInProgressSurvey = (survey: Pick<Survey, 'id' | 'current_iteration'>): InProgressSurvey | null => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(getInProgressSurveyKey(survey)) || 'null')
+        return isObject(stored) && isString(stored.submissionId) && isString(stored.currentQuestionId)
+            ? (stored as InProgressSurvey)
+            : null
+    } catch {
+        return null
+    }
+}
+
+export const setInProgressSurvey = (survey: Pick<Survey, 'id' | 'current_iteration'>, progress: InProgressSurvey) => {
+    try {
+        localStorage.setItem(getInProgressSurveyKey(survey), JSON.stringify(progress))
+    } catch (e) {
+        logger.error('Could not store the survey progress', e)
+    }
+}
+
+export const clearInProgressSurvey = (survey: Pick<Survey, 'id' | 'current_iteration'>) => {
+    localStorage.removeItem(getInProgressSurveyKey(survey))
+}
+
+export const getInProgressSurveyStorageKeys = (): string[] => {
+    const surveyKeys = []
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        if (key?.startsWith(SurveyInProgressPrefix)) {
+            surveyKeys.push(key)
+        }
+    }
+
+    return surveyKeys
+}
+
 const getSurveyInteractionProperty = (survey: Survey, action: string): string => {
     let surveyProperty = `$survey_${action}/${survey.id}`
     if (survey.current_iteration && survey.current_iteration > 0) {
@@ -746,7 +1042,8 @@ interface SurveyContextProps {
     previewPageIndex: number | undefined
     onPopupSurveyDismissed: () => void
     isPopup: boolean
-    onPreviewSubmit: (res: string | string[] | number | null) => void
+    onPreviewSubmit: (res: SurveyQuestionResponse) => void
+    locale?: string
 }
 
 export const SurveyContext = createContext<SurveyContextProps>({
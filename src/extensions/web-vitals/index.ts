@@ -61,7 +61,8 @@ export class WebVitalsAutocapture {
         const clientConfig = isObject(this.instance.config.capture_performance)
             ? this.instance.config.capture_performance.web_vitals
             : undefined
-        return isBoolean(clientConfig) ? clientConfig : this._enabledServerSide
+        const enabled = isBoolean(clientConfig) ? clientConfig : this._enabledServerSide
+        return enabled && this.instance.consent.isGranted('web_vitals')
     }
 
     public startIfEnabled(): void {
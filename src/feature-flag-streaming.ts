@@ -0,0 +1,175 @@
+import { PostHog } from './posthog-core'
+import { PostHogFeatureFlags } from './posthog-featureflags'
+import { extendURLParams } from './request'
+import { pickNextRetryDelay } from './retry-queue'
+import { DecideResponse, FeatureFlagStreamingOptions } from './types'
+import { addEventListener } from './utils'
+import { assignableWindow, document } from './utils/globals'
+import { createLogger } from './utils/logger'
+import { isBoolean, isObject } from './utils/type-utils'
+
+const logger = createLogger('[FeatureFlags]')
+
+// how often flags are polled for instead when there's no stream, unless `feature_flag_poll_interval_ms` is set
+const FALLBACK_POLL_INTERVAL_MS = 60000
+// a kill switch shouldn't wait for the half hour that failed requests back off to
+const MAX_RECONNECT_DELAY_MS = 60000
+// a stream that never opens most likely isn't served by the host, e.g. an older self-hosted instance or a proxy
+const MAX_FAILED_CONNECTS = 5
+
+/**
+ * Keeps feature flags up to date while the page is open, by streaming changes over Server-Sent Events
+ * or by polling when the browser doesn't support them or the stream can't be reached
+ */
+export class FeatureFlagStreaming {
+    private _eventSource: EventSource | undefined
+    private _connectedUrl: string | undefined
+    private _reconnectTimer: ReturnType<typeof setTimeout> | undefined
+    private _reconnectAttempts = 0
+    private _failedConnects = 0
+    private _pollingFallback = false
+    private _started = false
+
+    constructor(
+        private readonly _instance: PostHog,
+        private readonly _featureFlags: PostHogFeatureFlags
+    ) {}
+
+    private get _options(): FeatureFlagStreamingOptions {
+        const config = this._instance.config.feature_flag_streaming
+        return isObject(config) ? config : {}
+    }
+
+    public get isEnabled(): boolean {
+        const config = this._instance.config.feature_flag_streaming
+        return (
+            (isBoolean(config) ? config : isObject(config)) &&
+            !this._instance.config.advanced_disable_feature_flags &&
+            !this._instance.consent.isOptedOut()
+        )
+    }
+
+    private get _url(): string {
+        const url = this._options.url || this._instance.requestRouter.endpointFor('api', '/flags/stream/')
+        return extendURLParams(url, {
+            token: this._instance.config.token,
+            distinct_id: this._instance.get_distinct_id(),
+        })
+    }
+
+    /**
+     * How often PostHogFeatureFlags should poll for flags as the stream can't be used, if at all
+     */
+    public get fallbackPollIntervalMs(): number | undefined {
+        return this._started && (!assignableWindow.EventSource || this._pollingFallback)
+            ? FALLBACK_POLL_INTERVAL_MS
+            : undefined
+    }
+
+    public startIfEnabledOrStop(): void {
+        if (!this.isEnabled) {
+            this.stop()
+            return
+        }
+        if (this._started) {
+            return
+        }
+        this._started = true
+        addEventListener(document, 'visibilitychange', this._onVisibilityChange)
+        this._resume()
+    }
+
+    public stop(): void {
+        if (this._started) {
+            document?.removeEventListener('visibilitychange', this._onVisibilityChange)
+        }
+        this._started = false
+        this._pause()
+    }
+
+    /**
+     * Reconnects when the stream is for someone else, e.g. after `identify` or `reset`
+     */
+    public sync(): void {
+        if (this._eventSource && this._connectedUrl !== this._url) {
+            this._pause()
+            this._resume()
+        }
+    }
+
+    private _onVisibilityChange = (): void => {
+        if (document?.visibilityState === 'hidden') {
+            this._pause()
+        } else if (!this._eventSource) {
+            // changes made while the page was hidden were missed
+            this._featureFlags.reloadFeatureFlags()
+            this._resume()
+        }
+    }
+
+    private _resume(): void {
+        if (!this._started || document?.visibilityState === 'hidden') {
+            return
+        }
+        if (assignableWindow.EventSource && !this._pollingFallback) {
+            this._connect()
+        }
+    }
+
+    private _pause(): void {
+        clearTimeout(this._reconnectTimer)
+        this._reconnectTimer = undefined
+        this._eventSource?.close()
+        this._eventSource = undefined
+    }
+
+    private _connect(): void {
+        const url = this._url
+        const eventSource: EventSource = new assignableWindow.EventSource(url)
+        this._eventSource = eventSource
+        this._connectedUrl = url
+        let opened = false
+
+        eventSource.onopen = () => {
+            opened = true
+            this._reconnectAttempts = 0
+            this._failedConnects = 0
+        }
+        eventSource.onmessage = (message: MessageEvent) => this._onMessage(message.data)
+        eventSource.onerror = () => {
+            // the browser would reconnect straight away, and keeps doing so while the server is down
+            eventSource.close()
+            if (this._eventSource !== eventSource) {
+                return
+            }
+            this._eventSource = undefined
+            if (!opened && ++this._failedConnects >= MAX_FAILED_CONNECTS) {
+                logger.warn(`Flag stream could not connect ${MAX_FAILED_CONNECTS} times, polling instead`)
+                this._pollingFallback = true
+                this._featureFlags.startBackgroundRefreshIfEnabledOrStop()
+                return
+            }
+            const delay = Math.min(pickNextRetryDelay(this._reconnectAttempts++), MAX_RECONNECT_DELAY_MS)
+            logger.warn(`Flag stream disconnected, reconnecting in ${delay}ms`)
+            this._reconnectTimer = setTimeout(() => {
+                this._reconnectTimer = undefined
+                this._resume()
+            }, delay)
+        }
+    }
+
+    private _onMessage(data: string): void {
+        let response: Partial<DecideResponse>
+        try {
+            response = JSON.parse(data)
+        } catch {
+            logger.error('Could not parse the flag stream message', data)
+            return
+        }
+        if (!isObject(response)) {
+            return
+        }
+        // messages only contain the flags that changed, so the others are kept
+        this._featureFlags.receivedFeatureFlags(response, false, true)
+    }
+}
@@ -73,6 +73,9 @@ export class Heatmaps {
     }
 
     public get isEnabled(): boolean {
+        if (!this.instance.consent.isGranted('heatmaps')) {
+            return false
+        }
         if (!isUndefined(this.instance.config.capture_heatmaps)) {
             return this.instance.config.capture_heatmaps !== false
         }
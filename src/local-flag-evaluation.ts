@@ -0,0 +1,284 @@
+import {
+    EvaluationReason,
+    FeatureFlagDefinition,
+    FeatureFlagDefinitions,
+    FeatureFlagDetail,
+    FlagConditionGroup,
+    FlagPropertyFilter,
+    JsonType,
+    Properties,
+} from './types'
+import { sha1 } from './utils/sha1'
+import { isArray, isNullish, isNumber, isString, isUndefined } from './utils/type-utils'
+import { isMatchingRegex } from './utils/regex-utils'
+
+// the same scale as the server, which turns the first 15 hex characters of the hash into a float between 0 and 1.
+// The server's 0xfffffffffffffff is 2^60 once it is a float, which it is in JS too
+const LONG_SCALE = Math.pow(2, 60)
+
+export interface LocalEvaluationContext {
+    distinctId: string
+    groups: Record<string, string>
+    personProperties: Properties
+    groupProperties: Record<string, Properties>
+}
+
+/**
+ * Hashes the same way the server does, so that a flag rolled out to a percentage of users
+ * is on for the same users whether it was evaluated in the browser or by `/decide`
+ */
+export function hashFlag(key: string, distinctId: string, salt: string = ''): number {
+    return parseInt(sha1(`${key}.${distinctId}${salt}`).slice(0, 15), 16) / LONG_SCALE
+}
+
+const toNumber = (value: unknown): number | undefined => {
+    const parsed = isNumber(value) ? value : isString(value) && value.trim() !== '' ? Number(value) : NaN
+    return isNaN(parsed) ? undefined : parsed
+}
+
+const RELATIVE_DATE = /^-?(\d+)([hdwmy])$/
+
+const parseDate = (value: unknown): Date | undefined => {
+    if (!isString(value) && !isNumber(value)) {
+        return
+    }
+    const relative = isString(value) ? value.match(RELATIVE_DATE) : null
+    if (relative) {
+        const amount = parseInt(relative[1], 10)
+        const date = new Date()
+        switch (relative[2]) {
+            case 'h':
+                date.setHours(date.getHours() - amount)
+                break
+            case 'd':
+                date.setDate(date.getDate() - amount)
+                break
+            case 'w':
+                date.setDate(date.getDate() - amount * 7)
+                break
+            case 'm':
+                date.setMonth(date.getMonth() - amount)
+                break
+            case 'y':
+                date.setFullYear(date.getFullYear() - amount)
+                break
+        }
+        return date
+    }
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? undefined : date
+}
+
+const compare = (override: unknown, value: unknown, operator: 'gt' | 'gte' | 'lt' | 'lte'): boolean => {
+    const overrideNumber = toNumber(override)
+    const valueNumber = toNumber(value)
+    const [a, b] =
+        !isUndefined(overrideNumber) && !isUndefined(valueNumber)
+            ? [overrideNumber, valueNumber]
+            : [String(override), String(value)]
+    switch (operator) {
+        case 'gt':
+            return a > b
+        case 'gte':
+            return a >= b
+        case 'lt':
+            return a < b
+        case 'lte':
+            return a <= b
+    }
+}
+
+/**
+ * Matches a single property filter against the known properties, with the semantics of the server.
+ * Returns undefined when only the server can tell, e.g. because we don't know the property.
+ */
+export function matchProperty(property: FlagPropertyFilter, values: Properties): boolean | undefined {
+    const operator = property.operator || 'exact'
+    // whether a property we don't have is set on the person is something only the server knows
+    if (!(property.key in values) || operator === 'is_not_set') {
+        return undefined
+    }
+
+    const value = property.value
+    const override = values[property.key]
+    const matchesExactly = () => {
+        const expected = isArray(value) ? value : [value]
+        return expected.some((v) => String(v).toLowerCase() === String(override).toLowerCase())
+    }
+
+    switch (operator) {
+        case 'exact':
+            return matchesExactly()
+        case 'is_not':
+            return !matchesExactly()
+        case 'is_set':
+            return true
+        case 'icontains':
+            return String(override).toLowerCase().indexOf(String(value).toLowerCase()) !== -1
+        case 'not_icontains':
+            return String(override).toLowerCase().indexOf(String(value).toLowerCase()) === -1
+        case 'regex':
+            return isMatchingRegex(String(override), String(value))
+        case 'not_regex':
+            return !isMatchingRegex(String(override), String(value))
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+            return compare(override, value, operator)
+        case 'is_date_before':
+        case 'is_date_after': {
+            const expected = parseDate(value)
+            const actual = parseDate(override)
+            if (!expected || !actual) {
+                return undefined
+            }
+            return operator === 'is_date_before' ? actual < expected : actual > expected
+        }
+        default:
+            return undefined
+    }
+}
+
+const variantFor = (flag: FeatureFlagDefinition, hashKey: string): string | undefined => {
+    const variants = flag.filters.multivariate?.variants || []
+    const hash = hashFlag(flag.key, hashKey, 'variant')
+    let lowerBound = 0
+    for (const variant of variants) {
+        const upperBound = lowerBound + variant.rollout_percentage / 100
+        if (hash >= lowerBound && hash < upperBound) {
+            return variant.key
+        }
+        lowerBound = upperBound
+    }
+    return undefined
+}
+
+type ConditionResult = 'match' | 'no_match' | 'out_of_rollout_bound' | 'inconclusive'
+
+const matchCondition = (
+    flag: FeatureFlagDefinition,
+    condition: FlagConditionGroup,
+    hashKey: string,
+    properties: Properties
+): ConditionResult => {
+    for (const property of condition.properties || []) {
+        // cohorts and flag dependencies aren't part of the definitions
+        const matches =
+            property.type === 'cohort' || property.type === 'flag' ? undefined : matchProperty(property, properties)
+        if (isUndefined(matches)) {
+            return 'inconclusive'
+        }
+        if (!matches) {
+            return 'no_match'
+        }
+    }
+    if (isNullish(condition.rollout_percentage)) {
+        return 'match'
+    }
+    return hashFlag(flag.key, hashKey) > condition.rollout_percentage / 100 ? 'out_of_rollout_bound' : 'match'
+}
+
+const reason = (code: string, description: string, conditionIndex?: number): EvaluationReason => ({
+    code,
+    condition_index: conditionIndex,
+    description: `${description} (evaluated locally)`,
+})
+
+/**
+ * Evaluates a flag from its definition, or returns undefined if it can't be evaluated in the browser
+ */
+export function evaluateFlagLocally(
+    flag: FeatureFlagDefinition,
+    definitions: FeatureFlagDefinitions,
+    context: LocalEvaluationContext
+): FeatureFlagDetail | undefined {
+    if (flag.ensure_experience_continuity) {
+        // the server keeps a hash key override per person for these, which we don't know
+        return undefined
+    }
+
+    const detail = (enabled: boolean, evaluationReason: EvaluationReason, variant?: string): FeatureFlagDetail => {
+        const payload: JsonType | undefined = enabled ? flag.filters.payloads?.[variant ?? 'true'] : undefined
+        return {
+            key: flag.key,
+            enabled,
+            variant,
+            reason: evaluationReason,
+            metadata: { id: flag.id, version: flag.version, description: undefined, payload },
+        }
+    }
+
+    if (!flag.active) {
+        return detail(false, reason('disabled', 'Feature flag is disabled'))
+    }
+
+    let hashKey = context.distinctId
+    let properties = context.personProperties
+    const groupTypeIndex = flag.filters.aggregation_group_type_index
+    if (!isNullish(groupTypeIndex)) {
+        const groupType = definitions.group_type_mapping?.[String(groupTypeIndex)]
+        const groupKey = groupType ? context.groups[groupType] : undefined
+        if (!groupType || !groupKey) {
+            return detail(false, reason('no_group_type', 'No group for the group type of this flag'))
+        }
+        hashKey = groupKey
+        properties = context.groupProperties[groupType] || {}
+    }
+
+    let outOfRolloutIndex: number | undefined
+    let inconclusive = false
+    const conditions = flag.filters.groups || []
+    // like the server, conditions that override the variant are tried first, keeping their order otherwise
+    const order = conditions.map((_, index) => index)
+    order.sort((a, b) => (conditions[a].variant ? 0 : 1) - (conditions[b].variant ? 0 : 1) || a - b)
+    for (const index of order) {
+        const condition = conditions[index]
+        const result = matchCondition(flag, condition, hashKey, properties)
+        if (result === 'match') {
+            const variants = flag.filters.multivariate?.variants || []
+            const override = condition.variant
+            const variant = override && variants.some((v) => v.key === override) ? override : variantFor(flag, hashKey)
+            return detail(true, reason('condition_match', `Matched condition set ${index + 1}`, index), variant)
+        }
+        if (result === 'inconclusive') {
+            // a later condition could still match, but if none does this one might have on the server
+            inconclusive = true
+        }
+        if (result === 'out_of_rollout_bound' && isUndefined(outOfRolloutIndex)) {
+            outOfRolloutIndex = index
+        }
+    }
+
+    if (inconclusive) {
+        return undefined
+    }
+    if (!isUndefined(outOfRolloutIndex)) {
+        return detail(
+            false,
+            reason(
+                'out_of_rollout_bound',
+                `Out of rollout bound for condition set ${outOfRolloutIndex + 1}`,
+                outOfRolloutIndex
+            )
+        )
+    }
+    return detail(false, reason('no_condition_match', 'No matching condition set'))
+}
+
+/**
+ * Evaluates every flag that can be evaluated in the browser
+ */
+export function evaluateFlagsLocally(
+    definitions: FeatureFlagDefinitions,
+    context: LocalEvaluationContext
+): Record<string, FeatureFlagDetail> {
+    const details: Record<string, FeatureFlagDetail> = {}
+    ;(definitions.flags || []).forEach((flag) => {
+        const detail = evaluateFlagLocally(flag, definitions, context)
+        if (detail) {
+            details[flag.key] = detail
+        }
+    })
+    return details
+}
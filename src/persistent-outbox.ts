@@ -0,0 +1,551 @@
+import type { PostHog } from './posthog-core'
+import { jsonStringify } from './request'
+import { isRetriableStatus, pickNextRetryDelay } from './retry-queue'
+import { localStore } from './storage'
+import { PersistentOutboxConfig, QueuedRequestWithOptions, RetriableRequestWithOptions } from './types'
+import { addEventListener } from './utils'
+import { window } from './utils/globals'
+import { createLogger } from './utils/logger'
+import { isArray, isBoolean, isNumber, isObject, isUndefined } from './utils/type-utils'
+import { uuidv7 } from './uuidv7'
+
+const logger = createLogger('[PersistentOutbox]')
+
+export const DEFAULT_OUTBOX_MAX_BYTES = 2 * 1024 * 1024
+export const DEFAULT_OUTBOX_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+const IDB_VERSION = 1
+const IDB_STORE_NAME = 'requests'
+// a tab renews its claims well within this, so an older claim is from a tab that went away without releasing it
+const CLAIM_LEASE_MS = 60 * 1000
+
+/**
+ * A request that has been written to the outbox and not yet confirmed as delivered.
+ * The data is stored already serialized, so that both storage backends hold exactly the same thing
+ * and so that we only pay the cost of measuring its size once.
+ */
+export interface OutboxEntry {
+    id: string
+    createdAt: number
+    size: number
+    url: string
+    batchKey?: string
+    payload: string
+    // the tab that is sending the request and when it took it on, so that other tabs leave it alone
+    claimedBy?: string
+    claimedAt?: number
+}
+
+interface OutboxStore {
+    getAll(callback: (entries: OutboxEntry[]) => void): void
+    put(entry: OutboxEntry): void
+    remove(id: string): void
+    /**
+     * Marks the entries as being sent by `owner`, or renews the claims it already has.
+     * Calls back with the ids it claimed and the ids that are no longer stored, the others are claimed by another tab.
+     */
+    claim(ids: string[], owner: string, callback: (claimed: string[], missing: string[]) => void): void
+    /**
+     * Lets other tabs pick up the entries claimed by `owner`
+     */
+    release(ids: string[], owner: string): void
+}
+
+const claimEntry = (entry: OutboxEntry, owner: string): boolean => {
+    const now = Date.now()
+    if (
+        entry.claimedBy &&
+        entry.claimedBy !== owner &&
+        isNumber(entry.claimedAt) &&
+        now - entry.claimedAt < CLAIM_LEASE_MS
+    ) {
+        return false
+    }
+    entry.claimedBy = owner
+    entry.claimedAt = now
+    return true
+}
+
+const releaseEntry = (entry: OutboxEntry, owner: string): boolean => {
+    if (entry.claimedBy !== owner) {
+        return false
+    }
+    delete entry.claimedBy
+    delete entry.claimedAt
+    return true
+}
+
+class LocalStorageOutboxStore implements OutboxStore {
+    constructor(private readonly _key: string) {}
+
+    private _read(): OutboxEntry[] {
+        const stored = localStore.parse(this._key)
+        return isArray(stored) ? stored : []
+    }
+
+    getAll(callback: (entries: OutboxEntry[]) => void): void {
+        callback(this._read())
+    }
+
+    put(entry: OutboxEntry): void {
+        localStore.set(this._key, [...this._read().filter((e) => e.id !== entry.id), entry])
+    }
+
+    remove(id: string): void {
+        const remaining = this._read().filter((e) => e.id !== id)
+        if (remaining.length) {
+            localStore.set(this._key, remaining)
+        } else {
+            localStore.remove(this._key)
+        }
+    }
+
+    claim(ids: string[], owner: string, callback: (claimed: string[], missing: string[]) => void): void {
+        const entries = this._read()
+        const storedIds = entries.map((e) => e.id)
+        const claimed = entries.filter((e) => ids.indexOf(e.id) !== -1 && claimEntry(e, owner)).map((e) => e.id)
+        if (claimed.length) {
+            localStore.set(this._key, entries)
+        }
+        callback(
+            claimed,
+            ids.filter((id) => storedIds.indexOf(id) === -1)
+        )
+    }
+
+    release(ids: string[], owner: string): void {
+        const entries = this._read()
+        const released = entries.filter((e) => ids.indexOf(e.id) !== -1 && releaseEntry(e, owner))
+        if (released.length) {
+            localStore.set(this._key, entries)
+        }
+    }
+}
+
+/**
+ * Opening the database is asynchronous and can fail (e.g. in some private browsing modes),
+ * so operations are buffered until we know whether to use IndexedDB or the fallback store.
+ */
+class IndexedDBOutboxStore implements OutboxStore {
+    private _db: IDBDatabase | null | undefined = undefined
+    private _pending: ((db: IDBDatabase | null) => void)[] = []
+
+    constructor(
+        name: string,
+        private readonly _fallback: OutboxStore
+    ) {
+        try {
+            const openRequest = window!.indexedDB.open(name, IDB_VERSION)
+            openRequest.onupgradeneeded = () => {
+                openRequest.result.createObjectStore(IDB_STORE_NAME, { keyPath: 'id' })
+            }
+            openRequest.onsuccess = () => this._ready(openRequest.result)
+            openRequest.onerror = () => this._ready(null)
+            openRequest.onblocked = () => this._ready(null)
+        } catch (e) {
+            logger.warn('could not open IndexedDB, falling back to localStorage', e)
+            this._ready(null)
+        }
+    }
+
+    private _ready(db: IDBDatabase | null): void {
+        if (!isUndefined(this._db)) {
+            return
+        }
+        this._db = db
+        const pending = this._pending
+        this._pending = []
+        pending.forEach((fn) => fn(db))
+    }
+
+    private _withDb(fn: (db: IDBDatabase | null) => void): void {
+        if (isUndefined(this._db)) {
+            this._pending.push(fn)
+        } else {
+            fn(this._db)
+        }
+    }
+
+    private _objectStore(db: IDBDatabase, mode: IDBTransactionMode): IDBObjectStore {
+        return db.transaction(IDB_STORE_NAME, mode).objectStore(IDB_STORE_NAME)
+    }
+
+    getAll(callback: (entries: OutboxEntry[]) => void): void {
+        this._withDb((db) => {
+            if (!db) {
+                return this._fallback.getAll(callback)
+            }
+            const entries: OutboxEntry[] = []
+            try {
+                // openCursor rather than getAll, as the latter isn't available in older browsers
+                const cursorRequest = this._objectStore(db, 'readonly').openCursor()
+                cursorRequest.onsuccess = () => {
+                    const cursor = cursorRequest.result
+                    if (cursor) {
+                        entries.push(cursor.value)
+                        cursor.continue()
+                    } else {
+                        callback(entries)
+                    }
+                }
+                cursorRequest.onerror = () => callback(entries)
+            } catch (e) {
+                logger.error('could not read from IndexedDB', e)
+                callback(entries)
+            }
+        })
+    }
+
+    put(entry: OutboxEntry): void {
+        this._withDb((db) => {
+            if (!db) {
+                return this._fallback.put(entry)
+            }
+            try {
+                this._objectStore(db, 'readwrite').put(entry)
+            } catch (e) {
+                logger.error('could not write to IndexedDB', e)
+            }
+        })
+    }
+
+    remove(id: string): void {
+        this._withDb((db) => {
+            if (!db) {
+                return this._fallback.remove(id)
+            }
+            try {
+                this._objectStore(db, 'readwrite').delete(id)
+            } catch (e) {
+                logger.error('could not delete from IndexedDB', e)
+            }
+        })
+    }
+
+    claim(ids: string[], owner: string, callback: (claimed: string[], missing: string[]) => void): void {
+        this._withDb((db) => {
+            if (!db) {
+                return this._fallback.claim(ids, owner, callback)
+            }
+            const claimed: string[] = []
+            const missing: string[] = []
+            try {
+                // reading and writing in one transaction, so that no other tab can claim the entries in between
+                const transaction = db.transaction(IDB_STORE_NAME, 'readwrite')
+                const objectStore = transaction.objectStore(IDB_STORE_NAME)
+                ids.forEach((id) => {
+                    const getRequest = objectStore.get(id)
+                    getRequest.onsuccess = () => {
+                        const entry: OutboxEntry | undefined = getRequest.result
+                        if (!entry) {
+                            missing.push(id)
+                        } else if (claimEntry(entry, owner)) {
+                            claimed.push(id)
+                            objectStore.put(entry)
+                        }
+                    }
+                })
+                transaction.oncomplete = () => callback(claimed, missing)
+                transaction.onabort = () => callback([], [])
+            } catch (e) {
+                logger.error('could not claim in IndexedDB', e)
+                callback([], [])
+            }
+        })
+    }
+
+    release(ids: string[], owner: string): void {
+        this._withDb((db) => {
+            if (!db) {
+                return this._fallback.release(ids, owner)
+            }
+            try {
+                const objectStore = this._objectStore(db, 'readwrite')
+                ids.forEach((id) => {
+                    const getRequest = objectStore.get(id)
+                    getRequest.onsuccess = () => {
+                        const entry: OutboxEntry | undefined = getRequest.result
+                        if (entry && releaseEntry(entry, owner)) {
+                            objectStore.put(entry)
+                        }
+                    }
+                })
+            } catch (e) {
+                logger.error('could not release in IndexedDB', e)
+            }
+        })
+    }
+}
+
+// whatever the RetryQueue wouldn't send again is final, a rate limited request is kept until it's accepted
+const isDelivered = (statusCode: number): boolean => !isRetriableStatus(statusCode)
+
+/**
+ * The persistent outbox keeps a durable copy of every retriable request until it is delivered,
+ * so that events captured while offline survive the page being closed or reloaded.
+ *
+ * Entries left over from a previous page load are replayed in order after the next `init`,
+ * using the same backoff as the RetryQueue.
+ * Events keep their original uuid, so a replay of something that did actually arrive can be deduplicated at ingestion.
+ *
+ * The outbox is shared by all tabs, so an entry is claimed by the page that sends it and skipped by the others.
+ * The claims are renewed while the page is open and released when it's closed, so that no other tab takes over a
+ * request that is still in this page's RetryQueue, but the next page load does.
+ */
+export class PersistentOutbox {
+    private readonly _store: OutboxStore
+    private readonly _maxBytes: number
+    private readonly _maxAgeMs: number
+    private readonly _owner = uuidv7()
+    // ids of the entries this page is sending
+    private _claimed: string[] = []
+    private _renewTimer: ReturnType<typeof setInterval> | undefined
+    // entries we know are in storage, whether written by this page or a previous one
+    private _entries: OutboxEntry[] = []
+    private _toReplay: OutboxEntry[] | undefined = undefined
+    private _replayRequested = false
+    private _replaying = false
+    private _replayAttempts = 0
+    private _replayTimer: ReturnType<typeof setTimeout> | undefined
+
+    constructor(private readonly _instance: PostHog) {
+        const config: PersistentOutboxConfig = isObject(_instance.config.persistent_outbox)
+            ? _instance.config.persistent_outbox
+            : {}
+        this._maxBytes = isNumber(config.max_bytes) ? config.max_bytes : DEFAULT_OUTBOX_MAX_BYTES
+        this._maxAgeMs = isNumber(config.max_age_ms) ? config.max_age_ms : DEFAULT_OUTBOX_MAX_AGE_MS
+
+        const name = `ph_${_instance.config.token}_outbox`
+        const fallback = new LocalStorageOutboxStore(name)
+        this._store = window?.indexedDB ? new IndexedDBOutboxStore(name, fallback) : fallback
+
+        this._store.getAll((stored) => {
+            const now = Date.now()
+            const fresh: OutboxEntry[] = []
+            stored.forEach((entry) => {
+                if (now - entry.createdAt > this._maxAgeMs) {
+                    this._store.remove(entry.id)
+                } else {
+                    fresh.push(entry)
+                }
+            })
+            fresh.sort((a, b) => a.createdAt - b.createdAt)
+            this._toReplay = fresh
+            this._entries = [...fresh, ...this._entries]
+            this._enforceMaxBytes()
+            this._maybeStartReplay()
+        })
+
+        addEventListener(window, 'online', () => {
+            if (this._replaying) {
+                this._replayNext()
+            }
+        })
+        addEventListener(window, 'pagehide', () => {
+            if (this._claimed.length) {
+                this._store.release(this._claimed, this._owner)
+            }
+        })
+    }
+
+    /**
+     * The number of requests currently held in the outbox
+     */
+    get size(): number {
+        return this._entries.length
+    }
+
+    /**
+     * Writes the request to the outbox and returns options whose callback removes it again once it is delivered.
+     * Best-effort beacons sent while online are not tracked, as we can never know whether they arrived.
+     */
+    track(options: RetriableRequestWithOptions): RetriableRequestWithOptions {
+        if (!options.data || options.outboxId) {
+            return options
+        }
+        if (options.transport === 'sendBeacon' && this._isOnline()) {
+            return options
+        }
+
+        const payload = jsonStringify(options.data)
+        const entry: OutboxEntry = {
+            id: uuidv7(),
+            createdAt: Date.now(),
+            size: payload.length,
+            url: options.url,
+            batchKey: options.batchKey,
+            payload,
+            claimedBy: this._owner,
+            claimedAt: Date.now(),
+        }
+
+        if (entry.size > this._maxBytes) {
+            logger.warn(`request of ${entry.size} bytes is larger than the outbox, it will not be persisted`)
+            return options
+        }
+
+        this._entries.push(entry)
+        this._store.put(entry)
+        this._keepClaimed(entry.id)
+        this._enforceMaxBytes()
+
+        return {
+            ...options,
+            outboxId: entry.id,
+            callback: (response) => {
+                if (isDelivered(response.statusCode)) {
+                    this.remove(entry.id)
+                }
+                options.callback?.(response)
+            },
+        }
+    }
+
+    remove(id: string): void {
+        this._entries = this._entries.filter((e) => e.id !== id)
+        this._store.remove(id)
+        this._stopClaiming(id)
+    }
+
+    /**
+     * Starts sending anything left over from previous page loads.
+     * If the outbox hasn't finished reading from storage yet, replay starts as soon as it has.
+     */
+    replay(): void {
+        this._replayRequested = true
+        this._maybeStartReplay()
+    }
+
+    private _maybeStartReplay(): void {
+        if (!this._replayRequested || this._replaying || isUndefined(this._toReplay)) {
+            return
+        }
+        if (this._toReplay.length === 0) {
+            return
+        }
+        logger.info(`replaying ${this._toReplay.length} persisted requests`)
+        this._replaying = true
+        this._replayNext()
+    }
+
+    private _replayNext(): void {
+        clearTimeout(this._replayTimer)
+        this._replayTimer = undefined
+
+        // entries can have been evicted by the size cap since we loaded them
+        const toReplay = (this._toReplay || []).filter((e) => this._entries.indexOf(e) !== -1)
+        this._toReplay = toReplay
+        const entry = toReplay[0]
+        if (!entry) {
+            this._replaying = false
+            return
+        }
+
+        if (Date.now() - entry.createdAt > this._maxAgeMs) {
+            this.remove(entry.id)
+            return this._replayNext()
+        }
+
+        if (!this._isOnline()) {
+            // the online listener picks this up again
+            return
+        }
+
+        if (
+            this._instance.rateLimiter.isServerRateLimited(entry.batchKey) ||
+            this._instance.rateLimiter.serverBackoffRemaining(entry.batchKey) > 0
+        ) {
+            return this._scheduleReplay()
+        }
+
+        this._store.claim([entry.id], this._owner, (claimed, missing) => {
+            if (missing.length) {
+                // another tab has delivered it
+                this._entries = this._entries.filter((e) => e !== entry)
+                return this._replayNext()
+            }
+            if (!claimed.length) {
+                // another tab is sending it, this picks it up once that tab goes away without delivering it
+                this._replayTimer = setTimeout(() => this._replayNext(), CLAIM_LEASE_MS)
+                return
+            }
+            this._keepClaimed(entry.id)
+            this._instance._send_request({
+                method: 'POST',
+                url: entry.url,
+                data: this._rehydrate(entry),
+                compression: 'best-available',
+                batchKey: entry.batchKey,
+                callback: (response) => {
+                    if (isDelivered(response.statusCode)) {
+                        this._replayAttempts = 0
+                        this.remove(entry.id)
+                        this._replayNext()
+                    } else {
+                        this._scheduleReplay()
+                    }
+                },
+            })
+        })
+    }
+
+    private _keepClaimed(id: string): void {
+        if (this._claimed.indexOf(id) === -1) {
+            this._claimed.push(id)
+        }
+        if (!this._renewTimer) {
+            this._renewTimer = setInterval(() => {
+                this._store.claim(this._claimed, this._owner, (_, missing) => {
+                    missing.forEach((id) => this._stopClaiming(id))
+                })
+            }, CLAIM_LEASE_MS / 3)
+        }
+    }
+
+    private _stopClaiming(id: string): void {
+        this._claimed = this._claimed.filter((claimedId) => claimedId !== id)
+        if (!this._claimed.length) {
+            clearInterval(this._renewTimer)
+            this._renewTimer = undefined
+        }
+    }
+
+    private _scheduleReplay(): void {
+        const delay = pickNextRetryDelay(this._replayAttempts)
+        this._replayAttempts++
+        this._replayTimer = setTimeout(() => this._replayNext(), delay)
+    }
+
+    /**
+     * Batched events carry an `offset` relative to when they were first sent instead of an absolute timestamp,
+     * so it has to be moved forward by however long the request sat in the outbox.
+     */
+    private _rehydrate(entry: OutboxEntry): QueuedRequestWithOptions['data'] {
+        const data = JSON.parse(entry.payload)
+        if (isArray(data)) {
+            const elapsed = Date.now() - entry.createdAt
+            data.forEach((item) => {
+                if (isNumber(item?.offset)) {
+                    item.offset += elapsed
+                }
+            })
+        }
+        return data
+    }
+
+    private _enforceMaxBytes(): void {
+        let total = this._entries.reduce((sum, e) => sum + e.size, 0)
+        while (total > this._maxBytes && this._entries.length) {
+            const oldest = this._entries.shift()!
+            total -= oldest.size
+            logger.warn('outbox is full, dropping the oldest persisted request')
+            this._store.remove(oldest.id)
+            this._stopClaiming(oldest.id)
+        }
+    }
+
+    private _isOnline(): boolean {
+        const onLine = window?.navigator?.onLine
+        return isBoolean(onLine) ? onLine : true
+    }
+}
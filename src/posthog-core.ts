@@ -1,18 +1,23 @@
 import { Autocapture } from './autocapture'
 import Config from './config'
-import { ConsentManager } from './consent'
+import { ConsentManager, consentCategoryForEvent } from './consent'
+import { GoogleConsentModeAdapter, TcfAdapter } from './consent-adapters'
 import {
     ALIAS_ID_KEY,
     COOKIELESS_MODE_FLAG_PROPERTY,
     COOKIELESS_SENTINEL_VALUE,
     ENABLE_PERSON_PROCESSING,
+    EXPERIMENT_EXPOSURES_REPORTED,
     FLAG_CALL_REPORTED,
     PEOPLE_DISTINCT_ID_KEY,
     SURVEYS_REQUEST_TIMEOUT_MS,
     USER_STATE,
 } from './constants'
+import { DEBUG_PANEL_STORAGE_KEY, DebugPanel } from './extensions/debug-panel'
+import { FlagUrlOverrides } from './extensions/flag-url-overrides'
 import { DeadClicksAutocapture, isDeadClicksEnabledForAutocapture } from './extensions/dead-clicks-autocapture'
 import { ExceptionObserver } from './extensions/exception-autocapture'
+import { HistoryAutocapture } from './extensions/history-autocapture'
 import { errorToProperties } from './extensions/exception-autocapture/error-conversion'
 import { SessionRecording } from './extensions/replay/sessionrecording'
 import { setupSegmentIntegration } from './extensions/segment-integration'
@@ -22,6 +27,10 @@ import { TracingHeaders } from './extensions/tracing-headers'
 import { WebVitalsAutocapture } from './extensions/web-vitals'
 import { Heatmaps } from './heatmaps'
 import { PageViewManager } from './page-view'
+import { PersistentOutbox } from './persistent-outbox'
+import { EncodingWorker } from './encoding-worker'
+import { EventSchemas } from './event-schemas'
+import { CaptureDestinations } from './capture-destinations'
 import { PostHogExceptions } from './posthog-exceptions'
 import { PostHogFeatureFlags } from './posthog-featureflags'
 import { PostHogPersistence } from './posthog-persistence'
@@ -41,15 +50,28 @@ import {
     CaptureOptions,
     CaptureResult,
     Compression,
+    ConsentCategories,
+    ConsentCategory,
     EarlyAccessFeatureCallback,
     EarlyAccessFeatureStage,
     EventName,
+    EventProperties,
+    EventSchema,
+    EventSchemaOptions,
     FeatureFlagsCallback,
+    FeatureFlagChangeCallback,
+    FeatureFlagKey,
+    FeatureFlagsChangeCallback,
     JsonType,
     PostHogConfig,
     Properties,
     Property,
     QueuedRequestWithOptions,
+    RegisteredFeatureFlagPayload,
+    RegisteredFeatureFlagValue,
+    ExperimentExposureOptions,
+    EarlyAccessFeaturesWidgetOptions,
+    FeatureFlagLoadDiagnostics,
     RemoteConfig,
     RequestCallback,
     SessionIdChangedCallback,
@@ -274,6 +296,8 @@ export class PostHog {
     toolbar?: Toolbar
     exceptions?: PostHogExceptions
     consent: ConsentManager
+    eventSchemas: EventSchemas
+    destinations: CaptureDestinations
 
     // These are instance-specific state created after initialisation
     persistence?: PostHogPersistence
@@ -287,9 +311,15 @@ export class PostHog {
     webVitalsAutocapture?: WebVitalsAutocapture
     exceptionObserver?: ExceptionObserver
     deadClicksAutocapture?: DeadClicksAutocapture
+    debugPanel?: DebugPanel
+    flagUrlOverrides?: FlagUrlOverrides
+    historyAutocapture?: HistoryAutocapture
 
     _requestQueue?: RequestQueue
     _retryQueue?: RetryQueue
+    _outbox?: PersistentOutbox
+    // null once we know the worker can't be used in this browser
+    _encodingWorker?: EncodingWorker | null
     sessionRecording?: SessionRecording
     webPerformance = new DeprecatedWebPerformanceObserver()
 
@@ -351,6 +381,8 @@ export class PostHog {
         this.rateLimiter = new RateLimiter(this)
         this.requestRouter = new RequestRouter(this)
         this.consent = new ConsentManager(this)
+        this.eventSchemas = new EventSchemas(this)
+        this.destinations = new CaptureDestinations(this)
 
         // NOTE: See the property definition for deprecation notice
         this.people = {
@@ -471,11 +503,14 @@ export class PostHog {
         this._retryQueue = new RetryQueue(this)
         this.__request_queue = []
 
-        if (!this.config.__preview_experimental_cookieless_mode) {
-            this.sessionManager = new SessionIdManager(this)
-            this.sessionPropsManager = new SessionPropsManager(this, this.sessionManager, this.persistence)
+        if (this.config.persistent_outbox && !this.config.disable_persistence) {
+            this._outbox = new PersistentOutbox(this)
         }
 
+        this.sessionManager = new SessionIdManager(this)
+        // session props are stored alongside the session id, which is only kept in memory in cookieless mode
+        this.sessionPropsManager = new SessionPropsManager(this, this.sessionManager, this.sessionManager.persistence)
+
         if (!MINIMAL_BUILD) {
             new TracingHeaders(this).startIfEnabledOrStop()
         }
@@ -485,7 +520,7 @@ export class PostHog {
             this.siteApps.init()
         }
 
-        if (!MINIMAL_BUILD && !this.config.__preview_experimental_cookieless_mode) {
+        if (!MINIMAL_BUILD) {
             this.sessionRecording = new SessionRecording(this)
             this.sessionRecording.startIfEnabledOrStop()
         }
@@ -505,6 +540,17 @@ export class PostHog {
             this.heatmaps.startIfEnabled()
         }
 
+        if (!MINIMAL_BUILD) {
+            // before history autocapture, so that removing the overrides from the url isn't taken for a navigation
+            this.flagUrlOverrides = new FlagUrlOverrides(this)
+            this.flagUrlOverrides.startIfEnabled()
+        }
+
+        if (!MINIMAL_BUILD) {
+            this.historyAutocapture = new HistoryAutocapture(this)
+            this.historyAutocapture.startIfEnabled()
+        }
+
         if (!MINIMAL_BUILD) {
             this.webVitalsAutocapture = new WebVitalsAutocapture(this)
         }
@@ -519,6 +565,20 @@ export class PostHog {
             this.deadClicksAutocapture.startIfEnabled()
         }
 
+        if (!MINIMAL_BUILD) {
+            this.debugPanel = new DebugPanel(this)
+            this.debugPanel.startIfEnabled()
+        }
+
+        // adapters read the consent already given, so they start once everything they may turn on exists
+        const { google_consent_mode, tcf } = this.config.consent_adapters || {}
+        if (google_consent_mode) {
+            new GoogleConsentModeAdapter(this, isObject(google_consent_mode) ? google_consent_mode : {}).start()
+        }
+        if (tcf) {
+            new TcfAdapter(this, isObject(tcf) ? tcf : {}).start()
+        }
+
         // if any instance on the page has debug = true, we set the
         // global debug to be true
         Config.DEBUG = Config.DEBUG || this.config.debug
@@ -681,6 +741,7 @@ export class PostHog {
             if (this.config.request_batching) {
                 this._requestQueue?.enable()
             }
+            this._outbox?.replay()
         }
     }
 
@@ -719,11 +780,17 @@ export class PostHog {
             return
         }
 
-        if (this.rateLimiter.isServerRateLimited(options.batchKey)) {
+        // quota limits are per project, and we only track those of the main one
+        if (!options.destinationToken && this.rateLimiter.isServerRateLimited(options.batchKey)) {
             return
         }
 
         options.transport = options.transport || this.config.api_transport
+        options.customTransport = this.config.transport
+        if (this.config.compress_in_worker && isUndefined(this._encodingWorker)) {
+            this._encodingWorker = EncodingWorker.create() ?? null
+        }
+        options.encodingWorker = this.config.compress_in_worker ? (this._encodingWorker ?? undefined) : undefined
         options.url = extendURLParams(options.url, {
             // Whether to detect ip info or not
             ip: this.config.ip ? 1 : 0,
@@ -740,7 +807,9 @@ export class PostHog {
         request({
             ...options,
             callback: (response) => {
-                this.rateLimiter.checkForLimiting(response)
+                if (!options.destinationToken) {
+                    this.rateLimiter.checkForLimiting(response, options.batchKey)
+                }
 
                 if (response.statusCode >= 400) {
                     this.config.on_request_error?.(response)
@@ -752,11 +821,20 @@ export class PostHog {
     }
 
     _send_retriable_request(options: QueuedRequestWithOptions): void {
+        // copies for other destinations are made before anything is sent, so that each is retried independently
+        const copies = this.destinations.fanOut(options)
+
+        if (this._outbox) {
+            options = this._outbox.track(options)
+        }
+
         if (this._retryQueue) {
             this._retryQueue.retriableRequest(options)
         } else {
             this._send_request(options)
         }
+
+        copies.forEach((copy) => this._send_retriable_request(copy))
     }
 
     /**
@@ -859,9 +937,9 @@ export class PostHog {
      * @param {String} [config.transport] Transport method for network request ('XHR' or 'sendBeacon').
      * @param {Date} [config.timestamp] Timestamp is a Date object. If not set, it'll automatically be set to the current time.
      */
-    capture(
-        event_name: EventName,
-        properties?: Properties | null,
+    capture<E extends EventName>(
+        event_name: E,
+        properties?: EventProperties<E> | null,
         options?: CaptureOptions
     ): CaptureResult | undefined {
         // While developing, a developer might purposefully _not_ call init(),
@@ -881,6 +959,10 @@ export class PostHog {
             return
         }
 
+        if (!this.consent.isGranted(consentCategoryForEvent(event_name))) {
+            return
+        }
+
         if (!this.config.opt_out_useragent_filter && this._is_bot()) {
             return
         }
@@ -925,7 +1007,7 @@ export class PostHog {
         let data: CaptureResult = {
             uuid,
             event: event_name,
-            properties: this._calculate_event_properties(event_name, properties || {}, timestamp, uuid),
+            properties: this._calculate_event_properties(event_name, (properties as Properties) || {}, timestamp, uuid),
         }
 
         if (clientRateLimitContext) {
@@ -955,8 +1037,16 @@ export class PostHog {
             this.setPersonPropertiesForFlags(finalSet)
         }
 
+        const validated = this.eventSchemas.validate(data, (properties as Properties) || {})
+        if (!validated) {
+            return
+        }
+        data = validated
+
         if (!isNullish(this.config.before_send)) {
+            const debugSnapshot = this.debugPanel?.snapshot(data)
             const beforeSendResult = this._runBeforeSend(data)
+            this.debugPanel?.onBeforeSend(debugSnapshot, beforeSendResult)
             if (!beforeSendResult) {
                 return
             } else {
@@ -983,6 +1073,39 @@ export class PostHog {
         return data
     }
 
+    /**
+     * Registers a schema that the properties of an event are validated against whenever it is captured,
+     * before `before_send` runs. What happens to events that don't match is set by `schema_violation_mode`.
+     * Only the properties passed to `capture` are validated, not the ones PostHog adds to the event
+     * (e.g. `$current_url` or super properties). Properties starting with `$` are never reported
+     * as additional properties.
+     *
+     * ### Usage:
+     *
+     *     posthog.registerEventSchema('signed up', {
+     *         type: 'object',
+     *         properties: { plan: { enum: ['free', 'paid'] }, seats: { type: 'integer', minimum: 1 } },
+     *         required: ['plan'],
+     *     })
+     *
+     * To also have `capture` calls type checked, declare the event in `RegisteredEventSchemas`, see `InferEventProperties`.
+     *
+     * @param {String} event_name The name of the event the schema applies to
+     * @param {Object} schema A JSON Schema, only a subset of keywords is supported, see `EventSchema`
+     * @param {Object} [options] Optional settings for this schema
+     * @param {String} [options.mode] Overrides `schema_violation_mode` for this event
+     */
+    registerEventSchema(event_name: EventName, schema: EventSchema, options?: EventSchemaOptions): void {
+        this.eventSchemas.register(event_name, schema, options)
+    }
+
+    /**
+     * Stops validating the event against the schema registered for it
+     */
+    unregisterEventSchema(event_name: EventName): void {
+        this.eventSchemas.unregister(event_name)
+    }
+
     _addCaptureHook(callback: (eventName: string, eventPayload?: CaptureResult) => void): () => void {
         return this.on('eventCaptured', (data) => callback(data.event, data))
     }
@@ -1265,8 +1388,11 @@ export class PostHog {
      * @param {Object|String} prop Key of the feature flag.
      * @param {Object|String} options (optional) If {send_event: false}, we won't send an $feature_flag_call event to PostHog.
      */
-    getFeatureFlag(key: string, options?: { send_event?: boolean }): boolean | string | undefined {
-        return this.featureFlags?.getFeatureFlag(key, options)
+    getFeatureFlag<K extends FeatureFlagKey>(
+        key: K,
+        options?: { send_event?: boolean }
+    ): RegisteredFeatureFlagValue<K> | undefined {
+        return this.featureFlags?.getFeatureFlag(key, options) as RegisteredFeatureFlagValue<K> | undefined
     }
 
     /*
@@ -1281,12 +1407,12 @@ export class PostHog {
      *
      * @param {Object|String} prop Key of the feature flag.
      */
-    getFeatureFlagPayload(key: string): JsonType {
+    getFeatureFlagPayload<K extends FeatureFlagKey>(key: K): RegisteredFeatureFlagPayload<K> {
         const payload = this.featureFlags?.getFeatureFlagPayload(key)
         try {
             return JSON.parse(payload as any)
         } catch {
-            return payload
+            return payload as RegisteredFeatureFlagPayload<K>
         }
     }
 
@@ -1300,14 +1426,46 @@ export class PostHog {
      * @param {Object|String} prop Key of the feature flag.
      * @param {Object|String} options (optional) If {send_event: false}, we won't send an $feature_flag_call event to PostHog.
      */
-    isFeatureEnabled(key: string, options?: { send_event: boolean }): boolean | undefined {
+    isFeatureEnabled<K extends FeatureFlagKey>(key: K, options?: { send_event: boolean }): boolean | undefined {
         return this.featureFlags?.isFeatureEnabled(key, options)
     }
 
+    /*
+     * Record that the user saw a variant of an experiment. Exposures are only counted once per session,
+     * or once ever with `{ dedupe: 'persistence' }`, so this can be called whenever the variant is shown.
+     *
+     * ### Usage:
+     *
+     *     const variant = posthog.getFeatureFlag('checkout-v2', { send_event: false })
+     *     // ...once the variant is on screen
+     *     posthog.captureExperimentExposure('checkout-v2', { context: { placement: 'cart' } })
+     *
+     * @param {String} key Key of the feature flag of the experiment.
+     * @param {Object} options (optional) The variant that was seen, extra properties and how exposures are deduplicated.
+     */
+    captureExperimentExposure<K extends FeatureFlagKey>(
+        key: K,
+        options?: ExperimentExposureOptions<RegisteredFeatureFlagValue<K>>
+    ): void {
+        this.featureFlags?.captureExperimentExposure(key, options)
+    }
+
     reloadFeatureFlags(): void {
         this.featureFlags?.reloadFeatureFlags()
     }
 
+    /*
+     * How feature flags loaded: the latency and error of the last request for them, where the flags in use came from,
+     * and which flags had no value when they were first read, i.e. when fallback UI was likely shown.
+     *
+     * ### Usage:
+     *
+     *     const { error, missingFlags } = posthog.getFeatureFlagLoadDiagnostics()
+     */
+    getFeatureFlagLoadDiagnostics(): FeatureFlagLoadDiagnostics {
+        return this.featureFlags?.getLoadDiagnostics() ?? { source: 'none', missingFlags: [] }
+    }
+
     /** Opt the user in or out of an early access feature. */
     updateEarlyAccessFeatureEnrollment(key: string, isEnrolled: boolean): void {
         this.featureFlags?.updateEarlyAccessFeatureEnrollment(key, isEnrolled)
@@ -1322,6 +1480,20 @@ export class PostHog {
         return this.featureFlags?.getEarlyAccessFeatures(callback, force_reload, stages)
     }
 
+    /**
+     * Show the early access features of the project so that users can opt in and out of them,
+     * either in the element matching `selector` or from a tab floating on the side of the page.
+     *
+     * ### Usage:
+     *
+     *     const remove = posthog.renderEarlyAccessFeatures({ selector: '#beta-program', stages: ['beta'] })
+     *
+     * @returns {Function} A function that removes the features again.
+     */
+    renderEarlyAccessFeatures(options?: EarlyAccessFeaturesWidgetOptions): () => void {
+        return this.featureFlags?.renderEarlyAccessFeatures(options) ?? (() => {})
+    }
+
     /**
      * Exposes a set of events that PostHog will emit.
      * e.g. `eventCaptured` is emitted immediately before trying to send an event
@@ -1352,6 +1524,42 @@ export class PostHog {
         return this.featureFlags?.onFeatureFlags(callback) || __NOOP
     }
 
+    /*
+     * Register an event listener that runs only when the value or the payload of a flag changes.
+     * Unlike `onFeatureFlags` it isn't called when the listener is registered, nor for reloads that don't change the flag.
+     *
+     * ### Usage:
+     *
+     *     posthog.onFeatureFlag('beta-feature', function(next, previous, detail) { // do something })
+     *
+     * @param {String} key Key of the feature flag.
+     * @param {Function} [callback] The callback function will be called with the new value of the flag, its previous value,
+     *                              and the details of the flag when the server sent them.
+     * @returns {Function} A function that can be called to unsubscribe the listener. Used by useEffect when the component unmounts.
+     */
+    onFeatureFlag<K extends FeatureFlagKey>(
+        key: K,
+        callback: FeatureFlagChangeCallback<RegisteredFeatureFlagValue<K>>
+    ): () => void {
+        return this.featureFlags?.onFeatureFlag(key, callback as FeatureFlagChangeCallback) || __NOOP
+    }
+
+    /*
+     * Like `onFeatureFlag` for several flags at once. The listener is called once per update,
+     * with the flags among `keys` that changed.
+     *
+     * ### Usage:
+     *
+     *     posthog.onFeatureFlagsChange(['beta-feature', 'new-onboarding'], function(changes) { // do something })
+     *
+     * @param {Array} keys Keys of the feature flags.
+     * @param {Function} [callback] The callback function will be called with `{ next, previous, detail }` for each changed flag.
+     * @returns {Function} A function that can be called to unsubscribe the listener.
+     */
+    onFeatureFlagsChange(keys: FeatureFlagKey[], callback: FeatureFlagsChangeCallback): () => void {
+        return this.featureFlags?.onFeatureFlagsChange(keys, callback) || __NOOP
+    }
+
     /*
      * Register an event listener that runs when surveys are loaded.
      *
@@ -1546,8 +1754,9 @@ export class PostHog {
         // Note we don't reload this on property changes as these get processed async
         if (new_distinct_id !== previous_distinct_id) {
             this.reloadFeatureFlags()
-            // also clear any stored flag calls
+            // also clear any stored flag calls and exposures
             this.unregister(FLAG_CALL_REPORTED)
+            this.unregister(EXPERIMENT_EXPOSURES_REPORTED)
         }
     }
 
@@ -1685,6 +1894,8 @@ export class PostHog {
         }
         const device_id = this.get_property('$device_id')
         this.consent.reset()
+        // the stream is for the previous user, it's restarted below once there's a new one
+        this.featureFlags?.stopBackgroundRefresh()
         this.persistence?.clear()
         this.sessionPersistence?.clear()
         this.surveys?.reset()
@@ -1716,6 +1927,7 @@ export class PostHog {
             },
             1
         )
+        this.featureFlags?.startBackgroundRefreshIfEnabledOrStop()
     }
 
     /**
@@ -1864,7 +2076,9 @@ export class PostHog {
             this.sessionRecording?.startIfEnabledOrStop()
             this.autocapture?.startIfEnabled()
             this.heatmaps?.startIfEnabled()
+            this.historyAutocapture?.startIfEnabled()
             this.surveys?.loadIfEnabled()
+            this.featureFlags?.startBackgroundRefreshIfEnabledOrStop()
             this._sync_opt_out_with_persistence()
         }
     }
@@ -2025,7 +2239,7 @@ export class PostHog {
     _shouldCapturePageleave(): boolean {
         return (
             this.config.capture_pageleave === true ||
-            (this.config.capture_pageleave === 'if_capture_pageview' && this.config.capture_pageview)
+            (this.config.capture_pageleave === 'if_capture_pageview' && !!this.config.capture_pageview)
         )
     }
 
@@ -2104,6 +2318,7 @@ export class PostHog {
     }): void {
         this.consent.optInOut(true)
         this._sync_opt_out_with_persistence()
+        this.featureFlags?.startBackgroundRefreshIfEnabledOrStop()
 
         // Don't capture if captureEventName is null or false
         if (isUndefined(options?.captureEventName) || options?.captureEventName) {
@@ -2123,6 +2338,7 @@ export class PostHog {
     opt_out_capturing(): void {
         this.consent.optInOut(false)
         this._sync_opt_out_with_persistence()
+        this.featureFlags?.stopBackgroundRefresh()
     }
 
     /**
@@ -2149,6 +2365,45 @@ export class PostHog {
     clear_opt_in_out_capturing(): void {
         this.consent.reset()
         this._sync_opt_out_with_persistence()
+        this.featureFlags?.startBackgroundRefreshIfEnabledOrStop()
+    }
+
+    /**
+     * Grant or withhold consent for individual categories, leaving the others as they were.
+     * Features whose consent is withheld stop capturing, and start as soon as it is granted.
+     *
+     * ### Usage
+     *
+     *     posthog.set_consent_categories({ analytics: true, session_recording: false })
+     *
+     * @param {Object} categories The categories to update, e.g. `analytics`, `session_recording`, `heatmaps`
+     */
+    set_consent_categories(categories: ConsentCategories): void {
+        this.consent.setCategories(categories)
+        this._onConsentCategoriesChanged()
+    }
+
+    /**
+     * Check whether the user has consented to the given category.
+     * Opting out of capturing withholds consent for every category.
+     */
+    has_consent_for(category: ConsentCategory): boolean {
+        return this.consent.isGranted(category)
+    }
+
+    /**
+     * Get the consent of the user for every category
+     */
+    get_consent_categories(): Record<ConsentCategory, boolean> {
+        return this.consent.categories
+    }
+
+    private _onConsentCategoriesChanged(): void {
+        this.sessionRecording?.startIfEnabledOrStop()
+        this.heatmaps?.startIfEnabled()
+        this.exceptionObserver?.startIfEnabled()
+        this.webVitalsAutocapture?.startIfEnabled()
+        this.surveys?.loadIfEnabled()
     }
 
     _is_bot(): boolean | undefined {
@@ -2168,21 +2423,33 @@ export class PostHog {
 
     /**
      * Enables or disables debug mode.
-     * You can also enable debug mode by appending `?__posthog_debug=true` to the URL
+     * You can also enable debug mode by appending `?__posthog_debug=true` to the URL,
+     * which also shows the debug panel for that page load.
+     *
+     * ### Usage
+     *
+     *     // also show an overlay listing captured events, flags and the state of the SDK
+     *     posthog.debug({ panel: true })
      *
-     * @param {boolean} [debug] If true, will enable debug mode.
+     * @param {boolean|Object} [debug] If true, will enable debug mode. Pass `{ panel: true }` to also show the debug panel.
      */
-    debug(debug?: boolean): void {
+    debug(debug?: boolean | { panel?: boolean }): void {
         if (debug === false) {
             window?.console.log("You've disabled debug mode.")
             localStorage && localStorage.removeItem('ph_debug')
+            localStorage && localStorage.removeItem(DEBUG_PANEL_STORAGE_KEY)
             this.set_config({ debug: false })
+            this.debugPanel?.stop()
         } else {
             window?.console.log(
                 "You're now in debug mode. All calls to PostHog will be logged in your console.\nYou can disable this with `posthog.debug(false)`."
             )
             localStorage && localStorage.setItem('ph_debug', 'true')
             this.set_config({ debug: true })
+            if (isObject(debug) && debug.panel) {
+                localStorage && localStorage.setItem(DEBUG_PANEL_STORAGE_KEY, 'true')
+                this.debugPanel?.startIfEnabled()
+            }
         }
     }
 
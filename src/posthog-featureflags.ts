@@ -12,30 +12,56 @@ import {
     RemoteConfigFeatureFlagCallback,
     EarlyAccessFeatureStage,
     FeatureFlagDetail,
+    FeatureFlagDefinitions,
+    FeatureFlagChange,
+    FeatureFlagChangeCallback,
+    FeatureFlagsChangeCallback,
+    ExperimentExposureOptions,
+    EarlyAccessFeaturesWidgetOptions,
+    FeatureFlagLoadDiagnostics,
+    FeatureFlagLoadError,
+    RequestResponse,
 } from './types'
 import { PostHogPersistence } from './posthog-persistence'
 
 import {
     PERSISTENCE_EARLY_ACCESS_FEATURES,
     PERSISTENCE_FEATURE_FLAG_DETAILS,
+    PERSISTENCE_FEATURE_FLAGS_FETCHED_AT,
     ENABLED_FEATURE_FLAGS,
     STORED_GROUP_PROPERTIES_KEY,
     STORED_PERSON_PROPERTIES_KEY,
     FLAG_CALL_REPORTED,
+    EXPERIMENT_EXPOSURES_REPORTED,
+    STICKY_FEATURE_FLAGS,
 } from './constants'
 
-import { isArray, isUndefined } from './utils/type-utils'
+import { isArray, isNumber, isObject, isString, isUndefined } from './utils/type-utils'
 import { createLogger } from './utils/logger'
 import { Info } from './utils/event-utils'
+import { evaluateFlagsLocally } from './local-flag-evaluation'
+import { sampleOnProperty } from './extensions/sampling'
+import { FeatureFlagStreaming } from './feature-flag-streaming'
+import { addEventListener } from './utils'
+import { assignableWindow, document } from './utils/globals'
 
 const logger = createLogger('[FeatureFlags]')
 
 const PERSISTENCE_ACTIVE_FEATURE_FLAGS = '$active_feature_flags'
-const PERSISTENCE_OVERRIDE_FEATURE_FLAGS = '$override_feature_flags'
+export const PERSISTENCE_OVERRIDE_FEATURE_FLAGS = '$override_feature_flags'
 const PERSISTENCE_FEATURE_FLAG_PAYLOADS = '$feature_flag_payloads'
 const PERSISTENCE_OVERRIDE_FEATURE_FLAG_PAYLOADS = '$override_feature_flag_payloads'
 const PERSISTENCE_FEATURE_FLAG_REQUEST_ID = '$feature_flag_request_id'
 
+interface StickyVariant {
+    variant: string | boolean
+    payload: JsonType | undefined
+    pinned_at: number
+    expire_at: number | undefined
+    // the version of the flag the variant was pinned for, changing the flag ends the pin
+    version: number | undefined
+}
+
 export const filterActiveFeatureFlags = (featureFlags?: Record<string, string | boolean>) => {
     const activeFeatureFlags: Record<string, string | boolean> = {}
     for (const [key, value] of entries(featureFlags || {})) {
@@ -51,7 +77,8 @@ export const parseFeatureFlagDecideResponse = (
     persistence: PostHogPersistence,
     currentFlags: Record<string, string | boolean> = {},
     currentFlagPayloads: Record<string, JsonType> = {},
-    currentFlagDetails: Record<string, FeatureFlagDetail> = {}
+    currentFlagDetails: Record<string, FeatureFlagDetail> = {},
+    partial = false
 ) => {
     const normalizedResponse = normalizeDecideResponse(response)
     const flagDetails = normalizedResponse.flags
@@ -85,7 +112,7 @@ export const parseFeatureFlagDecideResponse = (
     let newFeatureFlags = featureFlags
     let newFeatureFlagPayloads = flagPayloads
     let newFeatureFlagDetails = flagDetails
-    if (response.errorsWhileComputingFlags) {
+    if (response.errorsWhileComputingFlags || partial) {
         // if not all flags were computed, we upsert flags instead of replacing them
         newFeatureFlags = { ...currentFlags, ...newFeatureFlags }
         newFeatureFlagPayloads = { ...currentFlagPayloads, ...newFeatureFlagPayloads }
@@ -147,6 +174,13 @@ type OverrideFeatureFlagsOptions =
     | FeatureFlagOverrides // set variants directly
     | FeatureFlagOverrideOptions
 
+interface FeatureFlagChangeSubscription {
+    keys: string[]
+    callback: FeatureFlagsChangeCallback
+    // what the subscriber last saw, so that only real changes are passed on
+    seen: Record<string, { value: string | boolean | undefined; payload: string | undefined }>
+}
+
 export enum QuotaLimitedResource {
     FeatureFlags = 'feature_flags',
     Recordings = 'recordings',
@@ -155,6 +189,7 @@ export enum QuotaLimitedResource {
 export class PostHogFeatureFlags {
     _override_warning: boolean = false
     featureFlagEventHandlers: FeatureFlagsCallback[]
+    private _flagChangeSubscriptions: FeatureFlagChangeSubscription[] = []
     $anon_distinct_id: string | undefined
     private _hasLoadedFlags: boolean = false
     private _requestInFlight: boolean = false
@@ -163,12 +198,27 @@ export class PostHogFeatureFlags {
     private _reloadDebouncer?: any
     private _decideCalled: boolean = false
     private _flagsLoadedFromRemote: boolean = false
+    private _flagDefinitions?: FeatureFlagDefinitions
+    private _streaming: FeatureFlagStreaming
+    private _refreshInBackground: boolean = false
+    private _pollInterval?: ReturnType<typeof setInterval>
+    private _pollIntervalMs?: number
+    private _revalidatingOnVisibilityChange: boolean = false
+    private _lastRevalidationAt?: number
+    private _lastLoad: Pick<FeatureFlagLoadDiagnostics, 'latencyMs' | 'error' | 'statusCode'> = {}
+    private _readFlags: Record<string, boolean> = {}
+    private _missingFlags: string[] = []
 
     constructor(private instance: PostHog) {
         this.featureFlagEventHandlers = []
+        this._streaming = new FeatureFlagStreaming(instance, this)
     }
 
     decide(): void {
+        this._loadFlagDefinitions()
+        this._refreshInBackground = true
+        this.startBackgroundRefreshIfEnabledOrStop()
+
         if (this.instance.config.__preview_remote_config) {
             // If remote config is enabled we don't call decide and we mark it as called so that we don't simulate it
             this._decideCalled = true
@@ -190,11 +240,45 @@ export class PostHogFeatureFlags {
         return this._hasLoadedFlags
     }
 
+    /**
+     * When the flags were last loaded from PostHog, in milliseconds since the epoch
+     */
+    get fetchedAt(): number | undefined {
+        const fetchedAt = this.instance.get_property(PERSISTENCE_FEATURE_FLAGS_FETCHED_AT)
+        return isNumber(fetchedAt) ? fetchedAt : undefined
+    }
+
+    /**
+     * Whether the flags are older than `feature_flag_cache_ttl_ms`, or were never loaded from PostHog
+     */
+    get isStale(): boolean {
+        const ttl = this.instance.config.feature_flag_cache_ttl_ms
+        if (!ttl) {
+            return false
+        }
+        const fetchedAt = this.fetchedAt
+        return isUndefined(fetchedAt) || Date.now() - fetchedAt > ttl
+    }
+
     getFlags(): string[] {
         return Object.keys(this.getFlagVariants())
     }
 
     getFlagsWithDetails(): Record<string, FeatureFlagDetail> {
+        const details = this._getFlagDetailsWithOverrides()
+        const fetchedAt = this.fetchedAt
+        if (isUndefined(fetchedAt)) {
+            return details
+        }
+        const isStale = this.isStale
+        const result: Record<string, FeatureFlagDetail> = {}
+        Object.keys(details).forEach((key) => {
+            result[key] = { ...details[key], fetchedAt, isStale }
+        })
+        return result
+    }
+
+    private _getFlagDetailsWithOverrides(): Record<string, FeatureFlagDetail> {
         const flagDetails = this.instance.get_property(PERSISTENCE_FEATURE_FLAG_DETAILS)
 
         const overridenFlags = this.instance.get_property(PERSISTENCE_OVERRIDE_FEATURE_FLAGS)
@@ -326,6 +410,10 @@ export class PostHogFeatureFlags {
             return
         }
 
+        // until /decide has responded, e.g. new person properties apply to local flags straight away
+        this._evaluateFlagsLocally()
+        this._streaming.sync()
+
         if (this._reloadDebouncer) {
             // If we're already in a debounce then we don't want to do anything
             return
@@ -337,6 +425,144 @@ export class PostHogFeatureFlags {
         }, 5)
     }
 
+    private _loadFlagDefinitions(): void {
+        const bootstrapped = this.instance.config.bootstrap?.featureFlagDefinitions
+        if (bootstrapped) {
+            this._setFlagDefinitions(bootstrapped)
+        }
+
+        const url = this.instance.config.feature_flag_definitions_url
+        if (!url || this.instance.config.advanced_disable_feature_flags) {
+            return
+        }
+        this.instance._send_request({
+            method: 'GET',
+            url,
+            timeout: this.instance.config.feature_flag_request_timeout_ms,
+            callback: (response) => {
+                if (response.statusCode !== 200 || !isObject(response.json) || !isArray(response.json.flags)) {
+                    logger.error(`Could not load flag definitions from ${url}`, response.statusCode)
+                    return
+                }
+                this._setFlagDefinitions(response.json as FeatureFlagDefinitions)
+            },
+        })
+    }
+
+    private _setFlagDefinitions(definitions: FeatureFlagDefinitions): void {
+        this._flagDefinitions = definitions
+        this._evaluateFlagsLocally()
+    }
+
+    /**
+     * Evaluates flags from their definitions, until /decide has responded or whenever it fails
+     */
+    private _evaluateFlagsLocally(): void {
+        if (
+            !this._flagDefinitions ||
+            this._flagsLoadedFromRemote ||
+            !this.instance.persistence ||
+            this.instance.config.advanced_disable_feature_flags
+        ) {
+            return
+        }
+
+        const flags = evaluateFlagsLocally(this._flagDefinitions, {
+            distinctId: this.instance.get_distinct_id(),
+            groups: this.instance.getGroups(),
+            personProperties: {
+                ...(this.instance.persistence.get_initial_props() || {}),
+                ...(this.instance.get_property(STORED_PERSON_PROPERTIES_KEY) || {}),
+            },
+            groupProperties: this.instance.get_property(STORED_GROUP_PROPERTIES_KEY) || {},
+        })
+        if (!Object.keys(flags).length) {
+            return
+        }
+        // flags that couldn't be evaluated locally keep the value they have, e.g. from bootstrap
+        this.receivedFeatureFlags({ flags }, false, true)
+    }
+
+    /**
+     * Keeps the flags up to date in the background once they were first loaded,
+     * or stops when that isn't allowed anymore, e.g. after opting out or disabling feature flags
+     */
+    startBackgroundRefreshIfEnabledOrStop(): void {
+        if (!this._refreshInBackground) {
+            return
+        }
+        this._streaming.startIfEnabledOrStop()
+        this._startPollingIfEnabledOrStop()
+    }
+
+    stopBackgroundRefresh(): void {
+        this._streaming.stop()
+        this._stopPolling()
+    }
+
+    private _startPollingIfEnabledOrStop(): void {
+        const { feature_flag_cache_ttl_ms } = this.instance.config
+        // polling stands in for streaming when that isn't available, so that /decide isn't polled twice
+        const feature_flag_poll_interval_ms =
+            this.instance.config.feature_flag_poll_interval_ms || this._streaming.fallbackPollIntervalMs
+        if (this.instance.config.advanced_disable_feature_flags || this.instance.consent.isOptedOut()) {
+            this._stopPolling()
+            return
+        }
+        if (feature_flag_cache_ttl_ms && !this._revalidatingOnVisibilityChange) {
+            // a tab that was in the background for a while shouldn't wait for the next poll
+            addEventListener(document, 'visibilitychange', this._onVisibilityChange)
+            this._revalidatingOnVisibilityChange = true
+        }
+        if (feature_flag_poll_interval_ms === this._pollIntervalMs) {
+            return
+        }
+        clearInterval(this._pollInterval)
+        this._pollInterval = undefined
+        this._pollIntervalMs = feature_flag_poll_interval_ms
+        if (feature_flag_poll_interval_ms) {
+            this._pollInterval = setInterval(() => {
+                if (document?.visibilityState !== 'hidden') {
+                    this.reloadFeatureFlags()
+                }
+            }, feature_flag_poll_interval_ms)
+        }
+    }
+
+    private _stopPolling(): void {
+        clearInterval(this._pollInterval)
+        this._pollInterval = undefined
+        this._pollIntervalMs = undefined
+        if (this._revalidatingOnVisibilityChange) {
+            document?.removeEventListener('visibilitychange', this._onVisibilityChange)
+            this._revalidatingOnVisibilityChange = false
+        }
+    }
+
+    private _onVisibilityChange = (): void => {
+        this._revalidateIfStale()
+    }
+
+    /**
+     * Reloads stale flags in the background, the stale values are used in the meantime
+     */
+    private _revalidateIfStale(): void {
+        const ttl = this.instance.config.feature_flag_cache_ttl_ms
+        if (
+            !ttl ||
+            !this.isStale ||
+            document?.visibilityState === 'hidden' ||
+            this._requestInFlight ||
+            this._reloadDebouncer ||
+            // don't retry more often than the flags go stale, e.g. while offline
+            Date.now() - (this._lastRevalidationAt || 0) < ttl
+        ) {
+            return
+        }
+        this._lastRevalidationAt = Date.now()
+        this.reloadFeatureFlags()
+    }
+
     private clearDebouncer(): void {
         clearTimeout(this._reloadDebouncer)
         this._reloadDebouncer = undefined
@@ -403,6 +629,7 @@ export class PostHogFeatureFlags {
         }
 
         this._requestInFlight = true
+        const requestStartedAt = Date.now()
         this.instance._send_request({
             method: 'POST',
             url: this.instance.requestRouter.endpointFor('api', eligibleForFlagsV2 ? '/flags/?v=2' : '/decide/?v=4'),
@@ -437,6 +664,10 @@ export class PostHogFeatureFlags {
                 }
 
                 this._flagsLoadedFromRemote = !errorsLoading
+                if (!errorsLoading) {
+                    this.instance.persistence?.register({ [PERSISTENCE_FEATURE_FLAGS_FETCHED_AT]: Date.now() })
+                }
+                this._recordFlagsLoad(response, Date.now() - requestStartedAt)
 
                 if (response.json && response.json.quotaLimited?.includes(QuotaLimitedResource.FeatureFlags)) {
                     // log a warning and then early return
@@ -456,6 +687,57 @@ export class PostHogFeatureFlags {
         })
     }
 
+    private _recordFlagsLoad(response: RequestResponse, latencyMs: number): void {
+        const timeout = this.instance.config.feature_flag_request_timeout_ms
+        let error: FeatureFlagLoadError | undefined
+        if (response.statusCode === 0) {
+            // requests are aborted when they time out, which only tells them apart from network errors by how long they took
+            error = timeout && latencyMs >= timeout ? 'timeout' : 'network'
+        } else if (response.statusCode !== 200) {
+            error = 'http'
+        } else if (response.json?.quotaLimited?.includes(QuotaLimitedResource.FeatureFlags)) {
+            error = 'quota_limited'
+        }
+        this._lastLoad = { latencyMs, error, statusCode: response.statusCode || undefined }
+
+        const sampleRate = this.instance.config.feature_flag_load_event_sample_rate
+        if (sampleRate && sampleOnProperty(this.instance.get_distinct_id(), sampleRate)) {
+            const diagnostics = this.getLoadDiagnostics()
+            this.instance.capture('$feature_flag_load', {
+                $feature_flag_load_latency_ms: diagnostics.latencyMs,
+                $feature_flag_load_error: diagnostics.error,
+                $feature_flag_load_status_code: diagnostics.statusCode,
+                $feature_flag_source: diagnostics.source,
+                $feature_flag_missing_flags: diagnostics.missingFlags,
+            })
+        }
+    }
+
+    /**
+     * How flags loaded, to tell how often users saw fallback values because flags were slow or failed to load
+     */
+    getLoadDiagnostics(): FeatureFlagLoadDiagnostics {
+        let source: FeatureFlagLoadDiagnostics['source'] = 'none'
+        if (this._flagsLoadedFromRemote) {
+            source = 'network'
+        } else if (this.fetchedAt) {
+            source = 'cache'
+        } else if (Object.keys(this.instance.config.bootstrap?.featureFlags || {}).length) {
+            source = 'bootstrap'
+        }
+        return { ...this._lastLoad, source, missingFlags: [...this._missingFlags] }
+    }
+
+    private _recordFlagRead(key: string, value: boolean | string | undefined): void {
+        if (this._readFlags[key]) {
+            return
+        }
+        this._readFlags[key] = true
+        if (isUndefined(value)) {
+            this._missingFlags.push(key)
+        }
+    }
+
     /*
      * Get feature flag's value for user.
      *
@@ -469,11 +751,13 @@ export class PostHogFeatureFlags {
     getFeatureFlag(key: string, options: { send_event?: boolean } = {}): boolean | string | undefined {
         if (!this._hasLoadedFlags && !(this.getFlags() && this.getFlags().length > 0)) {
             logger.warn('getFeatureFlag for key "' + key + '" failed. Feature flags didn\'t load in time.')
+            this._recordFlagRead(key, undefined)
             return undefined
         }
+        this._revalidateIfStale()
         const flagValue = this.getFlagVariants()[key]
+        this._recordFlagRead(key, flagValue)
         const flagReportValue = `${flagValue}`
-        const requestId = this.instance.get_property(PERSISTENCE_FEATURE_FLAG_REQUEST_ID) || undefined
         const flagCallReported: Record<string, string[]> = this.instance.get_property(FLAG_CALL_REPORTED) || {}
 
         if (options.send_event || !('send_event' in options)) {
@@ -485,50 +769,93 @@ export class PostHogFeatureFlags {
                 }
                 this.instance.persistence?.register({ [FLAG_CALL_REPORTED]: flagCallReported })
 
-                const flagDetails = this.getFeatureFlagDetails(key)
-
-                const properties: Record<string, any | undefined> = {
-                    $feature_flag: key,
-                    $feature_flag_response: flagValue,
-                    $feature_flag_payload: this.getFeatureFlagPayload(key) || null,
-                    $feature_flag_request_id: requestId,
-                    $feature_flag_bootstrapped_response: this.instance.config.bootstrap?.featureFlags?.[key] || null,
-                    $feature_flag_bootstrapped_payload:
-                        this.instance.config.bootstrap?.featureFlagPayloads?.[key] || null,
-                    // If we haven't yet received a response from the /decide endpoint, we must have used the bootstrapped value
-                    $used_bootstrap_value: !this._flagsLoadedFromRemote,
-                }
+                this.instance.capture('$feature_flag_called', this._flagCalledProperties(key, flagValue))
+            }
+        }
+        return flagValue
+    }
 
-                if (!isUndefined(flagDetails?.metadata?.version)) {
-                    properties.$feature_flag_version = flagDetails!.metadata!.version
-                }
+    private _flagCalledProperties(key: string, flagValue: boolean | string | undefined): Properties {
+        const flagDetails = this.getFeatureFlagDetails(key)
 
-                const reason = flagDetails?.reason?.description ?? flagDetails?.reason?.code
-                if (reason) {
-                    properties.$feature_flag_reason = reason
-                }
+        const properties: Record<string, any | undefined> = {
+            $feature_flag: key,
+            $feature_flag_response: flagValue,
+            $feature_flag_payload: this.getFeatureFlagPayload(key) || null,
+            $feature_flag_request_id: this.instance.get_property(PERSISTENCE_FEATURE_FLAG_REQUEST_ID) || undefined,
+            $feature_flag_bootstrapped_response: this.instance.config.bootstrap?.featureFlags?.[key] || null,
+            $feature_flag_bootstrapped_payload: this.instance.config.bootstrap?.featureFlagPayloads?.[key] || null,
+            // If we haven't yet received a response from the /decide endpoint, we must have used the bootstrapped value
+            $used_bootstrap_value: !this._flagsLoadedFromRemote,
+        }
 
-                if (flagDetails?.metadata?.id) {
-                    properties.$feature_flag_id = flagDetails.metadata.id
-                }
+        if (!isUndefined(flagDetails?.metadata?.version)) {
+            properties.$feature_flag_version = flagDetails!.metadata!.version
+        }
 
-                // It's possible that flag values were overridden by calling overrideFeatureFlags.
-                // We want to capture the original values in case someone forgets they were using overrides
-                // and is wondering why their app is acting weird.
-                if (!isUndefined(flagDetails?.original_variant) || !isUndefined(flagDetails?.original_enabled)) {
-                    properties.$feature_flag_original_response = !isUndefined(flagDetails?.original_variant)
-                        ? flagDetails!.original_variant
-                        : flagDetails!.original_enabled
-                }
+        const reason = flagDetails?.reason?.description ?? flagDetails?.reason?.code
+        if (reason) {
+            properties.$feature_flag_reason = reason
+        }
 
-                if (flagDetails?.metadata?.original_payload) {
-                    properties.$feature_flag_original_payload = flagDetails?.metadata?.original_payload
-                }
+        if (flagDetails?.metadata?.id) {
+            properties.$feature_flag_id = flagDetails.metadata.id
+        }
 
-                this.instance.capture('$feature_flag_called', properties)
-            }
+        // It's possible that flag values were overridden by calling overrideFeatureFlags.
+        // We want to capture the original values in case someone forgets they were using overrides
+        // and is wondering why their app is acting weird.
+        if (!isUndefined(flagDetails?.original_variant) || !isUndefined(flagDetails?.original_enabled)) {
+            properties.$feature_flag_original_response = !isUndefined(flagDetails?.original_variant)
+                ? flagDetails!.original_variant
+                : flagDetails!.original_enabled
         }
-        return flagValue
+
+        if (flagDetails?.metadata?.original_payload) {
+            properties.$feature_flag_original_payload = flagDetails?.metadata?.original_payload
+        }
+
+        if (flagDetails?.pinnedAt) {
+            properties.$feature_flag_sticky = true
+        }
+
+        return properties
+    }
+
+    /*
+     * Records that the user was exposed to a variant of an experiment, e.g. once the variant is on their screen
+     * rather than whenever the flag is read, which can then be done with `{ send_event: false }`.
+     *
+     * ### Usage:
+     *
+     *     posthog.captureExperimentExposure('checkout-v2', { context: { placement: 'cart' } })
+     *
+     * @param {String} key Key of the feature flag of the experiment.
+     * @param {Object} options (optional) The variant that was seen, if not the current one,
+     *                         extra properties for the event, and whether it is reported once per session or ever.
+     */
+    captureExperimentExposure(key: string, options: ExperimentExposureOptions = {}): void {
+        const variant = isUndefined(options.variant) ? this.getFeatureFlag(key, { send_event: false }) : options.variant
+        if (isUndefined(variant)) {
+            logger.warn(`Not capturing an exposure to "${key}" as its variant isn't known yet.`)
+            return
+        }
+
+        const reported: Record<string, string> = this.instance.get_property(EXPERIMENT_EXPOSURES_REPORTED) || {}
+        const exposure = `${key}:${variant}`
+        const sessionId = this.instance.get_session_id()
+        const alreadyReported =
+            exposure in reported && (options.dedupe === 'persistence' || reported[exposure] === sessionId)
+        if (alreadyReported) {
+            return
+        }
+        this.instance.persistence?.register({ [EXPERIMENT_EXPOSURES_REPORTED]: { ...reported, [exposure]: sessionId } })
+
+        this.instance.capture('$feature_flag_called', {
+            ...options.context,
+            ...this._flagCalledProperties(key, variant),
+            $feature_flag_exposure: true,
+        })
     }
 
     /*
@@ -597,6 +924,7 @@ export class PostHogFeatureFlags {
     isFeatureEnabled(key: string, options: { send_event?: boolean } = {}): boolean | undefined {
         if (!this._hasLoadedFlags && !(this.getFlags() && this.getFlags().length > 0)) {
             logger.warn('isFeatureEnabled for key "' + key + '" failed. Feature flags didn\'t load in time.')
+            this._recordFlagRead(key, undefined)
             return undefined
         }
         return !!this.getFeatureFlag(key, options)
@@ -610,7 +938,11 @@ export class PostHogFeatureFlags {
         this.featureFlagEventHandlers = this.featureFlagEventHandlers.filter((h) => h !== handler)
     }
 
-    receivedFeatureFlags(response: Partial<DecideResponse>, errorsLoading?: boolean): void {
+    /**
+     * @param partial the response only has some of the flags, e.g. the changes streamed from PostHog,
+     *                so they are merged into the current flags rather than replacing them
+     */
+    receivedFeatureFlags(response: Partial<DecideResponse>, errorsLoading?: boolean, partial?: boolean): void {
         if (!this.instance.persistence) {
             return
         }
@@ -618,14 +950,16 @@ export class PostHogFeatureFlags {
 
         const currentFlags = this.getFlagVariants()
         const currentFlagPayloads = this.getFlagPayloads()
-        const currentFlagDetails = this.getFlagsWithDetails()
+        const currentFlagDetails = this._getFlagDetailsWithOverrides()
         parseFeatureFlagDecideResponse(
             response,
             this.instance.persistence,
             currentFlags,
             currentFlagPayloads,
-            currentFlagDetails
+            currentFlagDetails,
+            partial
         )
+        this._pinStickyVariants()
         this._fireFeatureFlagsCallbacks(errorsLoading)
     }
 
@@ -730,11 +1064,57 @@ export class PostHogFeatureFlags {
         this.addFeatureFlagsHandler(callback)
         if (this._hasLoadedFlags) {
             const { flags, flagVariants } = this._prepareFeatureFlagsForCallbacks()
-            callback(flags, flagVariants)
+            callback(flags, flagVariants, { fetchedAt: this.fetchedAt, isStale: this.isStale })
         }
         return () => this.removeFeatureFlagsHandler(callback)
     }
 
+    /*
+     * Register a listener that runs only when the value or the payload of the given flag changes,
+     * rather than on every reload like `onFeatureFlags`.
+     *
+     * ### Usage:
+     *
+     *     posthog.onFeatureFlag('beta-feature', function(next, previous, detail) { // do something })
+     *
+     * @param {String} key Key of the feature flag.
+     * @param {Function} [callback] Called with the new value, the previous value and the details of the flag.
+     * @returns {Function} A function that can be called to unsubscribe the listener.
+     */
+    onFeatureFlag(key: string, callback: FeatureFlagChangeCallback): () => void {
+        return this.onFeatureFlagsChange([key], (changes) => {
+            const { next, previous, detail } = changes[key]
+            callback(next, previous, detail)
+        })
+    }
+
+    /*
+     * Register a listener that runs once per update in which any of the given flags changed,
+     * with the changes to only those flags.
+     *
+     * ### Usage:
+     *
+     *     posthog.onFeatureFlagsChange(['beta-feature', 'new-onboarding'], function(changes) {
+     *         // e.g. changes['beta-feature'].next, changes['beta-feature'].previous
+     *     })
+     *
+     * @param {Array} keys Keys of the feature flags.
+     * @param {Function} [callback] Called with the changed flags, keyed by flag.
+     * @returns {Function} A function that can be called to unsubscribe the listener.
+     */
+    onFeatureFlagsChange(keys: string[], callback: FeatureFlagsChangeCallback): () => void {
+        const subscription: FeatureFlagChangeSubscription = { keys, callback, seen: {} }
+        const variants = this.getFlagVariants()
+        const payloads = this.getFlagPayloads()
+        keys.forEach((key) => {
+            subscription.seen[key] = { value: variants[key], payload: JSON.stringify(payloads[key]) }
+        })
+        this._flagChangeSubscriptions.push(subscription)
+        return () => {
+            this._flagChangeSubscriptions = this._flagChangeSubscriptions.filter((s) => s !== subscription)
+        }
+    }
+
     updateEarlyAccessFeatureEnrollment(key: string, isEnrolled: boolean): void {
         const existing_early_access_features: EarlyAccessFeature[] =
             this.instance.get_property(PERSISTENCE_EARLY_ACCESS_FEATURES) || []
@@ -795,6 +1175,128 @@ export class PostHogFeatureFlags {
         }
     }
 
+    renderEarlyAccessFeatures(options: EarlyAccessFeaturesWidgetOptions = {}): () => void {
+        const phExtensions = assignableWindow.__PosthogExtensions__
+        let removed = false
+        let remove: (() => void) | undefined
+        const render = (
+            renderEarlyAccessFeatures: (posthog: PostHog, options: EarlyAccessFeaturesWidgetOptions) => () => void
+        ) => {
+            if (!removed) {
+                remove = renderEarlyAccessFeatures(this.instance, options)
+            }
+        }
+
+        if (phExtensions?.renderEarlyAccessFeatures) {
+            render(phExtensions.renderEarlyAccessFeatures)
+        } else if (phExtensions?.loadExternalDependency) {
+            phExtensions.loadExternalDependency(this.instance, 'early-access-features', (err) => {
+                if (err || !phExtensions.renderEarlyAccessFeatures) {
+                    logger.error('Could not load early access features script', err)
+                    return
+                }
+                render(phExtensions.renderEarlyAccessFeatures)
+            })
+        } else {
+            logger.error('PostHog loadExternalDependency extension not found. Cannot show early access features.')
+        }
+
+        return () => {
+            removed = true
+            remove?.()
+        }
+    }
+
+    /**
+     * Keeps the first variant of each sticky flag, so that reloading flags after `identify` or new person
+     * properties doesn't move the user to another variant of a running experiment
+     */
+    private _pinStickyVariants(): void {
+        const stickyFlags = this.instance.config.sticky_feature_flags
+        if (!stickyFlags || !this.instance.persistence) {
+            return
+        }
+        const pins: Record<string, StickyVariant> = { ...this.instance.get_property(STICKY_FEATURE_FLAGS) }
+        const flags: Record<string, string | boolean> = { ...this.instance.get_property(ENABLED_FEATURE_FLAGS) }
+        const payloads: Record<string, JsonType> = { ...this.instance.get_property(PERSISTENCE_FEATURE_FLAG_PAYLOADS) }
+        const details: Record<string, FeatureFlagDetail> = {
+            ...this.instance.get_property(PERSISTENCE_FEATURE_FLAG_DETAILS),
+        }
+        const now = Date.now()
+
+        Object.keys({ ...pins, ...stickyFlags }).forEach((key) => {
+            const options = stickyFlags[key]
+            const pin = pins[key]
+            const detail = details[key]
+            const version = detail?.metadata?.version
+
+            // a flag that is no longer returned has been turned off, e.g. because its experiment ended
+            if (!options || !(key in flags)) {
+                delete pins[key]
+                return
+            }
+
+            // a new version of the flag means it was edited, e.g. to roll the winning variant out to everyone
+            const flagChanged = isNumber(pin?.version) && isNumber(version) && pin.version !== version
+            if (pin && !flagChanged && !(isNumber(pin.expire_at) && pin.expire_at <= now)) {
+                if (isUndefined(pin.version)) {
+                    pins[key] = { ...pin, version }
+                }
+                if (flags[key] !== pin.variant) {
+                    flags[key] = pin.variant
+                    if (isUndefined(pin.payload)) {
+                        delete payloads[key]
+                    } else {
+                        payloads[key] = pin.payload
+                    }
+                    if (detail) {
+                        details[key] = {
+                            ...detail,
+                            enabled: true,
+                            variant: isString(pin.variant) ? pin.variant : undefined,
+                            original_variant: detail.variant,
+                            metadata: detail.metadata && {
+                                ...detail.metadata,
+                                payload: pin.payload,
+                                original_payload: detail.metadata.payload,
+                            },
+                        }
+                        if (!detail.enabled) {
+                            details[key].original_enabled = detail.enabled
+                        }
+                    }
+                }
+                if (details[key]) {
+                    details[key] = { ...details[key], pinnedAt: pin.pinned_at }
+                }
+                return
+            }
+
+            delete pins[key]
+            if (flags[key]) {
+                const ttl = isObject(options) ? options.ttl_ms : undefined
+                pins[key] = {
+                    variant: flags[key],
+                    payload: payloads[key],
+                    pinned_at: now,
+                    expire_at: isNumber(ttl) ? now + ttl : undefined,
+                    version,
+                }
+                if (detail) {
+                    details[key] = { ...detail, pinnedAt: now }
+                }
+            }
+        })
+
+        this.instance.persistence.register({
+            [STICKY_FEATURE_FLAGS]: pins,
+            [PERSISTENCE_ACTIVE_FEATURE_FLAGS]: Object.keys(filterActiveFeatureFlags(flags)),
+            [ENABLED_FEATURE_FLAGS]: flags,
+            [PERSISTENCE_FEATURE_FLAG_PAYLOADS]: payloads,
+            [PERSISTENCE_FEATURE_FLAG_DETAILS]: details,
+        })
+    }
+
     _prepareFeatureFlagsForCallbacks(): { flags: string[]; flagVariants: Record<string, string | boolean> } {
         const flags = this.getFlags()
         const flagVariants = this.getFlagVariants()
@@ -816,7 +1318,40 @@ export class PostHogFeatureFlags {
 
     _fireFeatureFlagsCallbacks(errorsLoading?: boolean): void {
         const { flags, flagVariants } = this._prepareFeatureFlagsForCallbacks()
-        this.featureFlagEventHandlers.forEach((handler) => handler(flags, flagVariants, { errorsLoading }))
+        const context = {
+            errorsLoading,
+            fetchedAt: this.fetchedAt,
+            isStale: this.isStale,
+            diagnostics: this.getLoadDiagnostics(),
+        }
+        this.featureFlagEventHandlers.forEach((handler) => handler(flags, flagVariants, context))
+        this._fireFeatureFlagChangeCallbacks()
+    }
+
+    private _fireFeatureFlagChangeCallbacks(): void {
+        if (!this._flagChangeSubscriptions.length) {
+            return
+        }
+        const variants = this.getFlagVariants()
+        const payloads = this.getFlagPayloads()
+        const details = this.getFlagsWithDetails()
+
+        this._flagChangeSubscriptions.forEach((subscription) => {
+            const changes: Record<string, FeatureFlagChange> = {}
+            subscription.keys.forEach((key) => {
+                const value = variants[key]
+                const payload = JSON.stringify(payloads[key])
+                const seen = subscription.seen[key]
+                if (seen.value === value && seen.payload === payload) {
+                    return
+                }
+                changes[key] = { next: value, previous: seen.value, detail: details[key] }
+                subscription.seen[key] = { value, payload }
+            })
+            if (Object.keys(changes).length) {
+                subscription.callback(changes)
+            }
+        })
     }
 
     /**
@@ -24,6 +24,10 @@ export interface SurveyAppearance {
     thankYouMessageDescription?: string
     thankYouMessageDescriptionContentType?: SurveyQuestionDescriptionContentType
     thankYouMessageCloseButtonText?: string
+    // shown when the user comes back to a survey they didn't finish
+    resumePromptText?: string
+    resumeButtonText?: string
+    startOverButtonText?: string
     borderColor?: string
     position?: 'left' | 'right' | 'center'
     placeholder?: string
@@ -41,13 +45,57 @@ export interface SurveyAppearance {
     disabledButtonOpacity?: string
 }
 
+/**
+ * The survey text in one language, where questions are keyed by their id. Choices, rows and columns
+ * are translated by position, so that responses are recorded with the original text in every language.
+ */
+export interface SurveyTranslation {
+    appearance?: Pick<
+        SurveyAppearance,
+        | 'submitButtonText'
+        | 'thankYouMessageHeader'
+        | 'thankYouMessageDescription'
+        | 'thankYouMessageCloseButtonText'
+        | 'resumePromptText'
+        | 'resumeButtonText'
+        | 'startOverButtonText'
+        | 'placeholder'
+        | 'widgetLabel'
+    >
+    questions?: Record<string, SurveyQuestionTranslation>
+}
+
+export interface SurveyQuestionTranslation {
+    question?: string
+    description?: string | null
+    buttonText?: string
+    link?: string | null
+    lowerBoundLabel?: string
+    upperBoundLabel?: string
+    choices?: string[]
+    rows?: string[]
+    columns?: string[]
+}
+
 export enum SurveyType {
     Popover = 'popover',
     API = 'api',
     Widget = 'widget',
 }
 
-export type SurveyQuestion = BasicSurveyQuestion | LinkSurveyQuestion | RatingSurveyQuestion | MultipleSurveyQuestion
+export type SurveyQuestion =
+    | BasicSurveyQuestion
+    | LinkSurveyQuestion
+    | RatingSurveyQuestion
+    | MultipleSurveyQuestion
+    | RankingSurveyQuestion
+    | MatrixSurveyQuestion
+
+/**
+ * What a question was answered with: the choices of a ranking question in ranked order,
+ * and the column picked for each row of a matrix question, keyed by the row
+ */
+export type SurveyQuestionResponse = string | string[] | number | Record<string, string> | null
 
 export type SurveyQuestionDescriptionContentType = 'html' | 'text'
 
@@ -85,12 +133,33 @@ export interface MultipleSurveyQuestion extends SurveyQuestionBase {
     shuffleOptions?: boolean
 }
 
+/**
+ * Response based branching goes by the index of the choice ranked first
+ */
+export interface RankingSurveyQuestion extends SurveyQuestionBase {
+    type: SurveyQuestionType.Ranking
+    choices: string[]
+    shuffleOptions?: boolean
+}
+
+/**
+ * Each row is rated on the same scale of columns, e.g. from "Strongly disagree" to "Strongly agree".
+ * Response based branching goes by `<row index>:<column index>`, checking the rows in order.
+ */
+export interface MatrixSurveyQuestion extends SurveyQuestionBase {
+    type: SurveyQuestionType.Matrix
+    rows: string[]
+    columns: string[]
+}
+
 export enum SurveyQuestionType {
     Open = 'open',
     MultipleChoice = 'multiple_choice',
     SingleChoice = 'single_choice',
     Rating = 'rating',
     Link = 'link',
+    Ranking = 'ranking',
+    Matrix = 'matrix',
 }
 
 export enum SurveyQuestionBranchingType {
@@ -141,6 +210,48 @@ export interface SurveyRenderReason {
     disabledReason?: string
 }
 
+/**
+ * Runs a survey without any UI, so that it can be rendered with your own components,
+ * while the ordering, branching, events and seen bookkeeping work as for the built-in surveys
+ */
+export interface SurveyController {
+    readonly survey: Survey
+    readonly locale: string | undefined
+    // in the order to show them in, translated to `locale`
+    readonly questions: SurveyQuestion[]
+    readonly currentQuestionIndex: number
+    // null once the survey is completed or dismissed
+    readonly currentQuestion: SurveyQuestion | null
+    readonly responses: Record<string, SurveyQuestionResponse>
+    readonly isCompleted: boolean
+    readonly isDismissed: boolean
+    /**
+     * Whether the user should see the survey, i.e. hasn't seen it yet and isn't within its wait period
+     */
+    canShow(): boolean
+    /**
+     * Captures `survey shown`, once the survey is visible to the user
+     */
+    show(): void
+    /**
+     * The choices of a question in the order to show them in, which is shuffled if the question says so
+     */
+    getDisplayOrderChoices(question: SurveyQuestion): string[]
+    /**
+     * Answers the current question and moves on to the next one as the survey branches,
+     * capturing `survey sent` once the survey is completed. Returns false if the answer wasn't accepted.
+     */
+    submitAnswer(response: SurveyQuestionResponse): boolean
+    /**
+     * Captures `survey dismissed` and stops the survey
+     */
+    dismiss(): void
+    /**
+     * Calls back whenever the state of the survey changes, and returns a function to stop doing so
+     */
+    onChange(callback: () => void): () => void
+}
+
 export enum SurveySchedule {
     Once = 'once',
     Recurring = 'recurring',
@@ -180,12 +291,25 @@ export interface Survey {
         } | null
         deviceTypes?: string[]
         deviceTypesMatchType?: SurveyMatchType
+        // engagement conditions, which all have to be met before a popover survey is shown.
+        // They're measured since the page loaded, or since the survey was last shown if it's shown repeatedly.
+        minTimeOnPageSeconds?: number
+        // how far down the page the user has scrolled, from 0 to 100
+        minScrollPercentage?: number
+        // the cursor leaving the page on desktop, or a fast scroll up on mobile
+        exitIntent?: boolean
+        minIdleSeconds?: number
     } | null
     start_date: string | null
     end_date: string | null
     current_iteration: number | null
     current_iteration_start_date: string | null
     schedule?: SurveySchedule | null
+    // sends the answers after every question, instead of only once the survey is completed
+    enable_partial_responses?: boolean | null
+    // the language the survey is written in, used when none of its translations match the user
+    default_locale?: string | null
+    translations?: Record<string, SurveyTranslation> | null
 }
 
 export interface SurveyActionType {
@@ -1,7 +1,7 @@
 import { SURVEYS } from './constants'
-import { getSurveySeenStorageKeys } from './extensions/surveys/surveys-utils'
+import { getInProgressSurveyStorageKeys, getSurveySeenStorageKeys } from './extensions/surveys/surveys-utils'
 import { PostHog } from './posthog-core'
-import { Survey, SurveyCallback, SurveyMatchType, SurveyRenderReason } from './posthog-surveys-types'
+import { Survey, SurveyCallback, SurveyController, SurveyMatchType, SurveyRenderReason } from './posthog-surveys-types'
 import { RemoteConfig } from './types'
 import { Info } from './utils/event-utils'
 import { assignableWindow, document, userAgent, window } from './utils/globals'
@@ -91,7 +91,7 @@ export class PostHogSurveys {
 
     reset(): void {
         localStorage.removeItem('lastSeenSurveyDate')
-        const surveyKeys = getSurveySeenStorageKeys()
+        const surveyKeys = [...getSurveySeenStorageKeys(), ...getInProgressSurveyStorageKeys()]
         surveyKeys.forEach((key) => localStorage.removeItem(key))
     }
 
@@ -113,6 +113,11 @@ export class PostHogSurveys {
             return
         }
 
+        if (!this.instance.consent.isGranted('surveys')) {
+            logger.info('No consent for surveys. Not loading surveys.')
+            return
+        }
+
         const phExtensions = assignableWindow?.__PosthogExtensions__
 
         if (!phExtensions) {
@@ -403,6 +408,39 @@ export class PostHogSurveys {
         return renderReason
     }
 
+    /**
+     * Creates a controller to render a survey with your own UI, while it still branches, captures the survey events
+     * and keeps track of whether the user has seen it like the built-in surveys do.
+     * ### Usage:
+     *
+     *     posthog.surveys.createController('survey-id', (controller) => {
+     *         if (controller?.canShow()) {
+     *             controller.onChange(() => render(controller.currentQuestion))
+     *             controller.show()
+     *         }
+     *     })
+     *
+     * The callback is called with null if the surveys couldn't be loaded or there's no survey with this id
+     */
+    createController(surveyId: string, callback: (controller: SurveyController | null) => void): void {
+        if (isNullish(this._surveyManager)) {
+            logger.warn('init was not called')
+            return callback(null)
+        }
+        const createSurveyController = assignableWindow.__PosthogExtensions__?.createSurveyController
+        if (!createSurveyController) {
+            logger.warn('The surveys extension is not loaded. Cannot create a survey controller.')
+            return callback(null)
+        }
+        this.getSurveys((surveys) => {
+            const survey = surveys.filter((x) => x.id === surveyId)[0]
+            if (!survey) {
+                logger.warn(`Survey ${surveyId} not found`)
+            }
+            callback(survey ? createSurveyController(this.instance, survey) : null)
+        })
+    }
+
     renderSurvey(surveyId: string, selector: string) {
         if (isNullish(this._surveyManager)) {
             logger.warn('init was not called')
@@ -2,10 +2,13 @@ import { CAPTURE_RATE_LIMIT } from './constants'
 import type { PostHog } from './posthog-core'
 import { RequestResponse } from './types'
 import { createLogger } from './utils/logger'
+import { isUndefined } from './utils/type-utils'
 
 const logger = createLogger('[RateLimiter]')
 
 const ONE_MINUTE_IN_MILLISECONDS = 60 * 1000
+// a misconfigured Retry-After mustn't stop us sending for days
+const MAX_SERVER_BACKOFF_IN_MILLISECONDS = 30 * ONE_MINUTE_IN_MILLISECONDS
 const RATE_LIMIT_EVENT = '$$client_ingestion_warning'
 
 interface CaptureResponse {
@@ -14,7 +17,10 @@ interface CaptureResponse {
 
 export class RateLimiter {
     instance: PostHog
+    // quota limits, nothing is sent for these until they end
     serverLimits: Record<string, number> = {}
+    // 429s and 503s asking us to try again later, only requests that can be retried wait for these
+    private _serverBackoffs: Record<string, number> = {}
 
     captureEventsPerSecond: number
     captureEventsBurstLimit: number
@@ -87,7 +93,17 @@ export class RateLimiter {
         return new Date().getTime() < retryAfter
     }
 
-    public checkForLimiting = (httpResponse: RequestResponse): void => {
+    /**
+     * How long the server asked us to wait before sending anything else for this batch key, 0 if it didn't
+     */
+    public serverBackoffRemaining(batchKey: string | undefined): number {
+        const backoffUntil = this._serverBackoffs[batchKey || 'events']
+        return backoffUntil ? Math.max(0, backoffUntil - new Date().getTime()) : 0
+    }
+
+    public checkForLimiting = (httpResponse: RequestResponse, batchKey?: string): void => {
+        this._checkForBackoff(httpResponse, batchKey)
+
         const text = httpResponse.text
 
         if (!text || !text.length) {
@@ -106,4 +122,20 @@ export class RateLimiter {
             return
         }
     }
+
+    private _checkForBackoff({ statusCode, retryAfterMs }: RequestResponse, batchKey: string | undefined): void {
+        if (statusCode !== 429 && statusCode !== 503) {
+            return
+        }
+        // a 503 without Retry-After is an ordinary failure, left to the retry queue's own backoff
+        const backoff = retryAfterMs ?? (statusCode === 429 ? ONE_MINUTE_IN_MILLISECONDS : undefined)
+        if (isUndefined(backoff)) {
+            return
+        }
+
+        const key = batchKey || 'events'
+        const backoffUntil = new Date().getTime() + Math.min(backoff, MAX_SERVER_BACKOFF_IN_MILLISECONDS)
+        logger.info(`${key} is rate limited by the server until ${new Date(backoffUntil).toISOString()}.`)
+        this._serverBackoffs[key] = backoffUntil
+    }
 }
@@ -25,6 +25,10 @@ export class RequestQueue {
         this.sendRequest = sendRequest
     }
 
+    get length(): number {
+        return this.queue.length
+    }
+
     enqueue(req: QueuedRequestWithOptions): void {
         this.queue.push(req)
 
@@ -4,6 +4,7 @@ import { Compression, RequestWithOptions, RequestResponse } from './types'
 import { formDataToQuery } from './utils/request-utils'
 
 import { logger } from './utils/logger'
+import { isUndefined } from './utils/type-utils'
 import { AbortController, fetch, navigator, XMLHttpRequest } from './utils/globals'
 import { gzipSync, strToU8 } from 'fflate'
 
@@ -52,23 +53,41 @@ export const jsonStringify = (data: any, space?: string | number): string => {
     return JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value), space)
 }
 
+/**
+ * Parses a `Retry-After` header, which holds either a number of seconds or an HTTP date, into milliseconds
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+    if (!value) {
+        return
+    }
+    const seconds = Number(value)
+    if (!isNaN(seconds)) {
+        return seconds >= 0 ? seconds * 1000 : undefined
+    }
+    const date = Date.parse(value)
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
 const encodeToDataString = (data: string | Record<string, any>): string => {
     return 'data=' + encodeURIComponent(typeof data === 'string' ? data : jsonStringify(data))
 }
 
+const gzippedBody = (gzipData: Uint8Array): EncodedBody => {
+    const blob = new Blob([gzipData], { type: CONTENT_TYPE_PLAIN })
+    return {
+        contentType: CONTENT_TYPE_PLAIN,
+        body: blob,
+        estimatedSize: blob.size,
+    }
+}
+
 const encodePostData = ({ data, compression }: RequestWithOptions): EncodedBody | undefined => {
     if (!data) {
         return
     }
 
     if (compression === Compression.GZipJS) {
-        const gzipData = gzipSync(strToU8(jsonStringify(data)), { mtime: 0 })
-        const blob = new Blob([gzipData], { type: CONTENT_TYPE_PLAIN })
-        return {
-            contentType: CONTENT_TYPE_PLAIN,
-            body: blob,
-            estimatedSize: blob.size,
-        }
+        return gzippedBody(gzipSync(strToU8(jsonStringify(data)), { mtime: 0 }))
     }
 
     if (compression === Compression.Base64) {
@@ -90,10 +109,10 @@ const encodePostData = ({ data, compression }: RequestWithOptions): EncodedBody
     }
 }
 
-const xhr = (options: RequestWithOptions) => {
+const xhr = (options: RequestWithOptions, encoded?: EncodedBody) => {
     const req = new XMLHttpRequest!()
     req.open(options.method || 'GET', options.url, true)
-    const { contentType, body } = encodePostData(options) ?? {}
+    const { contentType, body } = encoded ?? encodePostData(options) ?? {}
 
     each(options.headers, function (headerValue, headerName) {
         req.setRequestHeader(headerName, headerValue)
@@ -115,6 +134,7 @@ const xhr = (options: RequestWithOptions) => {
             const response: RequestResponse = {
                 statusCode: req.status,
                 text: req.responseText,
+                retryAfterMs: parseRetryAfter(req.getResponseHeader('Retry-After')),
             }
             if (req.status === 200) {
                 try {
@@ -130,8 +150,8 @@ const xhr = (options: RequestWithOptions) => {
     req.send(body)
 }
 
-const _fetch = (options: RequestWithOptions) => {
-    const { contentType, body, estimatedSize } = encodePostData(options) ?? {}
+const _fetch = (options: RequestWithOptions, encoded?: EncodedBody) => {
+    const { contentType, body, estimatedSize } = encoded ?? encodePostData(options) ?? {}
 
     // eslint-disable-next-line compat/compat
     const headers = new Headers()
@@ -174,6 +194,7 @@ const _fetch = (options: RequestWithOptions) => {
                 const res: RequestResponse = {
                     statusCode: response.status,
                     text: responseText,
+                    retryAfterMs: parseRetryAfter(response.headers?.get('Retry-After')),
                 }
 
                 if (response.status === 200) {
@@ -196,7 +217,7 @@ const _fetch = (options: RequestWithOptions) => {
     return
 }
 
-const _sendBeacon = (options: RequestWithOptions) => {
+const _sendBeacon = (options: RequestWithOptions, encoded?: EncodedBody) => {
     // beacon documentation https://w3c.github.io/beacon/
     // beacons format the message and use the type property
 
@@ -205,7 +226,7 @@ const _sendBeacon = (options: RequestWithOptions) => {
     })
 
     try {
-        const { contentType, body } = encodePostData(options) ?? {}
+        const { contentType, body } = encoded ?? encodePostData(options) ?? {}
         // sendBeacon requires a blob so we convert it
         const sendBeaconBody = typeof body === 'string' ? new Blob([body], { type: contentType }) : body
         navigator!.sendBeacon!(url, sendBeaconBody)
@@ -215,9 +236,58 @@ const _sendBeacon = (options: RequestWithOptions) => {
     }
 }
 
+const _customTransport = (options: RequestWithOptions, encoded?: EncodedBody) => {
+    const { contentType, body } = encoded ?? encodePostData(options) ?? {}
+
+    const headers: Record<string, string> = {}
+    each(options.headers, function (headerValue, headerName) {
+        headers[headerName] = headerValue
+    })
+
+    if (contentType) {
+        headers['Content-Type'] = contentType
+    }
+
+    let responded = false
+    const respond = (response: RequestResponse) => {
+        // a misbehaving transport mustn't make us process a response twice, e.g. enqueueing a retry twice
+        if (responded) {
+            return
+        }
+        responded = true
+        const res: RequestResponse = { ...response }
+        if (res.statusCode === 200 && isUndefined(res.json) && res.text) {
+            try {
+                res.json = JSON.parse(res.text)
+            } catch (e) {
+                logger.error(e)
+            }
+        }
+        options.callback?.(res)
+    }
+
+    try {
+        options.customTransport!(
+            {
+                url: options.url,
+                method: options.method || 'GET',
+                headers,
+                body,
+                compression: options.compression === 'best-available' ? undefined : options.compression,
+                timeout: options.timeout,
+                transport: options.transport,
+            },
+            respond
+        )
+    } catch (error) {
+        logger.error(error)
+        respond({ statusCode: 0, text: String(error) })
+    }
+}
+
 const AVAILABLE_TRANSPORTS: {
     transport: RequestWithOptions['transport']
-    method: (options: RequestWithOptions) => void
+    method: (options: RequestWithOptions, encoded?: EncodedBody) => void
 }[] = []
 
 // We add the transports in order of preference
@@ -256,12 +326,27 @@ export const request = (_options: RequestWithOptions) => {
 
     const transport = options.transport ?? 'fetch'
 
-    const transportMethod =
-        find(AVAILABLE_TRANSPORTS, (t) => t.transport === transport)?.method ?? AVAILABLE_TRANSPORTS[0].method
+    const transportMethod = options.customTransport
+        ? _customTransport
+        : (find(AVAILABLE_TRANSPORTS, (t) => t.transport === transport)?.method ?? AVAILABLE_TRANSPORTS[0].method)
 
     if (!transportMethod) {
         throw new Error('No available transport method')
     }
 
+    // a beacon is sent as the page unloads, so it can't wait for the worker
+    if (
+        options.encodingWorker?.isAvailable &&
+        options.data &&
+        options.compression === Compression.GZipJS &&
+        transport !== 'sendBeacon'
+    ) {
+        options.encodingWorker.gzip(options.data, (gzipData) => {
+            // if the worker couldn't encode it, the transport falls back to encoding it here and now
+            transportMethod(options, gzipData ? gzippedBody(gzipData) : undefined)
+        })
+        return
+    }
+
     transportMethod(options)
 }
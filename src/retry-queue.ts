@@ -28,6 +28,12 @@ export function pickNextRetryDelay(retriesPerformedSoFar: number): number {
     return Math.ceil(cappedBackoffTime + jitter)
 }
 
+/**
+ * Whether a request that got this response should be sent again: network errors, rate limiting and server errors
+ */
+export const isRetriableStatus = (statusCode: number): boolean =>
+    statusCode !== 200 && (statusCode === 429 || statusCode < 400 || statusCode >= 500)
+
 interface RetryQueueElement {
     retryAt: number
     requestOptions: RetriableRequestWithOptions
@@ -58,7 +64,18 @@ export class RetryQueue {
         }
     }
 
+    get length(): number {
+        return this.queue.length
+    }
+
     retriableRequest({ retriesPerformedSoFar, ...options }: RetriableRequestWithOptions): void {
+        // sending now would only be dropped, so it waits for the server's backoff to end without using up a retry
+        const serverBackoff = this.serverBackoffRemaining(options)
+        if (serverBackoff > 0) {
+            this.schedule({ retriesPerformedSoFar, ...options }, serverBackoff)
+            return
+        }
+
         if (isNumber(retriesPerformedSoFar) && retriesPerformedSoFar > 0) {
             options.url = extendURLParams(options.url, { retry_count: retriesPerformedSoFar })
         }
@@ -66,12 +83,15 @@ export class RetryQueue {
         this.instance._send_request({
             ...options,
             callback: (response) => {
-                if (response.statusCode !== 200 && (response.statusCode < 400 || response.statusCode >= 500)) {
+                if (isRetriableStatus(response.statusCode)) {
                     if ((retriesPerformedSoFar ?? 0) < 10) {
-                        this.enqueue({
-                            retriesPerformedSoFar,
-                            ...options,
-                        })
+                        this.enqueue(
+                            {
+                                retriesPerformedSoFar,
+                                ...options,
+                            },
+                            response.retryAfterMs
+                        )
                         return
                     }
                 }
@@ -81,20 +101,26 @@ export class RetryQueue {
         })
     }
 
-    private enqueue(requestOptions: RetriableRequestWithOptions): void {
+    private enqueue(requestOptions: RetriableRequestWithOptions, retryAfterMs?: number): void {
         const retriesPerformedSoFar = requestOptions.retriesPerformedSoFar || 0
         requestOptions.retriesPerformedSoFar = retriesPerformedSoFar + 1
 
-        const msToNextRetry = pickNextRetryDelay(retriesPerformedSoFar)
-        const retryAt = Date.now() + msToNextRetry
-
-        this.queue.push({ retryAt, requestOptions })
+        // the server knows better than our own backoff when it will be able to take the request,
+        // but a misconfigured Retry-After mustn't park it for days, so it's capped like the RateLimiter's backoff
+        const msToNextRetry = isNumber(retryAfterMs)
+            ? Math.min(retryAfterMs, thirtyMinutes)
+            : pickNextRetryDelay(retriesPerformedSoFar)
+        this.schedule(requestOptions, msToNextRetry)
 
         let logMessage = `Enqueued failed request for retry in ${msToNextRetry}`
         if (!navigator.onLine) {
             logMessage += ' (Browser is offline)'
         }
         logger.warn(logMessage)
+    }
+
+    private schedule(requestOptions: RetriableRequestWithOptions, msToNextRetry: number): void {
+        this.queue.push({ retryAt: Date.now() + msToNextRetry, requestOptions })
 
         if (!this.isPolling) {
             this.isPolling = true
@@ -102,6 +128,11 @@ export class RetryQueue {
         }
     }
 
+    private serverBackoffRemaining(options: RetriableRequestWithOptions): number {
+        // server limits are only tracked for the main project, see `_send_request`
+        return options.destinationToken ? 0 : this.instance.rateLimiter.serverBackoffRemaining(options.batchKey)
+    }
+
     private poll(): void {
         this.poller && clearTimeout(this.poller)
         this.poller = setTimeout(() => {
@@ -139,6 +170,11 @@ export class RetryQueue {
         }
 
         for (const { requestOptions } of this.queue) {
+            if (requestOptions.outboxId && (!this.areWeOnline || this.serverBackoffRemaining(requestOptions) > 0)) {
+                // there's no point beaconing while offline or to a server asking us to back off,
+                // the outbox replays this on the next page load
+                continue
+            }
             try {
                 // we've had send beacon in place for at least 2 years
                 // eslint-disable-next-line compat/compat
@@ -151,6 +187,10 @@ export class RetryQueue {
                 // This means in some cases `this.getConfig` will be undefined.
                 logger.error(e)
             }
+            if (requestOptions.outboxId) {
+                // a beacon is as good as it gets on unload, we don't want to replay it and cause duplicates
+                this.instance._outbox?.remove(requestOptions.outboxId)
+            }
         }
         this.queue = []
     }
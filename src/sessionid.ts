@@ -23,7 +23,7 @@ export class SessionIdManager {
     private readonly _sessionIdGenerator: () => string
     private readonly _windowIdGenerator: () => string
     private config: Partial<PostHogConfig>
-    private persistence: PostHogPersistence
+    readonly persistence: PostHogPersistence
     private _windowId: string | null | undefined
     private _sessionId: string | null | undefined
     private readonly _window_id_storage_key: string
@@ -41,12 +41,17 @@ export class SessionIdManager {
         if (!instance.persistence) {
             throw new Error('SessionIdManager requires a PostHogPersistence instance')
         }
-        if (instance.config.__preview_experimental_cookieless_mode) {
-            throw new Error('SessionIdManager cannot be used with __preview_experimental_cookieless_mode')
-        }
 
         this.config = instance.config
-        this.persistence = instance.persistence
+        // in cookieless mode nothing that identifies the session may be stored in the browser,
+        // so the session only lives in memory and a reload or a new tab starts a new one
+        this.persistence = this.config.__preview_experimental_cookieless_mode
+            ? new PostHogPersistence({
+                  ...instance.config,
+                  persistence: 'memory',
+                  persistence_name: `${instance.config.token}_cookieless_session`,
+              })
+            : instance.persistence
         this._windowId = undefined
         this._sessionId = undefined
         this._sessionStartTimestamp = null
@@ -123,7 +128,12 @@ export class SessionIdManager {
 
     private _canUseSessionStorage(): boolean {
         // We only want to use sessionStorage if persistence is enabled and not memory storage
-        return this.config.persistence !== 'memory' && !this.persistence.disabled && sessionStore.is_supported()
+        return (
+            this.config.persistence !== 'memory' &&
+            !this.config.__preview_experimental_cookieless_mode &&
+            !this.persistence.disabled &&
+            sessionStore.is_supported()
+        )
     }
 
     // Note: this tries to store the windowId in sessionStorage. SessionStorage is unique to the current window/tab,
@@ -229,11 +239,6 @@ export class SessionIdManager {
      * @param {Number} timestamp (optional) Defaults to the current time. The timestamp to be stored with the sessionId (used when determining if a new sessionId should be generated)
      */
     checkAndGetSessionAndWindowId(readOnly = false, _timestamp: number | null = null) {
-        if (this.config.__preview_experimental_cookieless_mode) {
-            throw new Error(
-                'checkAndGetSessionAndWindowId should not be called in __preview_experimental_cookieless_mode'
-            )
-        }
         const timestamp = _timestamp || new Date().getTime()
 
         // eslint-disable-next-line prefer-const
@@ -1,6 +1,7 @@
 import type { recordOptions } from './extensions/replay/types/rrweb'
 import type { SegmentAnalytics } from './extensions/segment-integration'
 import { PostHog } from './posthog-core'
+import type { EncodingWorker } from './encoding-worker'
 import { Survey } from './posthog-surveys-types'
 
 export type Property = any
@@ -48,6 +49,7 @@ export type KnownEventName =
     | '$autocapture'
     | typeof COPY_AUTOCAPTURE_EVENT
     | '$rageclick'
+    | '$feature_flag_load'
 
 export type EventName =
     | KnownUnsafeEditableEvent
@@ -66,6 +68,109 @@ export interface CaptureResult {
     timestamp?: Date
 }
 
+export type EventSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
+/**
+ * The subset of JSON Schema supported by `posthog.registerEventSchema`.
+ * Keywords that aren't listed here are ignored.
+ */
+export interface EventSchema {
+    type?: EventSchemaType | readonly EventSchemaType[]
+    enum?: readonly (string | number | boolean | null)[]
+    /** for objects */
+    properties?: Record<string, EventSchema>
+    required?: readonly string[]
+    /** when false, properties that aren't listed in `properties` are a violation. Properties starting with `$` are always allowed */
+    additionalProperties?: boolean
+    /** for arrays */
+    items?: EventSchema
+    minItems?: number
+    maxItems?: number
+    /** for numbers */
+    minimum?: number
+    maximum?: number
+    /** for strings */
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+}
+
+/**
+ * What to do with an event whose properties don't match its registered schema
+ * - 'warn': log the violations and send the event as is
+ * - 'drop': log the violations and don't send the event
+ * - 'tag': send the event with the violations in its `$schema_violations` property
+ */
+export type SchemaViolationMode = 'warn' | 'drop' | 'tag'
+
+export interface EventSchemaOptions {
+    /** overrides `schema_violation_mode` for this event */
+    mode?: SchemaViolationMode
+}
+
+interface EventSchemaTypeMap {
+    string: string
+    number: number
+    integer: number
+    boolean: boolean
+    object: Record<string, unknown>
+    array: unknown[]
+    null: null
+}
+
+type InferSchemaRequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never
+
+type InferSchemaObject<S> = S extends { properties: infer P }
+    ? {
+          [K in keyof P as K extends InferSchemaRequiredKeys<S> ? K : never]: InferEventProperties<P[K]>
+      } & {
+          [K in keyof P as K extends InferSchemaRequiredKeys<S> ? never : K]?: InferEventProperties<P[K]>
+      } & (S extends { additionalProperties: false } ? unknown : Record<string, unknown>)
+    : Record<string, unknown>
+
+/**
+ * The TypeScript type of the values matching an `EventSchema` declared `as const`.
+ * Use it to declare the properties of your registered events, so that `capture` calls are type checked:
+ *
+ * @example
+ * const signedUp = { type: 'object', properties: { plan: { enum: ['free', 'paid'] } }, required: ['plan'] } as const
+ * posthog.registerEventSchema('signed up', signedUp)
+ *
+ * declare module 'posthog-js' {
+ *     interface RegisteredEventSchemas {
+ *         'signed up': InferEventProperties<typeof signedUp>
+ *     }
+ * }
+ */
+export type InferEventProperties<S> = S extends { enum: readonly (infer E)[] }
+    ? E
+    : S extends { type: 'array' }
+      ? S extends { items: infer I }
+          ? InferEventProperties<I>[]
+          : unknown[]
+      : S extends { type: 'object' } | { properties: any }
+        ? InferSchemaObject<S>
+        : S extends { type: infer T }
+          ? T extends keyof EventSchemaTypeMap
+              ? EventSchemaTypeMap[T]
+              : T extends readonly (infer U)[]
+                ? U extends keyof EventSchemaTypeMap
+                    ? EventSchemaTypeMap[U]
+                    : never
+                : never
+          : unknown
+
+/**
+ * Maps event names to the type of their properties. Empty by default, extend it with declaration merging
+ * to have `capture` check the properties of those events.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface RegisteredEventSchemas {}
+
+export type EventProperties<E extends EventName> = E extends keyof RegisteredEventSchemas
+    ? RegisteredEventSchemas[E]
+    : Properties
+
 export type AutocaptureCompatibleElement = 'a' | 'button' | 'form' | 'input' | 'select' | 'textarea' | 'label'
 export type DomAutocaptureEvents = 'click' | 'change' | 'submit'
 
@@ -136,12 +241,55 @@ export interface AutocaptureConfig {
     capture_copied_text?: boolean
 }
 
+export interface StickyFeatureFlagOptions {
+    /**
+     * How long a variant stays pinned, after which the user gets whichever variant they are assigned next
+     *
+     * @default undefined (until the flag is no longer returned)
+     */
+    ttl_ms?: number
+}
+
+export interface FeatureFlagUrlOverridesConfig {
+    /**
+     * When set, links also need `__posthog_flags_exp`, the unix time in seconds until which the link can be used,
+     * and `__posthog_flags_sig`: the HMAC-SHA1 hex digest of `<__posthog_flags>|<__posthog_flags_exp>` with this
+     * secret, made e.g. with `echo -n 'checkout-v2:test|1767225600' | openssl sha1 -hmac <secret>`.
+     * The secret ships with your site's code, so this stops links from being made up by hand rather than
+     * being a security boundary.
+     */
+    secret?: string
+
+    /**
+     * How long the overrides from a link are kept for
+     *
+     * @default 3600000 (1 hour)
+     */
+    ttl_ms?: number
+}
+
+export interface FeatureFlagStreamingOptions {
+    /**
+     * The Server-Sent Events endpoint to connect to, `token` and `distinct_id` are added to its query string.
+     * Each message is a JSON object in the format of the `/decide` response with the flags that changed.
+     *
+     * @default '/flags/stream/' on the api host
+     */
+    url?: string
+}
+
 export interface BootstrapConfig {
     distinctID?: string
     isIdentifiedID?: boolean
     featureFlags?: Record<string, boolean | string>
     featureFlagPayloads?: Record<string, JsonType>
 
+    /**
+     * Flag definitions to evaluate flags from in the browser until `/decide` responds,
+     * see `feature_flag_definitions_url`
+     */
+    featureFlagDefinitions?: FeatureFlagDefinitions
+
     /**
      * Optionally provide a sessionID, this is so that you can provide an existing sessionID here to continue a user's session across a domain or device. It MUST be:
      * - unique to this user
@@ -301,6 +449,29 @@ export interface PostHogConfig {
      */
     api_transport?: 'XHR' | 'fetch'
 
+    /**
+     * A custom function used to send every request instead of the built-in `fetch`, `XHR` or `sendBeacon` transports.
+     * This is useful when requests have to go through something other than the network stack of the page,
+     * e.g. an IPC bridge in Electron or `chrome.runtime` messaging in a browser extension.
+     *
+     * Retries, rate limiting and callbacks keep working as long as the transport responds with the status code it got.
+     *
+     * @see {CustomTransport}
+     * @default undefined
+     */
+    transport?: CustomTransport
+
+    /**
+     * Additional projects that captured events (including session recordings) are also sent to.
+     * Autocapture, session recording and persistence run once, each event is duplicated just before it is sent,
+     * with its `token` replaced by the destination's.
+     * Feature flags, surveys and everything else are only ever loaded from the main project.
+     *
+     * @see {CaptureDestination}
+     * @default undefined
+     */
+    destinations?: CaptureDestination[]
+
     /**
      * The token for your PostHog project.
      * It should NOT be provided manually in the config, but rather passed as the first parameter to `posthog.init()`.
@@ -419,10 +590,14 @@ export interface PostHogConfig {
 
     /**
      * Determines whether PostHog should capture pageview events automatically.
+     * If set to `'history_change'`, it will also capture a pageview whenever a single page app navigates
+     * to a different url using the History API (`pushState`, `replaceState`, `popstate` and `hashchange`),
+     * so you don't need to capture pageviews from your router yourself. The page that is left gets a pageleave
+     * first when `capture_pageleave` applies.
      *
      * @default true
      */
-    capture_pageview: boolean
+    capture_pageview: boolean | 'history_change'
 
     /**
      * Determines whether PostHog should capture pageleave events.
@@ -558,6 +733,28 @@ export interface PostHogConfig {
      */
     opt_out_persistence_by_default?: boolean
 
+    /**
+     * The consent given for each category until the user (or a consent adapter) says otherwise.
+     * Categories that aren't set are granted whenever capturing is opted in.
+     *
+     * @example
+     * // don't record sessions until the user has agreed to it
+     * default_consent_categories: { session_recording: false }
+     *
+     * @see {ConsentCategory}
+     * @default undefined
+     */
+    default_consent_categories?: ConsentCategories
+
+    /**
+     * Reads consent from your consent management platform, so that it stays the single source of truth.
+     * Each adapter updates the consent categories whenever the signal it listens to changes.
+     *
+     * @see {ConsentAdaptersConfig}
+     * @default undefined
+     */
+    consent_adapters?: ConsentAdaptersConfig
+
     /**
      * Determines if users should be opted out of user agent filtering such as googlebot or other bots.
      * If this is set to `true`, PostHog will set `$browser_type` to either `bot` or `browser` for all events,
@@ -726,6 +923,74 @@ export interface PostHogConfig {
      */
     feature_flag_request_timeout_ms: number
 
+    /**
+     * The share of users, between 0 and 1, for whom each load of feature flags is captured as a `$feature_flag_load` event
+     * with its latency, why it failed if it did, where the flags in use came from, and which flags were read before they loaded.
+     * See `posthog.getFeatureFlagLoadDiagnostics()` for the same without capturing events.
+     *
+     * @default undefined
+     */
+    feature_flag_load_event_sample_rate?: number
+
+    /**
+     * A url serving flag definitions, in the format of the local evaluation endpoint of the PostHog API.
+     * When definitions are available, here or in `bootstrap.featureFlagDefinitions`, flags are evaluated in the browser
+     * until `/decide` responds, or whenever it fails. That endpoint needs a personal API key, so this has to be
+     * served by your own backend.
+     *
+     * Flags that depend on cohorts, on other flags, on experience continuity or on properties the browser doesn't know
+     * can't be evaluated locally and are left to `/decide`.
+     *
+     * @default undefined
+     */
+    feature_flag_definitions_url?: string
+
+    /**
+     * Keeps flags up to date while the page is open, e.g. so that a kill switch applies without a page reload.
+     * Flag changes are streamed over Server-Sent Events, or polled for when the browser doesn't support them,
+     * at `feature_flag_poll_interval_ms` or every minute if that isn't set.
+     * The connection is closed while the page is hidden, and flags are reloaded when it is visible again.
+     *
+     * @default false
+     */
+    feature_flag_streaming?: boolean | FeatureFlagStreamingOptions
+
+    /**
+     * How long flags loaded from PostHog are fresh for. Older flags, e.g. persisted from a previous visit or
+     * in a tab that has been open for days, are stale: they are still used, but are reloaded in the background
+     * when they are read or when the page becomes visible again. See `isStale` in `getFlagsWithDetails`.
+     *
+     * @default undefined, flags never go stale
+     */
+    feature_flag_cache_ttl_ms?: number
+
+    /**
+     * Reloads flags at this interval while the page is visible
+     *
+     * @default undefined, flags are only reloaded on init, identify, group changes and `reloadFeatureFlags`
+     */
+    feature_flag_poll_interval_ms?: number
+
+    /**
+     * Lets links force flags for whoever opens them, e.g. `?__posthog_flags=checkout-v2:test,beta:true`,
+     * so that designers can share a specific variant. The overrides are kept for `ttl_ms` and a badge
+     * shows while they apply. Off by default, as anyone could otherwise turn on any flag.
+     *
+     * @default false
+     */
+    feature_flag_url_overrides?: boolean | FeatureFlagUrlOverridesConfig
+
+    /**
+     * Flags whose first variant is kept for the user, even when `identify` or new person properties
+     * would now assign them another one, so that experiments aren't contaminated mid-session.
+     * A pinned variant lasts until the flag is no longer returned, e.g. because its experiment ended,
+     * until the flag is changed, e.g. to roll the winning variant out to everyone, or until its `ttl_ms`.
+     *
+     * @example { 'checkout-v2': true, 'pricing-page': { ttl_ms: 7 * 24 * 60 * 60 * 1000 } }
+     * @default undefined
+     */
+    sticky_feature_flags?: Record<string, boolean | StickyFeatureFlagOptions>
+
     /**
      * Sets timeout for fetching surveys
      *
@@ -733,6 +998,15 @@ export interface PostHogConfig {
      */
     surveys_request_timeout_ms: number
 
+    /**
+     * The locale to show translated surveys in, e.g. `de` or `pt-BR`.
+     * If not set, the `locale` person property is used, and otherwise the languages of the browser.
+     * Surveys without a matching translation are shown in their default language.
+     *
+     * @default undefined
+     */
+    survey_locale?: string
+
     /**
      * Function to get the device ID.
      * This doesn't usually need to be set, but can be useful if you want to use a custom device ID.
@@ -896,6 +1170,35 @@ export interface PostHogConfig {
      */
     request_queue_config?: RequestQueueConfig
 
+    /**
+     * Keeps a durable copy of captured events in IndexedDB (or localStorage where that isn't available)
+     * until they are delivered, so events captured while offline survive the page being closed.
+     * Anything left over is replayed in order after the next `init`.
+     *
+     * @see {PersistentOutboxConfig}
+     * @default undefined
+     */
+    persistent_outbox?: boolean | PersistentOutboxConfig
+
+    /**
+     * Stringifies and gzips requests in a Web Worker instead of on the main thread,
+     * which keeps large batches and session recording snapshots from blocking the page.
+     * Falls back to compressing on the main thread where workers or the CompressionStream API are unavailable,
+     * or where a Content Security Policy doesn't allow `blob:` workers.
+     *
+     * @default false
+     */
+    compress_in_worker?: boolean
+
+    /**
+     * What to do with events whose properties don't match the schema registered for them with `posthog.registerEventSchema`.
+     * Can be overridden per event when registering the schema.
+     *
+     * @see {SchemaViolationMode}
+     * @default 'warn'
+     */
+    schema_violation_mode?: SchemaViolationMode
+
     // ------- PREVIEW CONFIGS -------
 
     /**
@@ -912,7 +1215,9 @@ export interface PostHogConfig {
 
     /**
      * PREVIEW - MAY CHANGE WITHOUT WARNING - DO NOT USE IN PRODUCTION
-     * Whether to send a sentinel value for distinct id, device id, and session id, which will be replaced server-side by a cookieless hash
+     * Whether to send a sentinel value for distinct id and device id, which will be replaced server-side by a cookieless hash.
+     * Session and window ids are only kept in memory, so sessions and session replay work without anything identifying
+     * being written to cookies or storage, but a reload or a new tab starts a new session.
      * */
     __preview_experimental_cookieless_mode?: boolean
 
@@ -1111,10 +1416,37 @@ export interface RequestResponse {
     statusCode: number
     text?: string
     json?: any
+    /**
+     * How long the server asked us to wait before retrying, parsed from the `Retry-After` header.
+     * Cross-origin responses only expose it when the server sends `Access-Control-Expose-Headers: Retry-After`.
+     */
+    retryAfterMs?: number
 }
 
 export type RequestCallback = (response: RequestResponse) => void
 
+/**
+ * What a custom transport receives. The body is already encoded, including any compression,
+ * and the headers already include the `Content-Type` it must be sent with.
+ */
+export interface TransportRequest {
+    url: string
+    method: 'POST' | 'GET'
+    headers: Record<string, string>
+    /** a string, or a Blob of the gzipped payload when `compression` is `gzip-js` */
+    body?: string | BlobPart
+    compression?: Compression
+    timeout?: number
+    /** the built-in transport that would have been used, e.g. `sendBeacon` when the page is being unloaded */
+    transport?: 'XHR' | 'fetch' | 'sendBeacon'
+}
+
+/**
+ * Sends a request and calls `respond` exactly once with the outcome.
+ * Network failures should be reported with a `statusCode` of 0 so that the request is retried.
+ */
+export type CustomTransport = (request: TransportRequest, respond: RequestCallback) => void
+
 // See https://nextjs.org/docs/app/api-reference/functions/fetch#fetchurl-options
 type NextOptions = { revalidate: false | 0 | number; tags: string[] }
 
@@ -1130,6 +1462,8 @@ export interface RequestWithOptions {
     timeout?: number
     noRetries?: boolean
     compression?: Compression | 'best-available'
+    customTransport?: CustomTransport
+    encodingWorker?: EncodingWorker
     fetchOptions?: {
         cache?: RequestInit['cache']
         next?: NextOptions
@@ -1141,16 +1475,82 @@ export interface RequestWithOptions {
 export interface QueuedRequestWithOptions extends RequestWithOptions {
     /** key of queue, e.g. 'sessionRecording' vs 'event' */
     batchKey?: string
+    /** token of the additional destination this copy of a request is sent to, see `destinations` */
+    destinationToken?: string
 }
 
 // Used explicitly for retriable requests
 export interface RetriableRequestWithOptions extends QueuedRequestWithOptions {
     retriesPerformedSoFar?: number
+    /** id of the persistent outbox entry holding a copy of this request, if any */
+    outboxId?: string
 }
 
 // we used to call a request that was sent to the queue with options attached `RequestQueueOptions`
 // so we can't call the options used to configure the behavior of the RequestQueue that as well,
 // so instead we call them config
+export interface CaptureDestination {
+    /** The project API key of the destination */
+    token: string
+
+    /**
+     * URL of the PostHog instance of the destination
+     *
+     * @default the `api_host` of the main project
+     */
+    api_host?: string
+
+    /**
+     * When set, only these events are sent to the destination
+     */
+    events?: EventName[]
+
+    /**
+     * Runs for each event just before it is sent to this destination, after the `before_send` of the main project.
+     * Return null to not send the event to this destination.
+     */
+    before_send?: BeforeSendFn | BeforeSendFn[]
+}
+
+/**
+ * Parts of the SDK that consent can be given or withheld for separately with `posthog.set_consent_categories`.
+ * `analytics` covers every event that doesn't belong to one of the other categories.
+ */
+export type ConsentCategory = 'analytics' | 'session_recording' | 'heatmaps' | 'surveys' | 'exceptions' | 'web_vitals'
+
+export type ConsentCategories = Partial<Record<ConsentCategory, boolean>>
+
+export interface GoogleConsentModeAdapterConfig {
+    /**
+     * Which Google consent type has to be granted for each category.
+     *
+     * @default every category requires `analytics_storage`, except surveys, which require `functionality_storage`
+     */
+    category_mapping?: Partial<Record<ConsentCategory, string>>
+}
+
+export interface TcfAdapterConfig {
+    /**
+     * Which TCF purposes have to be consented to for each category.
+     *
+     * @default every category requires purposes 1 (store and access information on a device) and 8 (measure content performance),
+     * except surveys, which require purposes 1 and 9 (market research)
+     */
+    category_purposes?: Partial<Record<ConsentCategory, number[]>>
+
+    /**
+     * When set, the vendor has to have been given consent as well
+     */
+    vendor_id?: number
+}
+
+export interface ConsentAdaptersConfig {
+    /** Reads the consent state set with `gtag('consent', ...)` from the `dataLayer` (Google Consent Mode v2) */
+    google_consent_mode?: boolean | GoogleConsentModeAdapterConfig
+    /** Reads the consent state from an IAB TCF v2 CMP through `window.__tcfapi` */
+    tcf?: boolean | TcfAdapterConfig
+}
+
 export interface RequestQueueConfig {
     /**
      *  ADVANCED - alters the frequency which PostHog sends events to the server.
@@ -1161,6 +1561,23 @@ export interface RequestQueueConfig {
     flush_interval_ms?: number
 }
 
+export interface PersistentOutboxConfig {
+    /**
+     * The maximum total size of the persisted requests.
+     * When it is exceeded the oldest requests are dropped first.
+     *
+     * @default 2 * 1024 * 1024 (2MB)
+     */
+    max_bytes?: number
+
+    /**
+     * Persisted requests older than this are dropped instead of being replayed.
+     *
+     * @default 7 * 24 * 60 * 60 * 1000 (7 days)
+     */
+    max_age_ms?: number
+}
+
 export interface CaptureOptions {
     /**
      * Used when `$identify` is called
@@ -1405,19 +1822,121 @@ export type FeatureFlagsCallback = (
     variants: Record<string, string | boolean>,
     context?: {
         errorsLoading?: boolean
+        // when the flags were last loaded from PostHog, in milliseconds since the epoch
+        fetchedAt?: number
+        // whether the flags are older than `feature_flag_cache_ttl_ms`
+        isStale?: boolean
+        diagnostics?: FeatureFlagLoadDiagnostics
     }
 ) => void
 
+export type FeatureFlagLoadError = 'timeout' | 'network' | 'http' | 'quota_limited'
+
+export interface FeatureFlagLoadDiagnostics {
+    // how long the last request for flags took, in milliseconds
+    latencyMs?: number
+    // why the last request for flags failed, if it did
+    error?: FeatureFlagLoadError
+    statusCode?: number
+    // where the flags in use came from: PostHog on this page load, an earlier page load, or `bootstrap`
+    source: 'network' | 'cache' | 'bootstrap' | 'none'
+    // flags that had no value when they were first read, e.g. because they were read before flags loaded
+    missingFlags: string[]
+}
+
+export type FeatureFlagValue = string | boolean | undefined
+
+/**
+ * Maps feature flag keys to the variants they can take and the type of their payload. Empty by default, extend it
+ * with declaration merging to have flag keys, values and payloads checked in e.g. `getFeatureFlag`,
+ * `getFeatureFlagPayload` and the React hooks. Once any flag is registered, keys that aren't are compile errors.
+ *
+ * @example
+ * declare module 'posthog-js' {
+ *     interface RegisteredFeatureFlags {
+ *         'checkout-v2': { variant: 'control' | 'test'; payload: { price: number } }
+ *         'new-onboarding': { variant: boolean }
+ *     }
+ * }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface RegisteredFeatureFlags {}
+
+/**
+ * The keys of the registered flags, or any string when no flag is registered
+ */
+export type FeatureFlagKey<Flags = RegisteredFeatureFlags> = keyof Flags extends never
+    ? string
+    : Extract<keyof Flags, string>
+
+/**
+ * What `getFeatureFlag` returns for a flag that has loaded: one of its variants, or false when it is off
+ */
+export type RegisteredFeatureFlagValue<K extends string, Flags = RegisteredFeatureFlags> = K extends keyof Flags
+    ? Flags[K] extends { variant: infer V }
+        ? V | false
+        : Exclude<FeatureFlagValue, undefined>
+    : Exclude<FeatureFlagValue, undefined>
+
+export type RegisteredFeatureFlagPayload<K extends string, Flags = RegisteredFeatureFlags> = K extends keyof Flags
+    ? Flags[K] extends { payload: infer P }
+        ? P | undefined
+        : JsonType
+    : JsonType
+
+export interface FeatureFlagChange {
+    next: FeatureFlagValue
+    previous: FeatureFlagValue
+    // undefined when the flag is gone, or when it was loaded from a response without details
+    detail: FeatureFlagDetail | undefined
+}
+
+/**
+ * Called when the value or the payload of a flag changes, with the value before and after the change
+ */
+export type FeatureFlagChangeCallback<Value extends FeatureFlagValue = FeatureFlagValue> = (
+    next: Value | undefined,
+    previous: Value | undefined,
+    detail: FeatureFlagDetail | undefined
+) => void
+
+/**
+ * Called once per update with the flags whose value or payload changed, keyed by flag
+ */
+export type FeatureFlagsChangeCallback = (changes: Record<string, FeatureFlagChange>) => void
+
+export interface ExperimentExposureOptions<Variant extends FeatureFlagValue = FeatureFlagValue> {
+    /**
+     * The variant the user saw, when it isn't the current value of the flag
+     */
+    variant?: Exclude<Variant, undefined>
+    /**
+     * Properties describing where the variant was seen, e.g. `{ placement: 'cart' }`
+     */
+    context?: Properties
+    /**
+     * Whether each variant is reported once per session, or once ever for this user
+     * @default 'session'
+     */
+    dedupe?: 'session' | 'persistence'
+}
+
 export type FeatureFlagDetail = {
     key: string
     enabled: boolean
     // Only used when overriding a flag payload.
     original_enabled?: boolean | undefined
     variant: string | undefined
-    // Only used when overriding a flag payload.
+    // Only used when overriding a flag payload, or when a sticky flag keeps its pinned variant.
     original_variant?: string | undefined
+    // When the variant was pinned because the flag is in `sticky_feature_flags`, in milliseconds since the epoch
+    pinnedAt?: number
     reason: EvaluationReason | undefined
     metadata: FeatureFlagMetadata | undefined
+    // When the flags were last loaded from PostHog, in milliseconds since the epoch
+    fetchedAt?: number
+    // Whether the flags are older than `feature_flag_cache_ttl_ms`. Stale flags are still used while they are reloaded.
+    isStale?: boolean
 }
 
 export type FeatureFlagMetadata = {
@@ -1435,6 +1954,59 @@ export type EvaluationReason = {
     description: string | undefined
 }
 
+export type FlagPropertyOperator =
+    | 'exact'
+    | 'is_not'
+    | 'is_set'
+    | 'is_not_set'
+    | 'icontains'
+    | 'not_icontains'
+    | 'regex'
+    | 'not_regex'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'is_date_before'
+    | 'is_date_after'
+
+export interface FlagPropertyFilter {
+    key: string
+    value?: JsonType
+    operator?: FlagPropertyOperator
+    type?: 'person' | 'group' | 'cohort' | 'flag'
+    group_type_index?: number | null
+}
+
+export interface FlagConditionGroup {
+    properties?: FlagPropertyFilter[]
+    rollout_percentage?: number | null
+    variant?: string | null
+}
+
+export interface FeatureFlagDefinition {
+    id: number
+    key: string
+    active: boolean
+    version?: number
+    ensure_experience_continuity?: boolean
+    filters: {
+        groups?: FlagConditionGroup[]
+        multivariate?: { variants: { key: string; rollout_percentage: number }[] } | null
+        payloads?: Record<string, JsonType>
+        aggregation_group_type_index?: number | null
+    }
+}
+
+/**
+ * Flag definitions as returned by the local evaluation endpoint of the PostHog API
+ */
+export interface FeatureFlagDefinitions {
+    flags: FeatureFlagDefinition[]
+    /** group type index to group type, e.g. `{ "0": "company" }` */
+    group_type_mapping?: Record<string, string>
+}
+
 export type RemoteConfigFeatureFlagCallback = (payload: JsonType) => void
 
 export interface PersistentStore {
@@ -1486,7 +2058,7 @@ export interface EarlyAccessFeature {
     // Sync this with the backend's EarlyAccessFeatureSerializer!
     name: string
     description: string
-    stage: 'concept' | 'alpha' | 'beta'
+    stage: EarlyAccessFeatureStage
     documentationUrl: string | null
     flagKey: string | null
 }
@@ -1498,6 +2070,35 @@ export interface EarlyAccessFeatureResponse {
     earlyAccessFeatures: EarlyAccessFeature[]
 }
 
+export interface EarlyAccessFeaturesAppearance {
+    backgroundColor?: string
+    borderColor?: string
+    // the color of the enrollment toggles and links
+    accentColor?: string
+    // the color of the floating tab
+    widgetColor?: string
+    widgetLabel?: string
+    position?: 'left' | 'right'
+    fontFamily?: string
+    maxWidth?: string
+    zIndex?: string
+}
+
+export interface EarlyAccessFeaturesWidgetOptions {
+    /**
+     * Where to show the list of features, otherwise it opens from a tab floating on the side of the page
+     */
+    selector?: string
+    element?: Element
+    /**
+     * The stages to list, in order
+     * @default ['beta', 'alpha', 'concept']
+     */
+    stages?: EarlyAccessFeatureStage[]
+    title?: string
+    appearance?: EarlyAccessFeaturesAppearance
+}
+
 export type Headers = Record<string, string>
 
 /* for rrweb/network@1
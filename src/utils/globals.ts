@@ -1,6 +1,13 @@
 import type { PostHog } from '../posthog-core'
+import type { Survey, SurveyController } from '../posthog-surveys-types'
 import { SessionIdManager } from '../sessionid'
-import { DeadClicksAutoCaptureConfig, Properties, RemoteConfig, SiteAppLoader } from '../types'
+import {
+    DeadClicksAutoCaptureConfig,
+    EarlyAccessFeaturesWidgetOptions,
+    Properties,
+    RemoteConfig,
+    SiteAppLoader,
+} from '../types'
 
 /*
  * Global helpers to protect access to browser globals in a way that is safer for different targets
@@ -41,6 +48,7 @@ export type PostHogExtensionKind =
     | 'recorder'
     | 'tracing-headers'
     | 'surveys'
+    | 'early-access-features'
     | 'dead-clicks-autocapture'
     | 'remote-config'
 
@@ -67,6 +75,8 @@ interface PostHogExtensions {
     rrwebPlugins?: { getRecordConsolePlugin: any; getRecordNetworkPlugin?: any }
     canActivateRepeatedly?: (survey: any) => boolean
     generateSurveys?: (posthog: PostHog) => any | undefined
+    createSurveyController?: (posthog: PostHog, survey: Survey) => SurveyController
+    renderEarlyAccessFeatures?: (posthog: PostHog, options: EarlyAccessFeaturesWidgetOptions) => () => void
     postHogWebVitalsCallbacks?: {
         onLCP: (metric: any) => void
         onCLS: (metric: any) => void
@@ -25,7 +25,11 @@ export class RequestRouter {
     }
 
     get apiHost(): string {
-        const host = this.instance.config.api_host.trim().replace(/\/$/, '')
+        return this._normalizeApiHost(this.instance.config.api_host)
+    }
+
+    private _normalizeApiHost(apiHost: string): string {
+        const host = apiHost.trim().replace(/\/$/, '')
         if (host === 'https://app.posthog.com') {
             return 'https://us.i.posthog.com'
         }
@@ -48,20 +52,27 @@ export class RequestRouter {
     }
 
     get region(): RequestRouterRegion {
+        return this._regionFor(this.apiHost)
+    }
+
+    private _regionFor(apiHost: string): RequestRouterRegion {
         // We don't need to compute this every time so we cache the result
-        if (!this._regionCache[this.apiHost]) {
-            if (/https:\/\/(app|us|us-assets)(\.i)?\.posthog\.com/i.test(this.apiHost)) {
-                this._regionCache[this.apiHost] = RequestRouterRegion.US
-            } else if (/https:\/\/(eu|eu-assets)(\.i)?\.posthog\.com/i.test(this.apiHost)) {
-                this._regionCache[this.apiHost] = RequestRouterRegion.EU
+        if (!this._regionCache[apiHost]) {
+            if (/https:\/\/(app|us|us-assets)(\.i)?\.posthog\.com/i.test(apiHost)) {
+                this._regionCache[apiHost] = RequestRouterRegion.US
+            } else if (/https:\/\/(eu|eu-assets)(\.i)?\.posthog\.com/i.test(apiHost)) {
+                this._regionCache[apiHost] = RequestRouterRegion.EU
             } else {
-                this._regionCache[this.apiHost] = RequestRouterRegion.CUSTOM
+                this._regionCache[apiHost] = RequestRouterRegion.CUSTOM
             }
         }
-        return this._regionCache[this.apiHost]
+        return this._regionCache[apiHost]
     }
 
-    endpointFor(target: RequestRouterTarget, path: string = ''): string {
+    /**
+     * @param apiHost - overrides the configured `api_host`, e.g. for an additional destination
+     */
+    endpointFor(target: RequestRouterTarget, path: string = '', apiHost?: string): string {
         if (path) {
             path = path[0] === '/' ? path : `/${path}`
         }
@@ -70,17 +81,20 @@ export class RequestRouter {
             return this.uiHost + path
         }
 
-        if (this.region === RequestRouterRegion.CUSTOM) {
-            return this.apiHost + path
+        const host = apiHost ? this._normalizeApiHost(apiHost) : this.apiHost
+        const region = this._regionFor(host)
+
+        if (region === RequestRouterRegion.CUSTOM) {
+            return host + path
         }
 
         const suffix = ingestionDomain + path
 
         switch (target) {
             case 'assets':
-                return `https://${this.region}-assets.${suffix}`
+                return `https://${region}-assets.${suffix}`
             case 'api':
-                return `https://${this.region}.${suffix}`
+                return `https://${region}.${suffix}`
         }
     }
 }
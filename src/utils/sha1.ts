@@ -0,0 +1,117 @@
+import { utf8Encode } from './encode-utils'
+
+const utf8Bytes = (str: string): number[] => {
+    const bytes: number[] = []
+    const encoded = utf8Encode(str)
+    for (let i = 0; i < encoded.length; i++) {
+        bytes.push(encoded.charCodeAt(i))
+    }
+    return bytes
+}
+
+const rotateLeft = (n: number, bits: number): number => (n << bits) | (n >>> (32 - bits))
+
+const toHex = (bytes: number[]): string => bytes.map((b) => ('0' + b.toString(16)).slice(-2)).join('')
+
+const sha1Bytes = (message: number[]): number[] => {
+    const bytes = message.slice()
+    const bitLength = bytes.length * 8
+
+    bytes.push(0x80)
+    while (bytes.length % 64 !== 56) {
+        bytes.push(0)
+    }
+    // the length is written as a 64 bit big-endian number, of which we only ever need the lower 32 bits
+    bytes.push(
+        0,
+        0,
+        0,
+        0,
+        (bitLength >>> 24) & 0xff,
+        (bitLength >>> 16) & 0xff,
+        (bitLength >>> 8) & 0xff,
+        bitLength & 0xff
+    )
+
+    let h0 = 0x67452301
+    let h1 = 0xefcdab89
+    let h2 = 0x98badcfe
+    let h3 = 0x10325476
+    let h4 = 0xc3d2e1f0
+    const w: number[] = new Array(80)
+
+    for (let chunk = 0; chunk < bytes.length; chunk += 64) {
+        for (let i = 0; i < 16; i++) {
+            const j = chunk + i * 4
+            w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]
+        }
+        for (let i = 16; i < 80; i++) {
+            w[i] = rotateLeft(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1)
+        }
+
+        let a = h0
+        let b = h1
+        let c = h2
+        let d = h3
+        let e = h4
+        for (let i = 0; i < 80; i++) {
+            let f: number
+            let k: number
+            if (i < 20) {
+                f = (b & c) | (~b & d)
+                k = 0x5a827999
+            } else if (i < 40) {
+                f = b ^ c ^ d
+                k = 0x6ed9eba1
+            } else if (i < 60) {
+                f = (b & c) | (b & d) | (c & d)
+                k = 0x8f1bbcdc
+            } else {
+                f = b ^ c ^ d
+                k = 0xca62c1d6
+            }
+            const temp = (rotateLeft(a, 5) + f + e + k + w[i]) | 0
+            e = d
+            d = c
+            c = rotateLeft(b, 30)
+            b = a
+            a = temp
+        }
+
+        h0 = (h0 + a) | 0
+        h1 = (h1 + b) | 0
+        h2 = (h2 + c) | 0
+        h3 = (h3 + d) | 0
+        h4 = (h4 + e) | 0
+    }
+
+    const digest: number[] = []
+    ;[h0, h1, h2, h3, h4].forEach((h) => digest.push((h >>> 24) & 0xff, (h >>> 16) & 0xff, (h >>> 8) & 0xff, h & 0xff))
+    return digest
+}
+
+/**
+ * SHA-1 of the UTF-8 encoding of the string, as lowercase hex.
+ * SubtleCrypto can only hash asynchronously, and flags have to be evaluated synchronously.
+ */
+export function sha1(str: string): string {
+    return toHex(sha1Bytes(utf8Bytes(str)))
+}
+
+/**
+ * HMAC-SHA1 of the message with the key, both UTF-8 encoded, as lowercase hex
+ */
+export function hmacSha1(key: string, message: string): string {
+    let keyBytes = utf8Bytes(key)
+    if (keyBytes.length > 64) {
+        keyBytes = sha1Bytes(keyBytes)
+    }
+    const innerPad: number[] = []
+    const outerPad: number[] = []
+    for (let i = 0; i < 64; i++) {
+        const byte = keyBytes[i] || 0
+        innerPad.push(byte ^ 0x36)
+        outerPad.push(byte ^ 0x5c)
+    }
+    return toHex(sha1Bytes(outerPad.concat(sha1Bytes(innerPad.concat(utf8Bytes(message))))))
+}